@@ -5,16 +5,34 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
+import Admin from "@/pages/Admin";
+import WalkerPhotos from "@/pages/WalkerPhotos";
 
-function Router() {
+function Pages() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/admin" component={Admin} />
+      <Route path="/walker/:id" component={WalkerPhotos} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// The default household's pages are at /, every household's at /h/:householdSlug
+function Router() {
+  return (
+    <Switch>
+      <Route path="/h/:householdSlug" nest>
+        <Pages />
+      </Route>
+      <Route>
+        <Pages />
+      </Route>
+    </Switch>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
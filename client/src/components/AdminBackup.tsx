@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { ExportTable, ImportMode, ImportResult } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { downloadExport, useImportBackup } from "../hooks/useAdmin";
+import { useToast } from "@/hooks/use-toast";
+
+interface AdminBackupProps {
+  ownerKey: string;
+}
+
+// Download the walk history, and restore it from a file after checking what would change
+const AdminBackup: React.FC<AdminBackupProps> = ({ ownerKey }) => {
+  const [includeDeliveries, setIncludeDeliveries] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [check, setCheck] = useState<ImportResult | null>(null);
+  const importMutation = useImportBackup(ownerKey);
+  const { toast } = useToast();
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const handleExport = (format: "json" | "csv", table?: ExportTable) => {
+    downloadExport(ownerKey, { format, table, deliveries: includeDeliveries }).catch(handleError);
+  };
+
+  const handleCheck = () => {
+    if (!file) {
+      return;
+    }
+    importMutation.mutate(
+      { file, mode, dryRun: true },
+      { onSuccess: setCheck, onError: handleError },
+    );
+  };
+
+  const handleImport = () => {
+    if (!file || !check) {
+      return;
+    }
+    if (mode === "replace" && !window.confirm(`Remove all ${check.slotsRemoved} walks and replace them with the file?`)) {
+      return;
+    }
+    importMutation.mutate(
+      { file, mode, dryRun: false },
+      {
+        onSuccess: (result) => {
+          setCheck(null);
+          toast({
+            title: "Import finished",
+            description: `Added ${result.slotsImported} walks and ${result.walkersImported} walkers`,
+          });
+        },
+        onError: handleError,
+      },
+    );
+  };
+
+  // A replace only goes ahead when every row is valid
+  const canImport = check && !(check.mode === "replace" && check.errors.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h3 className="font-medium text-gray-800">Export</h3>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleExport("json")}>
+            Everything (JSON)
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("csv", "slots")}>
+            Walks (CSV)
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("csv", "walkers")}>
+            Walkers (CSV)
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={includeDeliveries}
+            onChange={(e) => setIncludeDeliveries(e.target.checked)}
+          />
+          Include sent notifications in the JSON export
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium text-gray-800">Import</h3>
+        <Input
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null);
+            setCheck(null);
+          }}
+        />
+        <div className="flex items-center gap-2">
+          <Select
+            value={mode}
+            onValueChange={(value) => {
+              setMode(value as ImportMode);
+              setCheck(null);
+            }}
+          >
+            <SelectTrigger className="w-auto">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Add to the current walks</SelectItem>
+              <SelectItem value="replace">Replace all walks</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" disabled={!file || importMutation.isPending} onClick={handleCheck}>
+            Check file
+          </Button>
+        </div>
+      </div>
+
+      {check && (
+        <Card className="shadow-sm">
+          <CardContent className="p-4 space-y-3">
+            <div className="text-sm text-gray-800 space-y-1">
+              <p>Walks to add: {check.slotsImported}, already there: {check.slotsSkipped}</p>
+              <p>Walkers to add: {check.walkersImported}, already there: {check.walkersSkipped}</p>
+              {check.mode === "replace" && <p>Walks to remove first: {check.slotsRemoved}</p>}
+            </div>
+            {check.errors.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-5 max-h-48 overflow-y-auto">
+                {check.errors.map((error) => (
+                  <li key={`${error.table}-${error.row}-${error.message}`}>
+                    {error.table} row {error.row}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {check.mode === "replace" && check.errors.length > 0 && (
+              <p className="text-sm text-gray-600">Fix these rows before replacing the walks.</p>
+            )}
+            <Button disabled={!canImport || importMutation.isPending} onClick={handleImport}>
+              {check.mode === "replace" ? "Replace walks" : "Import"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AdminBackup;
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { HelpBroadcastResult } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { useHelpBroadcast } from "../hooks/useAdmin";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, getCurrentDateET } from "../lib/utils";
+
+interface AdminBroadcastProps {
+  ownerKey: string;
+}
+
+// Text every walker that a day still needs walks, after previewing who gets it
+const AdminBroadcast: React.FC<AdminBroadcastProps> = ({ ownerKey }) => {
+  const [date, setDate] = useState<string>(getCurrentDateET());
+  const [preview, setPreview] = useState<HelpBroadcastResult | null>(null);
+  const broadcastMutation = useHelpBroadcast(ownerKey);
+  const { toast } = useToast();
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const handlePreview = () => {
+    broadcastMutation.mutate(
+      { date, dryRun: true },
+      { onSuccess: setPreview, onError: handleError },
+    );
+  };
+
+  const handleSend = () => {
+    if (!preview || !window.confirm(`Text ${preview.recipients.length} walkers about ${formatDate(date)}?`)) {
+      return;
+    }
+    broadcastMutation.mutate(
+      { date },
+      {
+        onSuccess: (result) => {
+          setPreview(null);
+          toast({
+            title: "Broadcast sent",
+            description: `Sent ${result.sent}, already had it ${result.skipped}, failed ${result.failed}`,
+          });
+        },
+        onError: handleError,
+      },
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <label htmlFor="broadcast-date" className="text-sm text-gray-600">
+          Day needing walks
+        </label>
+        <Input
+          id="broadcast-date"
+          type="date"
+          className="w-auto"
+          value={date}
+          onChange={(e) => {
+            if (e.target.value) {
+              setDate(e.target.value);
+              setPreview(null);
+            }
+          }}
+        />
+        <Button variant="outline" disabled={broadcastMutation.isPending} onClick={handlePreview}>
+          Preview
+        </Button>
+      </div>
+
+      {preview && (
+        <Card className="shadow-sm">
+          <CardContent className="p-4 space-y-3">
+            <p className="text-gray-800">{preview.message}</p>
+            <div className="text-sm text-gray-600">
+              {preview.recipients.length > 0
+                ? `To: ${preview.recipients.map((recipient) => recipient.name).join(", ")}`
+                : "No walkers with a phone number have opted in"}
+            </div>
+            <Button
+              disabled={preview.recipients.length === 0 || broadcastMutation.isPending}
+              onClick={handleSend}
+            >
+              Send to {preview.recipients.length} walkers
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AdminBroadcast;
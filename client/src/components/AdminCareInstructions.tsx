@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CareInstructions, CareSection } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import Markdown from "./Markdown";
+import { useCareInstructionsHistory, useSaveCareInstructions } from "../hooks/useAdmin";
+import { formatTimestamp } from "../lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface AdminCareInstructionsProps {
+  ownerKey: string;
+}
+
+// Edit the care instructions walkers see, with a preview and earlier versions to restore
+const AdminCareInstructions: React.FC<AdminCareInstructionsProps> = ({ ownerKey }) => {
+  const { data: current } = useQuery<CareInstructions>({ queryKey: ['/api/care-instructions'], staleTime: 0 });
+  const { data: history } = useCareInstructionsHistory(ownerKey);
+  const saveMutation = useSaveCareInstructions(ownerKey);
+  const [sections, setSections] = useState<CareSection[]>([]);
+  // The version the edit started from, sent with the save
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [preview, setPreview] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the current version once it's loaded, and again after each save
+  useEffect(() => {
+    if (current && current.version !== baseVersion) {
+      setSections(current.sections);
+      setBaseVersion(current.version);
+    }
+  }, [current]);
+
+  const updateSection = (index: number, changes: Partial<CareSection>) => {
+    setSections(sections.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const handleSave = () => {
+    if (baseVersion === null) {
+      return;
+    }
+    saveMutation.mutate(
+      { sections, baseVersion },
+      {
+        onSuccess: (saved) => {
+          toast({ title: "Care instructions saved", description: `Version ${saved.version}` });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to save care instructions",
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  if (!current) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Version {current.version}
+          {current.updatedAt > 0 && `, updated ${formatTimestamp(current.updatedAt)}`}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => setPreview(!preview)}>
+          {preview ? "Edit" : "Preview"}
+        </Button>
+      </div>
+
+      {preview ? (
+        <Card className="shadow-sm">
+          <CardContent className="p-4 space-y-4">
+            {sections.map((section, index) => (
+              <div key={index}>
+                <h4 className="font-medium text-gray-800 mb-1">{section.title}</h4>
+                <Markdown text={section.body} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {sections.map((section, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={section.title}
+                  placeholder="Section title, like Feeding"
+                  onChange={(e) => updateSection(index, { title: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove section"
+                  disabled={sections.length === 1}
+                  onClick={() => setSections(sections.filter((_, i) => i !== index))}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+              <Textarea
+                rows={5}
+                value={section.body}
+                placeholder="Markdown: **bold**, *italic*, - lists, [links](https://...)"
+                onChange={(e) => updateSection(index, { body: e.target.value })}
+              />
+            </div>
+          ))}
+          <Button variant="outline" onClick={() => setSections([...sections, { title: "", body: "" }])}>
+            <PlusIcon className="h-4 w-4 mr-1" /> Add section
+          </Button>
+        </div>
+      )}
+
+      <Button className="w-full" disabled={saveMutation.isPending} onClick={handleSave}>
+        {saveMutation.isPending ? "Saving..." : "Save new version"}
+      </Button>
+
+      {history && history.length > 1 && (
+        <div className="space-y-2">
+          <h3 className="font-medium text-gray-800">Earlier versions</h3>
+          <ul className="divide-y divide-gray-200 text-sm">
+            {history.filter(({ version }) => version !== current.version).map((version) => (
+              <li key={version.version} className="flex items-center justify-between py-2">
+                <span className="text-gray-600">
+                  Version {version.version}
+                  {version.updatedAt > 0 ? `, ${formatTimestamp(version.updatedAt)}` : " (original)"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setSections(version.sections);
+                    setPreview(true);
+                  }}
+                >
+                  Load
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500">Loading a version puts it in the editor; save to restore it.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminCareInstructions;
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { DeliveryLogFilters, NOTIFICATION_CHANNELS } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useDeliveryLog } from "../hooks/useAdmin";
+import { useDebounce } from "../hooks/useDebounce";
+import { formatTime } from "../lib/utils";
+
+interface AdminDeliveryLogProps {
+  ownerKey: string;
+}
+
+// Message types written by the notification code
+const MESSAGE_TYPES = [
+  "book",
+  "cancel",
+  "walker_confirmation",
+  "series_book",
+  "series_cancel",
+  "reminder",
+];
+
+const AdminDeliveryLog: React.FC<AdminDeliveryLogProps> = ({ ownerKey }) => {
+  const [channel, setChannel] = useState("all");
+  const [recipient, setRecipient] = useState("");
+  const [messageType, setMessageType] = useState("all");
+  const [slotDate, setSlotDate] = useState("");
+
+  // Avoid a request per keystroke while typing an address
+  const debouncedRecipient = useDebounce(recipient.trim());
+
+  const filters: DeliveryLogFilters = {
+    channel: channel === "all" ? undefined : channel,
+    recipient: debouncedRecipient || undefined,
+    messageType: messageType === "all" ? undefined : messageType,
+    slotDate: slotDate || undefined,
+  };
+  const { data: records, isLoading } = useDeliveryLog(ownerKey, filters);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+        <Select value={channel} onValueChange={setChannel}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All channels</SelectItem>
+            {NOTIFICATION_CHANNELS.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Recipient (+1555..., email or URL)"
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+        />
+        <Select value={messageType} onValueChange={setMessageType}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All types</SelectItem>
+            {MESSAGE_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>
+                {type}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={slotDate}
+          onChange={(e) => setSlotDate(e.target.value)}
+        />
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500 py-6 text-center">Loading messages...</p>
+      ) : !records || records.length === 0 ? (
+        <p className="text-gray-500 py-6 text-center">No messages found</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sent</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Slot</TableHead>
+              <TableHead>Message</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record) => (
+              <TableRow key={record.id}>
+                <TableCell className="whitespace-nowrap">
+                  {new Date(record.sentAt).toLocaleString("en-US")}
+                </TableCell>
+                <TableCell>{record.channel}</TableCell>
+                <TableCell className="break-all">{record.recipient}</TableCell>
+                <TableCell>{record.messageType}</TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {record.slotDate
+                    ? `${record.slotDate} ${record.slotTime ? formatTime(record.slotTime) : ""}`
+                    : "—"}
+                </TableCell>
+                <TableCell>
+                  {record.suppressedReason && (
+                    <span className="block text-xs font-semibold text-red-600">
+                      Not sent: {record.suppressedReason}
+                    </span>
+                  )}
+                  {record.messageContent}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default AdminDeliveryLog;
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { WalkingSlot } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { useSchedule } from "../hooks/useSchedule";
+import { useForceCancelSlot, useReassignSlot } from "../hooks/useAdmin";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formatDate,
+  formatTime,
+  getCurrentDateET,
+  capitalizeFullName,
+} from "../lib/utils";
+
+interface AdminSlotsProps {
+  ownerKey: string;
+}
+
+interface SlotRowProps {
+  slot: WalkingSlot;
+  onReassign: (slot: WalkingSlot, name: string) => void;
+  onCancel: (slot: WalkingSlot) => void;
+  isBusy: boolean;
+}
+
+// One booked slot with reassign and cancel controls
+const SlotRow: React.FC<SlotRowProps> = ({ slot, onReassign, onCancel, isBusy }) => {
+  const [newName, setNewName] = useState("");
+
+  return (
+    <Card className="shadow-sm">
+      <CardContent className="p-4 space-y-2">
+        <div className="flex justify-between items-center">
+          <div>
+            <div className="text-gray-700 font-medium">{formatTime(slot.time)}</div>
+            <div className="text-gray-900 font-semibold">{slot.name}</div>
+          </div>
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => onCancel(slot)}
+          >
+            Cancel
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            placeholder="Reassign to..."
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-10"
+            disabled={!newName.trim() || isBusy}
+            onClick={() => {
+              onReassign(slot, capitalizeFullName(newName.trim()));
+              setNewName("");
+            }}
+          >
+            Reassign
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const AdminSlots: React.FC<AdminSlotsProps> = ({ ownerKey }) => {
+  const [startDate, setStartDate] = useState<string>(getCurrentDateET());
+  const { data: schedule, isLoading } = useSchedule(startDate);
+  const forceCancelMutation = useForceCancelSlot(ownerKey);
+  const reassignMutation = useReassignSlot(ownerKey);
+  const { toast } = useToast();
+
+  const handleError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const handleCancel = (slot: WalkingSlot) => {
+    if (!window.confirm(`Cancel ${slot.name}'s walk on ${formatDate(slot.date)} at ${formatTime(slot.time)}?`)) {
+      return;
+    }
+    forceCancelMutation.mutate(
+      { date: slot.date, time: slot.time },
+      {
+        onSuccess: () => toast({ title: "Success", description: "Walk cancelled" }),
+        onError: handleError,
+      },
+    );
+  };
+
+  const handleReassign = (slot: WalkingSlot, name: string) => {
+    reassignMutation.mutate(
+      { date: slot.date, time: slot.time, name },
+      {
+        onSuccess: () => toast({ title: "Success", description: `Walk reassigned to ${name}` }),
+        onError: handleError,
+      },
+    );
+  };
+
+  const isBusy = forceCancelMutation.isPending || reassignMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <label htmlFor="admin-start" className="text-sm text-gray-600">
+          Week starting
+        </label>
+        <Input
+          id="admin-start"
+          type="date"
+          className="w-auto"
+          value={startDate}
+          onChange={(e) => e.target.value && setStartDate(e.target.value)}
+        />
+      </div>
+
+      {isLoading || !schedule ? (
+        <p className="text-gray-500 py-6 text-center">Loading schedule...</p>
+      ) : (
+        Object.keys(schedule).map((date) => (
+          <div key={date}>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">
+              {formatDate(date)}
+            </h3>
+            <div className="space-y-2">
+              {schedule[date].length > 0 ? (
+                schedule[date].map((slot) => (
+                  <SlotRow
+                    key={`${date}-${slot.time}`}
+                    slot={slot}
+                    onReassign={handleReassign}
+                    onCancel={handleCancel}
+                    isBusy={isBusy}
+                  />
+                ))
+              ) : (
+                <p className="text-sm text-gray-500">No walks booked</p>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AdminSlots;
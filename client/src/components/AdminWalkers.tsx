@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from "react";
+import { Walker } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAdminWalkers, useUpdateWalker } from "../hooks/useAdmin";
+import { useToast } from "@/hooks/use-toast";
+import { capitalizeFullName } from "../lib/utils";
+
+interface AdminWalkersProps {
+  ownerKey: string;
+}
+
+type WalkerUpdates = { name: string; phone: string; colorIndex: number; broadcastOptOut: boolean };
+
+interface WalkerRowProps {
+  walker: Walker;
+  onSave: (id: number, updates: WalkerUpdates) => void;
+  isSaving: boolean;
+}
+
+// One editable walker row
+const WalkerRow: React.FC<WalkerRowProps> = ({ walker, onSave, isSaving }) => {
+  const [name, setName] = useState(walker.name);
+  const [phone, setPhone] = useState(walker.phone || "");
+  const [colorIndex, setColorIndex] = useState(walker.colorIndex);
+  const [broadcastOptOut, setBroadcastOptOut] = useState(!!walker.broadcastOptOut);
+
+  // Pick up changes after a save or refetch
+  useEffect(() => {
+    setName(walker.name);
+    setPhone(walker.phone || "");
+    setColorIndex(walker.colorIndex);
+    setBroadcastOptOut(!!walker.broadcastOptOut);
+  }, [walker]);
+
+  const isDirty =
+    name !== walker.name ||
+    phone !== (walker.phone || "") ||
+    colorIndex !== walker.colorIndex ||
+    broadcastOptOut !== !!walker.broadcastOptOut;
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input value={name} onChange={(e) => setName(e.target.value)} />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={phone}
+          placeholder="+15555555555"
+          onChange={(e) => setPhone(e.target.value)}
+        />
+        {walker.phone && !walker.phoneVerified && (
+          <p className="text-xs text-amber-600 mt-1">Not confirmed by text yet; saving trusts it</p>
+        )}
+      </TableCell>
+      <TableCell>
+        <Select
+          value={colorIndex.toString()}
+          onValueChange={(value) => setColorIndex(parseInt(value))}
+        >
+          <SelectTrigger className="w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: 10 }, (_, i) => (
+              <SelectItem key={i} value={i.toString()}>
+                {i}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Checkbox
+          checked={!broadcastOptOut}
+          onCheckedChange={(checked) => setBroadcastOptOut(checked !== true)}
+          aria-label={`Send ${walker.name} help needed texts`}
+        />
+      </TableCell>
+      <TableCell>
+        <Button
+          size="sm"
+          disabled={!isDirty || !name.trim() || isSaving}
+          onClick={() =>
+            onSave(walker.id, {
+              name: capitalizeFullName(name.trim()),
+              phone: phone.trim(),
+              colorIndex,
+              broadcastOptOut,
+            })
+          }
+        >
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const AdminWalkers: React.FC<AdminWalkersProps> = ({ ownerKey }) => {
+  const { data: walkers, isLoading } = useAdminWalkers(ownerKey);
+  const updateWalkerMutation = useUpdateWalker(ownerKey);
+  const { toast } = useToast();
+
+  const handleSave = (
+    id: number,
+    updates: WalkerUpdates,
+  ) => {
+    // Phone numbers must be E.164 like the booking form requires
+    if (updates.phone && !updates.phone.startsWith("+")) {
+      toast({
+        title: "Phone Number Format",
+        description: "Please use a phone number with country code or leave it blank",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    updateWalkerMutation.mutate(
+      { id, updates },
+      {
+        onSuccess: () => {
+          toast({ title: "Saved", description: `${updates.name} updated` });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to update walker",
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-500 py-6 text-center">Loading walkers...</p>;
+  }
+
+  if (!walkers || walkers.length === 0) {
+    return <p className="text-gray-500 py-6 text-center">No walkers yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Phone</TableHead>
+          <TableHead>Color</TableHead>
+          <TableHead>Help texts</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {walkers
+          .slice()
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((walker) => (
+            <WalkerRow
+              key={walker.id}
+              walker={walker}
+              onSave={handleSave}
+              isSaving={updateWalkerMutation.isPending}
+            />
+          ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default AdminWalkers;
@@ -1,5 +1,6 @@
 import React, { useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useHousehold } from "../hooks/useHousehold";
 
 interface BookingAnimationProps {
   isVisible: boolean;
@@ -10,6 +11,8 @@ const BookingAnimation: React.FC<BookingAnimationProps> = ({
   isVisible,
   onComplete,
 }) => {
+  const { petName } = useHousehold();
+
   // Start animation and set timeout for completion
   useEffect(() => {
     if (isVisible) {
@@ -304,7 +307,7 @@ const BookingAnimation: React.FC<BookingAnimationProps> = ({
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.6 }}
           >
-            Finn can't wait to go on this adventure!
+            {petName} can't wait to go on this adventure!
           </motion.p>
 
           <motion.div
@@ -338,7 +341,7 @@ const BookingAnimation: React.FC<BookingAnimationProps> = ({
                 },
               }}
             >
-              💙 Thanks for walking Finn! 💙
+              💙 Thanks for walking {petName}! 💙
             </motion.span>
           </motion.div>
         </motion.div>
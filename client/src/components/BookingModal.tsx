@@ -18,22 +18,39 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   formatDate,
+  formatDuration,
   getAvailableTimes,
   capitalizeFullName,
+  fromDateString,
 } from "../lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { InsertSlot, Walker } from "@shared/schema";
+import {
+  InsertSlot,
+  InsertSeries,
+  Walker,
+  MAX_SERIES_OCCURRENCES,
+  DEFAULT_WALK_MINUTES,
+  WALK_DURATIONS,
+} from "@shared/schema";
+import { getSlotTimes, findOverlap, TimedWalk } from "@shared/availability";
+import { useAvailability } from "../hooks/useAvailability";
 import PhoneInput from "react-phone-number-input/input";
 import WalkerNameAutocomplete from "./WalkerNameAutocomplete";
+import { apiUrl } from "../lib/apiUrl";
 
 interface BookingModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: InsertSlot) => void;
+  onSubmitSeries: (data: InsertSeries) => void;
   date: string;
-  bookedTimes: string[];
+  bookedSlots: TimedWalk[];   // Booked walks plus walks held for the waitlist
+  initialTime?: string;   // Preselected time, e.g. when filling a coverage gap
+  onJoinWaitlist?: () => void;   // Offered when every time is taken
   userName: string;
   onUpdateUserName: (name: string) => void;
   userPhone: string;
@@ -45,8 +62,11 @@ const BookingModal: React.FC<BookingModalProps> = ({
   isOpen,
   onClose,
   onSubmit,
+  onSubmitSeries,
   date,
-  bookedTimes,
+  bookedSlots,
+  initialTime = "",
+  onJoinWaitlist,
   userName,
   onUpdateUserName,
   userPhone,
@@ -54,22 +74,40 @@ const BookingModal: React.FC<BookingModalProps> = ({
   isSubmitting,
 }) => {
   const [selectedTime, setSelectedTime] = useState<string>("");
+  const [duration, setDuration] = useState<number>(DEFAULT_WALK_MINUTES);
   const [notes, setNotes] = useState<string>("");
   const [name, setName] = useState<string>(userName);
   const [phone, setPhone] = useState<string>(userPhone || "");
   const [isUpdatingWalker, setIsUpdatingWalker] = useState<boolean>(false);
   const [allWalkers, setAllWalkers] = useState<Walker[]>([]);
   const [isLoadingWalkers, setIsLoadingWalkers] = useState<boolean>(false);
+  // Recurring booking options
+  const [repeatWeekly, setRepeatWeekly] = useState<boolean>(false);
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [endMode, setEndMode] = useState<"count" | "date">("count");
+  const [occurrences, setOccurrences] = useState<string>("4");
+  const [endDate, setEndDate] = useState<string>("");
   const { toast } = useToast();
 
-  // Available times for this day
-  const availableTimes = getAvailableTimes(bookedTimes);
+  // Available times for this day, from the server's walking window
+  const { data: availability, isLoading: isLoadingAvailability } = useAvailability();
+  const dayTimes = availability && date ? getSlotTimes(availability, date) : [];
+  // Leave out start times where a walk this long would overlap a booked one
+  const clashingTimes = dayTimes.filter((time) => findOverlap(bookedSlots, { date, time, duration }));
+  const availableTimes = getAvailableTimes(dayTimes, clashingTimes);
+
+  // Clear the chosen time if a longer walk no longer fits there
+  useEffect(() => {
+    if (selectedTime && clashingTimes.includes(selectedTime)) {
+      setSelectedTime("");
+    }
+  }, [duration]);
 
   // Pre-fetch all walkers when modal opens
   useEffect(() => {
     if (isOpen) {
       setIsLoadingWalkers(true);
-      fetch("/api/walkers/search")
+      fetch(apiUrl("/api/walkers/search"))
         .then((res) => res.json())
         .then((walkers) => {
           setAllWalkers(walkers || []);
@@ -87,12 +125,18 @@ const BookingModal: React.FC<BookingModalProps> = ({
   useEffect(() => {
     if (isOpen) {
       // Reset state values
-      setSelectedTime("");
+      setSelectedTime(initialTime);
+      setDuration(DEFAULT_WALK_MINUTES);
       setNotes("");
       setName(userName); // Initialize with the stored name
       setPhone(userPhone); // Initialize with the stored phone
+      setRepeatWeekly(false);
+      setWeekdays(date ? [fromDateString(date).getDay().toString()] : []);
+      setEndMode("count");
+      setOccurrences("4");
+      setEndDate("");
     }
-  }, [isOpen, userName, userPhone]);
+  }, [isOpen, userName, userPhone, date, initialTime]);
   
   // Focus appropriate element after the modal opens
   // This is separated to reduce complexity and potential timing issues
@@ -102,8 +146,8 @@ const BookingModal: React.FC<BookingModalProps> = ({
     
     // Give time for the modal to fully render and mount its contents
     const timeoutId = setTimeout(() => {
-      // If user already has info in localStorage, focus on time selection
-      if (userName && userName.trim() !== '') {
+      // If user already has info in localStorage and no time was picked for them, focus on time selection
+      if (userName && userName.trim() !== '' && !initialTime) {
         console.log("Attempting to focus time selector");
         const timeSelect = document.getElementById("time");
         if (timeSelect) {
@@ -117,7 +161,7 @@ const BookingModal: React.FC<BookingModalProps> = ({
     
     // Clean up timeout
     return () => clearTimeout(timeoutId);
-  }, [isOpen, userName]);
+  }, [isOpen, userName, initialTime]);
 
   // Handle when a walker is selected from autocomplete
   const handleWalkerSelect = (walker: Walker) => {
@@ -159,7 +203,7 @@ const BookingModal: React.FC<BookingModalProps> = ({
       const capitalizedName = capitalizeFullName(name.trim());
 
       // Call the API to update walker info with capitalized name
-      await fetch("/api/walkers/update", {
+      await fetch(apiUrl("/api/walkers/update"), {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -219,13 +263,57 @@ const BookingModal: React.FC<BookingModalProps> = ({
       return;
     }
 
+    // Validate the repeat rule before touching the walker record
+    const occurrenceCount = parseInt(occurrences);
+    if (repeatWeekly) {
+      if (weekdays.length === 0) {
+        toast({
+          title: "Error",
+          description: "Pick at least one day to repeat on",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (
+        endMode === "count"
+          ? !(occurrenceCount >= 1 && occurrenceCount <= MAX_SERIES_OCCURRENCES)
+          : !endDate || endDate < date
+      ) {
+        toast({
+          title: "Error",
+          description:
+            endMode === "count"
+              ? `Number of walks must be between 1 and ${MAX_SERIES_OCCURRENCES}`
+              : "Please pick an end date on or after this day",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     // Update walker info in database with properly capitalized name
     await updateWalkerInfo();
 
+    if (repeatWeekly) {
+      onSubmitSeries({
+        startDate: date,
+        time: selectedTime,
+        duration,
+        name: capitalizedName,
+        phone: phone || undefined,
+        notes: notes.trim() || undefined,
+        weekdays: weekdays.map((day) => parseInt(day)).sort((a, b) => a - b),
+        occurrences: endMode === "count" ? occurrenceCount : undefined,
+        endDate: endMode === "date" ? endDate : undefined,
+      });
+      return;
+    }
+
     // Submit the booking with the capitalized name
     onSubmit({
       date,
       time: selectedTime,
+      duration,
       name: capitalizedName,
       phone: phone || undefined,
       notes: notes.trim() || undefined,
@@ -287,6 +375,29 @@ const BookingModal: React.FC<BookingModalProps> = ({
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="duration">Walk Length</Label>
+              <Select
+                value={duration.toString()}
+                onValueChange={(value) => setDuration(parseInt(value))}
+              >
+                <SelectTrigger id="duration" className="h-12 text-base">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WALK_DURATIONS.map((minutes) => (
+                    <SelectItem
+                      key={minutes}
+                      value={minutes.toString()}
+                      className="py-3 text-base"
+                    >
+                      {formatDuration(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="time">Select Time</Label>
               <Select value={selectedTime} onValueChange={handleTimeSelection}>
@@ -306,11 +417,95 @@ const BookingModal: React.FC<BookingModalProps> = ({
                     ))
                   ) : (
                     <SelectItem value="none" disabled className="py-3 text-base">
-                      No available times
+                      {isLoadingAvailability
+                        ? "Loading times..."
+                        : dayTimes.length === 0
+                          ? "No walks on this day"
+                          : "No available times"}
                     </SelectItem>
                   )}
                 </SelectContent>
               </Select>
+              {/* A full day can still open up, so offer a place in line */}
+              {onJoinWaitlist && !isLoadingAvailability && dayTimes.length > 0 && availableTimes.length === 0 && (
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0 h-auto text-finn-primary"
+                  onClick={onJoinWaitlist}
+                >
+                  Every time is taken. Join the waitlist instead
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="repeat-weekly"
+                  checked={repeatWeekly}
+                  onCheckedChange={(checked) => setRepeatWeekly(checked === true)}
+                />
+                <Label htmlFor="repeat-weekly">Repeat weekly</Label>
+              </div>
+
+              {repeatWeekly && (
+                <div className="space-y-2 pl-6">
+                  <ToggleGroup
+                    type="multiple"
+                    value={weekdays}
+                    onValueChange={setWeekdays}
+                    className="justify-start"
+                  >
+                    {["S", "M", "T", "W", "T", "F", "S"].map((label, day) => (
+                      <ToggleGroupItem
+                        key={day}
+                        value={day.toString()}
+                        aria-label={`Repeat on day ${day}`}
+                        className="h-8 w-8"
+                      >
+                        {label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={endMode}
+                      onValueChange={(value) => setEndMode(value as "count" | "date")}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">End after</SelectItem>
+                        <SelectItem value="date">End on</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {endMode === "count" ? (
+                      <>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={MAX_SERIES_OCCURRENCES}
+                          value={occurrences}
+                          onChange={(e) => setOccurrences(e.target.value)}
+                          className="w-20"
+                        />
+                        <span className="text-sm text-gray-600">walks</span>
+                      </>
+                    ) : (
+                      <Input
+                        type="date"
+                        min={date}
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                        className="w-auto"
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -335,7 +530,11 @@ const BookingModal: React.FC<BookingModalProps> = ({
                 !selectedTime || !name.trim() || isSubmitting || isUpdatingWalker
               }
             >
-              {isSubmitting || isUpdatingWalker ? "Booking..." : "Book Walk"}
+              {isSubmitting || isUpdatingWalker
+                ? "Booking..."
+                : repeatWeekly
+                  ? "Book Walks"
+                  : "Book Walk"}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import PhoneInput from "react-phone-number-input/input";
+import { ClaimSlot, WalkingSlot } from "@shared/schema";
+import { formatDate, formatTimeRange, capitalizeFullName } from "../lib/utils";
+import { useHousehold } from "../hooks/useHousehold";
+
+interface CoverModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (data: ClaimSlot) => void;
+  slot: WalkingSlot | null;
+  userName: string;
+  userPhone: string;
+  isClaiming: boolean;
+}
+
+// Take over a walk whose walker asked for someone to cover it
+const CoverModal: React.FC<CoverModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  slot,
+  userName,
+  userPhone,
+  isClaiming,
+}) => {
+  const [name, setName] = useState<string>(userName);
+  const { petName } = useHousehold();
+  const [phone, setPhone] = useState<string>(userPhone || "");
+
+  // Start from the stored walker details each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setName(userName);
+      setPhone(userPhone || "");
+    }
+  }, [isOpen, userName, userPhone]);
+
+  if (!slot) return null;
+
+  const handleConfirm = () => {
+    onConfirm({
+      date: slot.date,
+      time: slot.time,
+      name: capitalizeFullName(name.trim()),
+      phone: phone || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cover This Walk?</DialogTitle>
+          <DialogDescription>
+            {slot.name} can't make it on {formatDate(slot.date)},{" "}
+            {formatTimeRange(slot.time, slot.duration)}. The walk becomes yours as soon as you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cover-name">Your Name</Label>
+            <Input
+              id="cover-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cover-phone">Phone Number</Label>
+            <div className="phone-input-container border rounded-md p-2 flex items-center bg-white">
+              <PhoneInput
+                id="cover-phone"
+                name="tel"
+                autoComplete="tel"
+                placeholder="(555) 555-5555"
+                value={phone}
+                onChange={(value) => setPhone(value || "")}
+                className="w-full focus:outline-none"
+                country="US"
+                style={{ border: "none", width: "100%", height: "24px" }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+          <Button variant="outline" className="sm:mr-2" onClick={onClose} disabled={isClaiming}>
+            Never mind
+          </Button>
+          <Button onClick={handleConfirm} disabled={!name.trim() || isClaiming}>
+            {isClaiming ? "Taking over..." : `I'll walk ${petName}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CoverModal;
@@ -1,64 +1,150 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { formatDate, formatTime } from '../lib/utils';
+import { useOwnerKey } from '../hooks/useAdmin';
 import { DeleteSlot } from '@shared/schema';
 
 interface DeleteModalProps {
   isOpen: boolean;
   onClose: () => void;
   onConfirm: (data: DeleteSlot) => void;
+  onConfirmSeries: (seriesId: number, ownerKey?: string) => void;
+  onRequestCover: (requested: boolean) => void;
   slot: {
     date: string;
     time: string;
     name: string;
+    seriesId?: number;
+    coverRequestedAt?: number;
   } | null;
+  isOwnedByUser: boolean; // Whether this browser booked the slot
   isDeleting: boolean;
 }
 
-const DeleteModal: React.FC<DeleteModalProps> = ({ 
-  isOpen, 
-  onClose, 
-  onConfirm, 
+const DeleteModal: React.FC<DeleteModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  onConfirmSeries,
+  onRequestCover,
   slot,
+  isOwnedByUser,
   isDeleting
 }) => {
+  // Owners logged in to the admin console already have their key stored
+  const [storedOwnerKey] = useOwnerKey();
+  const [showOverride, setShowOverride] = useState(false);
+  const [ownerKey, setOwnerKey] = useState('');
+
+  // Reset the owner override whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setShowOverride(!!storedOwnerKey);
+      setOwnerKey(storedOwnerKey);
+    }
+  }, [isOpen, storedOwnerKey]);
+
   if (!slot) return null;
-  
+
+  const canCancel = isOwnedByUser || ownerKey.trim() !== '';
+
   const handleConfirm = () => {
     onConfirm({
       date: slot.date,
       time: slot.time,
-      name: slot.name
+      name: slot.name,
+      ownerKey: isOwnedByUser ? undefined : ownerKey.trim()
     });
   };
-  
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>Cancel Walking Slot?</DialogTitle>
           <DialogDescription>
-            Are you sure you want to cancel the walking slot on {formatDate(slot.date)} at {formatTime(slot.time)} for {slot.name}?
+            {isOwnedByUser
+              ? `Are you sure you want to cancel the walking slot on ${formatDate(slot.date)} at ${formatTime(slot.time)} for ${slot.name}?`
+              : `The walk on ${formatDate(slot.date)} at ${formatTime(slot.time)} was booked by ${slot.name}. Only they can cancel it from the device they booked on.`}
           </DialogDescription>
         </DialogHeader>
-        
-        <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+
+        {/* Owners can cancel any walk with the owner key */}
+        {!isOwnedByUser && (
+          showOverride ? (
+            <div className="space-y-2">
+              <Label htmlFor="owner-key">Owner key</Label>
+              <Input
+                id="owner-key"
+                type="password"
+                autoComplete="off"
+                value={ownerKey}
+                onChange={(e) => setOwnerKey(e.target.value)}
+              />
+            </div>
+          ) : (
+            <Button
+              variant="link"
+              className="px-0 self-start text-sm"
+              onClick={() => setShowOverride(true)}
+            >
+              I'm an owner
+            </Button>
+          )
+        )}
+
+        {/* Rather than freeing the slot, the walker can ask someone to take it over */}
+        {isOwnedByUser && (
           <Button
             variant="outline"
-            className="sm:mr-2"
-            onClick={onClose}
+            onClick={() => onRequestCover(!slot.coverRequestedAt)}
             disabled={isDeleting}
           >
-            No, Keep It
+            {slot.coverRequestedAt
+              ? "I can make it after all, stop looking for cover"
+              : "Ask someone to cover this walk instead"}
           </Button>
+        )}
+
+        {/* Recurring walks can be cancelled one at a time or all together */}
+        {slot.seriesId && (isOwnedByUser || showOverride) && (
+          <Button
+            variant="outline"
+            className="text-red-600 border-red-200 hover:bg-red-50"
+            onClick={() =>
+              onConfirmSeries(slot.seriesId!, isOwnedByUser ? undefined : ownerKey.trim())
+            }
+            disabled={isDeleting || !canCancel}
+          >
+            Cancel all upcoming walks in this series
+          </Button>
+        )}
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
           <Button
-            variant="destructive"
-            onClick={handleConfirm}
+            variant="outline"
+            className="sm:mr-2"
+            onClick={onClose}
             disabled={isDeleting}
           >
-            {isDeleting ? "Cancelling..." : "Yes, Cancel"}
+            {isOwnedByUser ? "No, Keep It" : "Close"}
           </Button>
+          {(isOwnedByUser || showOverride) && (
+            <Button
+              variant="destructive"
+              onClick={handleConfirm}
+              disabled={isDeleting || !canCancel}
+            >
+              {isDeleting
+                ? "Cancelling..."
+                : slot.seriesId
+                  ? "Cancel just this walk"
+                  : "Yes, Cancel"}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -1,10 +1,13 @@
 import React from 'react';
+import { useHousehold } from '../hooks/useHousehold';
 
 const Footer: React.FC = () => {
+  const { petName, isDefault } = useHousehold();
+
   return (
     <footer className="bg-white border-t border-gray-200 py-4">
       <div className="container mx-auto px-4 text-center text-sm text-gray-600">
-        <p>Thanks for walking Finny!</p>
+        <p>Thanks for walking {isDefault ? 'Finny' : petName}!</p>
       </div>
     </footer>
   );
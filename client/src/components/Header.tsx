@@ -1,13 +1,24 @@
-import React from "react";
+import React, { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Walker } from "@shared/schema";
 import { useLocalStorage } from "../hooks/useLocalStorage";
+import { useHousehold } from "../hooks/useHousehold";
+import { apiUrl } from "../lib/apiUrl";
 import finnImage from "../assets/finn.webp";
-import { TrophyIcon, InfoIcon } from "lucide-react";
+import { TrophyIcon, InfoIcon, CalendarPlusIcon, DogIcon } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 interface HeaderProps {
   onPrevWeek: () => void;
   onNextWeek: () => void;
   onToday: () => void;
   onInfoClick: () => void;
+  hasCareUpdate: boolean;  // The care instructions changed since this browser last read them
 }
 
 const Header: React.FC<HeaderProps> = ({
@@ -15,8 +26,25 @@ const Header: React.FC<HeaderProps> = ({
   onNextWeek,
   onToday,
   onInfoClick,
+  hasCareUpdate,
 }) => {
   const [userName] = useLocalStorage<string>("userName", "");
+  // The saved walker, whose id their calendar feed is keyed on
+  const { data: walkers } = useQuery<Walker[]>({
+    queryKey: [`/api/walkers/search?q=${encodeURIComponent(userName.trim())}`],
+    enabled: !!userName.trim(),
+  });
+  const walker = walkers?.find(
+    (w) => w.name.toLowerCase() === userName.trim().replace(/\s+/g, " ").toLowerCase(),
+  );
+  const { petName, petPhotoUrl, isDefault } = useHousehold();
+  const photoUrl = petPhotoUrl || (isDefault ? finnImage : undefined);
+
+  useEffect(() => {
+    if (petName) {
+      document.title = `${petName.replace(/\s+/g, "")}Walks | Schedule Dog Walks`;
+    }
+  }, [petName]);
 
   // Function to scroll to leaderboard section
   const scrollToLeaderboard = () => {
@@ -30,19 +58,26 @@ const Header: React.FC<HeaderProps> = ({
     }
   };
 
+  // Calendar apps subscribe to webcal:// links and refresh them periodically
+  const getCalendarUrl = (path: string) => `webcal://${window.location.host}${apiUrl(path)}`;
+
   return (
     <header className="bg-white shadow-sm sticky top-0 z-10">
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
         <div className="flex items-center">
           <div className="w-12 h-12 rounded-full overflow-hidden mr-3 border-2 border-finn-primary">
-            <img
-              src={finnImage}
-              alt="Finn the dog"
-              className="w-full h-full object-cover"
-            />
+            {photoUrl ? (
+              <img
+                src={photoUrl}
+                alt={`${petName} the dog`}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <DogIcon className="w-full h-full p-2 text-finn-primary" />
+            )}
           </div>
           <h1 className="text-2xl font-bold text-gray-800">
-            Finn Walk Schedule
+            {petName} Walk Schedule
           </h1>
         </div>
 
@@ -64,14 +99,42 @@ const Header: React.FC<HeaderProps> = ({
             <TrophyIcon className="h-6 w-6" />
           </button>
 
+          {/* Calendar subscription links */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                className="p-2 text-finn-primary hover:bg-blue-50 rounded-full transition-colors"
+                aria-label="Subscribe to Calendar"
+                title="Subscribe to Calendar"
+              >
+                <CalendarPlusIcon className="h-6 w-6" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <a href={getCalendarUrl("/api/calendar.ics")}>All walks</a>
+              </DropdownMenuItem>
+              {walker && (
+                <DropdownMenuItem asChild>
+                  <a href={getCalendarUrl(`/api/calendar/walker/${walker.id}.ics`)}>
+                    My walks
+                  </a>
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
           {/* Info button */}
           <button
             onClick={onInfoClick}
-            className="p-2 text-finn-primary hover:bg-blue-50 rounded-full transition-colors"
-            aria-label="Care Instructions"
-            title="Care Instructions"
+            className="relative p-2 text-finn-primary hover:bg-blue-50 rounded-full transition-colors"
+            aria-label={hasCareUpdate ? "Care Instructions (updated)" : "Care Instructions"}
+            title={hasCareUpdate ? "Care instructions updated since your last visit" : "Care Instructions"}
           >
             <InfoIcon className="h-6 w-6" />
+            {hasCareUpdate && (
+              <span className="absolute top-1 right-1 h-2.5 w-2.5 rounded-full bg-red-500 ring-2 ring-white" />
+            )}
           </button>
         </div>
       </div>
@@ -1,4 +1,5 @@
 import React from "react";
+import { CareInstructions } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -8,37 +9,49 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import Markdown from "./Markdown";
+import { useHousehold } from "../hooks/useHousehold";
+import { formatTimestamp } from "../lib/utils";
 
 interface InfoModalProps {
   isOpen: boolean;
   onClose: () => void;
+  instructions?: CareInstructions;
+  isUpdated: boolean;     // Changed since this browser last read them
 }
 
-const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose }) => {
+const InfoModal: React.FC<InfoModalProps> = ({ isOpen, onClose, instructions, isUpdated }) => {
+  const { petName } = useHousehold();
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Finn's Care Instructions</DialogTitle>
+          <DialogTitle>{petName}'s Care Instructions</DialogTitle>
           <DialogDescription>
-            Important information for walking Finn
+            Important information for walking {petName}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="space-y-4 py-4">
-          <div>
-            <h4 className="font-medium text-gray-800 mb-1">Walking</h4>
-            <p className="text-gray-600">
-              Thank you for helping us take care of Finn while we take care of
-              Arlo. Finn needs a 30-minute walk twice a day. He may pull a bit, and he may also be a little sad that we're not joining, but he'll settle down quickly.
-            </p>
+        {instructions && instructions.updatedAt > 0 && (
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            {isUpdated && (
+              <span className="rounded-full bg-blue-100 px-2 py-0.5 font-medium text-blue-800">
+                Updated since your last visit
+              </span>
+            )}
+            <span>Last updated {formatTimestamp(instructions.updatedAt)}</span>
           </div>
+        )}
 
-          <div>
-            <p className="text-gray-600">
-We'll use this schedule to keep track of who's walking Finn and when. 
-            </p>
-          </div>
+        <div className="space-y-4 py-4">
+          {!instructions && <p className="text-gray-500">Loading...</p>}
+          {instructions?.sections.map((section, index) => (
+            <div key={index}>
+              <h4 className="font-medium text-gray-800 mb-1">{section.title}</h4>
+              <Markdown text={section.body} />
+            </div>
+          ))}
         </div>
 
         <DialogFooter>
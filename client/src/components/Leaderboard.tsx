@@ -9,12 +9,15 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   useAllTimeLeaderboard,
+  useCompletedLeaderboard,
   useNextWeekLeaderboard,
   LeaderboardEntry,
 } from "../hooks/useLeaderboard";
 import { Badge } from "@/components/ui/badge";
 import { TrophyIcon, CalendarIcon, PawPrintIcon } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 
 interface LeaderboardProps {
   currentDate: string;
@@ -29,6 +32,7 @@ interface WalkerStyle {
 const Leaderboard: React.FC<LeaderboardProps> = ({ currentDate }) => {
   const [activeTab, setActiveTab] = useState<string>("all-time");
   const [isHighlighted, setIsHighlighted] = useState(false);
+  const [completedOnly, setCompletedOnly] = useState(false);
 
   // Add scroll effect detection
   useEffect(() => {
@@ -77,9 +81,16 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ currentDate }) => {
   }, []);
 
   // Fetch leaderboard data using React Query
-  const { data: allTimeData, isLoading: isLoadingAllTime } =
+  const { data: bookedData, isLoading: isLoadingBooked } =
     useAllTimeLeaderboard();
 
+  // Walks that were checked out, rather than every booking
+  const { data: completedData, isLoading: isLoadingCompleted } =
+    useCompletedLeaderboard(completedOnly);
+
+  const allTimeData = completedOnly ? completedData : bookedData;
+  const isLoadingAllTime = completedOnly ? isLoadingCompleted : isLoadingBooked;
+
   const { data: nextWeekData, isLoading: isLoadingNextWeek } =
     useNextWeekLeaderboard(currentDate);
 
@@ -110,7 +121,7 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ currentDate }) => {
 
     return (
       <div
-        key={entry.name}
+        key={entry.walkerId}
         className="flex items-center justify-between p-3 mb-2 rounded-md transition-all duration-200"
         style={{
           backgroundColor: style.bg,
@@ -171,6 +182,16 @@ const Leaderboard: React.FC<LeaderboardProps> = ({ currentDate }) => {
           </TabsList>
 
           <TabsContent value="all-time" className="space-y-1">
+            <div className="flex items-center justify-end gap-2 mb-2">
+              <Switch
+                id="completed-only"
+                checked={completedOnly}
+                onCheckedChange={setCompletedOnly}
+              />
+              <Label htmlFor="completed-only" className="text-sm text-gray-600">
+                Completed walks only
+              </Label>
+            </div>
             {isLoadingAllTime ? (
               <div className="space-y-2">
                 {[1, 2, 3].map((i) => (
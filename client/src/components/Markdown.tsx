@@ -0,0 +1,95 @@
+import React from "react";
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+// Bold, italics, code and links, in the order they're tried
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+// Links may only go to web pages, email addresses or phone numbers
+const SAFE_LINK = /^(https?:|mailto:|tel:)/i;
+
+// Render bold, italic, code and links within a line of text
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if ((part.startsWith("*") && part.endsWith("*") && part.length > 2) ||
+        (part.startsWith("_") && part.endsWith("_") && part.length > 2)) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return <code key={index} className="rounded bg-gray-100 px-1">{part.slice(1, -1)}</code>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return SAFE_LINK.test(link[2])
+        ? <a key={index} href={link[2]} target="_blank" rel="noreferrer" className="text-finn-primary underline">{link[1]}</a>
+        : link[1];
+    }
+    return part;
+  });
+}
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "paragraph"; lines: string[] };
+
+// Split Markdown into headings, lists and paragraphs
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const last = blocks[blocks.length - 1];
+    const heading = trimmed.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = trimmed.match(/^[-*]\s+(.*)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!trimmed) {
+      blocks.push({ type: "paragraph", lines: [] });
+    } else if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+    } else if (bullet || numbered) {
+      const ordered = !bullet;
+      const item = (bullet || numbered)![1];
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item] });
+      }
+    } else if (last?.type === "paragraph") {
+      last.lines.push(trimmed);
+    } else {
+      blocks.push({ type: "paragraph", lines: [trimmed] });
+    }
+  }
+  return blocks.filter((block) => block.type !== "paragraph" || block.lines.length > 0);
+}
+
+// Render owner-written Markdown as React elements, never as raw HTML
+const Markdown: React.FC<MarkdownProps> = ({ text, className }) => (
+  <div className={className ?? "space-y-2 text-gray-600"}>
+    {parseBlocks(text).map((block, index) => {
+      switch (block.type) {
+        case "heading":
+          return block.level === 1
+            ? <h4 key={index} className="font-semibold text-gray-800">{renderInline(block.text)}</h4>
+            : <h5 key={index} className="font-medium text-gray-800">{renderInline(block.text)}</h5>;
+        case "list": {
+          const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+          return block.ordered
+            ? <ol key={index} className="list-decimal pl-5 space-y-1">{items}</ol>
+            : <ul key={index} className="list-disc pl-5 space-y-1">{items}</ul>;
+        }
+        case "paragraph":
+          return <p key={index}>{renderInline(block.lines.join(" "))}</p>;
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { useHousehold } from '../hooks/useHousehold';
 
 interface NamePromptProps {
   isOpen: boolean;
@@ -11,6 +12,7 @@ interface NamePromptProps {
 
 const NamePrompt: React.FC<NamePromptProps> = ({ isOpen, onSave }) => {
   const [name, setName] = useState<string>('');
+  const { petName } = useHousehold();
 
   const handleSave = () => {
     if (name.trim()) {
@@ -28,7 +30,7 @@ const NamePrompt: React.FC<NamePromptProps> = ({ isOpen, onSave }) => {
     <Dialog open={isOpen}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Welcome to FinnWalks!</DialogTitle>
+          <DialogTitle>Welcome to {petName.replace(/\s+/g, '')}Walks!</DialogTitle>
           <DialogDescription>
             Please enter your first name so we can identify your bookings.
           </DialogDescription>
@@ -0,0 +1,112 @@
+import React, { useRef } from "react";
+import { WalkingSlot, SlotPhoto, MAX_PHOTO_BYTES } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { CameraIcon } from "lucide-react";
+import { useSlotPhotos, useUploadPhoto } from "../hooks/usePhotos";
+import { useHousehold } from "../hooks/useHousehold";
+import { useToast } from "@/hooks/use-toast";
+
+interface PhotoThumbnailsProps {
+  photos: SlotPhoto[];
+  className?: string;
+}
+
+// A row of photo thumbnails, each opening the full photo
+export const PhotoThumbnails: React.FC<PhotoThumbnailsProps> = ({ photos, className }) => {
+  const { petName } = useHousehold();
+
+  return (
+    <div className={className ?? "flex gap-2 overflow-x-auto"}>
+      {photos.map((photo) => (
+        <a
+          key={photo.id}
+          href={photo.url}
+          target="_blank"
+          rel="noreferrer"
+          className="shrink-0"
+        >
+          <img
+            src={photo.thumbnailUrl}
+            alt={`${petName} with ${photo.name}`}
+            loading="lazy"
+            className="h-16 w-16 rounded-md object-cover border border-white shadow-sm"
+          />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+interface PhotoStripProps {
+  slot: WalkingSlot;
+  canUpload: boolean;    // Whether this browser's walker can add photos
+  walkerToken: string;
+}
+
+// The photos from a finished walk, with an upload button for its walker
+const PhotoStrip: React.FC<PhotoStripProps> = ({ slot, canUpload, walkerToken }) => {
+  const { data: photos = [] } = useSlotPhotos(slot.date, slot.time);
+  const uploadMutation = useUploadPhoto();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+
+    if (file.size > MAX_PHOTO_BYTES) {
+      toast({
+        title: "Photo too large",
+        description: `Photos must be under ${MAX_PHOTO_BYTES / 1024 / 1024} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    uploadMutation.mutate(
+      { date: slot.date, time: slot.time, file, ownerToken: walkerToken || undefined },
+      {
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to upload the photo",
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  if (photos.length === 0 && !canUpload) return null;
+
+  return (
+    <div className="flex items-center gap-2 mt-2 overflow-x-auto">
+      <PhotoThumbnails photos={photos} className="flex gap-2" />
+      {canUpload && (
+        <>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-16 w-16 shrink-0 rounded-md flex-col gap-1 text-xs"
+            disabled={uploadMutation.isPending}
+            onClick={() => fileInput.current?.click()}
+          >
+            <CameraIcon className="h-4 w-4" />
+            {uploadMutation.isPending ? "Adding..." : "Add"}
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotoStrip;
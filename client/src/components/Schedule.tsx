@@ -1,37 +1,109 @@
 import React, { useState, useEffect } from "react";
-import { WalkingSlot } from "@shared/schema";
+import { Link } from "wouter";
+import {
+  WalkingSlot,
+  InsertSlot,
+  DeleteSlot,
+  InsertSeries,
+  ClaimSlot,
+  JoinWaitlist,
+  SubmitWalkReport,
+  WalkReport,
+  DEFAULT_WALK_MINUTES,
+} from "@shared/schema";
+import { getSlotTimes, findOverlap } from "@shared/availability";
+import { getWalkStatus, canCheckIn, canReport } from "@shared/walkStatus";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { badgeVariants } from "@/components/ui/badge";
+import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "@/components/ui/collapsible";
 import {
+  cn,
   formatDate,
+  formatTime,
   formatTimeRange,
+  getCurrentDateET,
+  getCurrentTimeET,
   getWalkerColorIndex,
   getWalkerColorIndexSync,
 } from "../lib/utils";
-import { PlusIcon, Trash2Icon } from "lucide-react";
+import { PlusIcon, Trash2Icon, RepeatIcon, ClockIcon, ChevronDownIcon } from "lucide-react";
 import BookingModal from "./BookingModal";
 import DeleteModal from "./DeleteModal";
+import CoverModal from "./CoverModal";
+import WaitlistModal from "./WaitlistModal";
+import WalkReportModal from "./WalkReportModal";
+import PhotoStrip from "./PhotoStrip";
 import BookingAnimation from "./BookingAnimation";
-import { useAddSlot, useDeleteSlot } from "../hooks/useSchedule";
+import {
+  useAddSlot,
+  useDeleteSlot,
+  useAddSeries,
+  useDeleteSeries,
+  useSetCoverRequest,
+  useClaimSlot,
+  useWalkCheck,
+} from "../hooks/useSchedule";
+import { useCoverage } from "../hooks/useCoverage";
+import { useAvailability } from "../hooks/useAvailability";
+import {
+  useWaitlist,
+  useJoinWaitlist,
+  useLeaveWaitlist,
+  getHeldWalks,
+} from "../hooks/useWaitlist";
+import { useWalkReports, useSubmitWalkReport } from "../hooks/useWalkReports";
 import { useToast } from "@/hooks/use-toast";
 
 interface ScheduleProps {
   schedule: Record<string, WalkingSlot[]>;
+  startDate: string;
+  linkedBooking?: { date: string; time: string } | null;   // Slot to open from a texted link
   userName: string;
   onUpdateUserName: (name: string) => void;
   userPhone: string;
   onUpdateUserPhone: (phone: string) => void;
+  walkerToken: string;
+  walkerId: string;
+  onUpdateWalkerIdentity: (token: string, id: string) => void;
+}
+
+// Format a check-in or check-out time (seconds) in the browser's clock
+function formatClockTime(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+// Summarize a walk report's potty, energy and route, e.g. "Pee & poop · High energy · 1.2 mi"
+function describeReport(report: WalkReport): string {
+  const potty = [report.peed && "pee", report.pooped && "poop"].filter(Boolean).join(" & ") || "no potty";
+  const parts = [
+    potty.charAt(0).toUpperCase() + potty.slice(1),
+    `${report.energy.charAt(0).toUpperCase()}${report.energy.slice(1)} energy`,
+  ];
+  if (report.distanceMiles !== undefined) {
+    parts.push(`${report.distanceMiles} mi`);
+  }
+  return parts.join(" · ");
 }
 
 const Schedule: React.FC<ScheduleProps> = ({
   schedule,
+  startDate,
+  linkedBooking,
   userName,
   onUpdateUserName,
   userPhone,
   onUpdateUserPhone,
+  walkerToken,
+  walkerId,
+  onUpdateWalkerIdentity,
 }) => {
   const [bookingDate, setBookingDate] = useState<string>("");
+  const [bookingTime, setBookingTime] = useState<string>("");
   const [deleteSlot, setDeleteSlot] = useState<WalkingSlot | null>(null);
+  const [coverSlot, setCoverSlot] = useState<WalkingSlot | null>(null);
+  const [waitlistDate, setWaitlistDate] = useState<string>("");
+  const [reportSlot, setReportSlot] = useState<WalkingSlot | null>(null);
   const [colorIndices, setColorIndices] = useState<Record<string, number>>({});
   const [showAnimation, setShowAnimation] = useState(false);
   const { toast } = useToast();
@@ -39,6 +111,41 @@ const Schedule: React.FC<ScheduleProps> = ({
   // Mutations for adding and deleting slots
   const addSlotMutation = useAddSlot();
   const deleteSlotMutation = useDeleteSlot();
+  const addSeriesMutation = useAddSeries();
+  const deleteSeriesMutation = useDeleteSeries();
+  const coverRequestMutation = useSetCoverRequest();
+  const claimSlotMutation = useClaimSlot();
+  const walkCheckMutation = useWalkCheck();
+  const joinWaitlistMutation = useJoinWaitlist();
+  const leaveWaitlistMutation = useLeaveWaitlist();
+  const submitReportMutation = useSubmitWalkReport();
+
+  // Walks each day still needs, e.g. no evening walk yet
+  const { data: coverage } = useCoverage(startDate);
+
+  // Who's waiting for a walk on full days, and walks held for them
+  const { data: waitlist = [] } = useWaitlist(startDate);
+  const { data: availability } = useAvailability();
+
+  // How each of the week's walks went
+  const { data: reports = [] } = useWalkReports(startDate);
+  const getReport = (slot: WalkingSlot) =>
+    reports.find((report) => report.date === slot.date && report.time === slot.time);
+
+  // Booked walks plus walks held for someone else on the waitlist
+  const getTakenWalks = (date: string) => [
+    ...(schedule[date] || []),
+    ...getHeldWalks(waitlist, date, walkerId),
+  ];
+
+  // A day is full when no walk of the default length fits anywhere
+  const isDayFull = (date: string) => {
+    const dayTimes = availability ? getSlotTimes(availability, date) : [];
+    const taken = getTakenWalks(date);
+    return dayTimes.length > 0 && dayTimes.every(
+      (time) => findOverlap(taken, { date, time, duration: DEFAULT_WALK_MINUTES }),
+    );
+  };
 
   // Load color indices for all walker names in the schedule
   useEffect(() => {
@@ -79,30 +186,81 @@ const Schedule: React.FC<ScheduleProps> = ({
     fetchColors();
   }, [schedule]);
 
-  // Handle booking modal
-  const openBookingModal = (date: string) => {
+  // Handle booking modal, optionally with a time already picked
+  const openBookingModal = (date: string, time = "") => {
     setBookingDate(date);
+    setBookingTime(time);
   };
 
   const closeBookingModal = () => {
     setBookingDate("");
+    setBookingTime("");
   };
 
+  // Open the booking modal for a texted link once, then drop it from the URL
+  useEffect(() => {
+    if (linkedBooking) {
+      openBookingModal(linkedBooking.date, linkedBooking.time);
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [linkedBooking]);
+
   // Handle booking submission with optimistic update
-  const handleBookSubmit = (data: any) => {
+  const handleBookSubmit = (data: InsertSlot) => {
     // Use optimistic updates for immediate feedback
-    addSlotMutation.mutate(data, {
-      onSuccess: () => {
+    // Send the stored walker token so this browser keeps a single identity
+    addSlotMutation.mutate({ ...data, ownerToken: walkerToken || undefined }, {
+      onSuccess: (newSlot) => {
+        // Remember the token the server issued (or confirmed) for this browser
+        if (newSlot.ownerToken !== walkerToken || newSlot.ownerId !== walkerId) {
+          onUpdateWalkerIdentity(newSlot.ownerToken, newSlot.ownerId || "");
+        }
+
         // Close the booking modal
         closeBookingModal();
 
         // Show the animation instead of toast
         setShowAnimation(true);
       },
+      onError: (error) => {
+        // 409 means someone else booked the slot moments earlier
+        const taken = error.message?.startsWith("409");
+        toast({
+          title: taken ? "Slot just taken" : "Error",
+          description: taken
+            ? "Someone else booked this time a moment ago. Please pick another slot."
+            : error.message || "Failed to book slot",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  // Handle recurring booking submission
+  const handleBookSeriesSubmit = (data: InsertSeries) => {
+    addSeriesMutation.mutate({ ...data, ownerToken: walkerToken || undefined }, {
+      onSuccess: (result) => {
+        if (result.ownerToken !== walkerToken || result.series.ownerId !== walkerId) {
+          onUpdateWalkerIdentity(result.ownerToken, result.series.ownerId || "");
+        }
+
+        closeBookingModal();
+        setShowAnimation(true);
+
+        // Let the walker know which occurrences weren't booked, and why
+        if (result.skipped.length > 0) {
+          toast({
+            title: `Booked ${result.booked.length} walks`,
+            description: `Skipped ${result.skipped
+              .map(({ date, reason }) => `${formatDate(date)}: ${reason}`)
+              .join("; ")}`,
+          });
+        }
+      },
       onError: (error) => {
         toast({
           title: "Error",
-          description: error.message || "Failed to book slot",
+          description: error.message || "Failed to book recurring walks",
           variant: "destructive",
         });
       },
@@ -123,10 +281,153 @@ const Schedule: React.FC<ScheduleProps> = ({
     setDeleteSlot(null);
   };
 
+  // Handle cancelling the rest of a recurring series
+  const handleDeleteSeriesConfirm = (seriesId: number, ownerKey?: string) => {
+    deleteSeriesMutation.mutate(
+      { seriesId, ownerToken: walkerToken || undefined, ownerKey },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: "All upcoming walks in the series were cancelled",
+          });
+          closeDeleteModal();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to cancel series",
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  // Ask for someone to cover the walk, or take the request back
+  const handleRequestCover = (requested: boolean) => {
+    if (!deleteSlot) return;
+    coverRequestMutation.mutate(
+      { date: deleteSlot.date, time: deleteSlot.time, ownerToken: walkerToken || undefined, requested },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Success",
+            description: requested
+              ? "Your walk is marked as needing cover. It stays yours until someone takes it."
+              : "You're back on this walk",
+          });
+          closeDeleteModal();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to update the walk",
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  // Take over someone else's walk that needs cover
+  const handleClaimConfirm = (data: ClaimSlot) => {
+    claimSlotMutation.mutate({ ...data, ownerToken: walkerToken || undefined }, {
+      onSuccess: (slot) => {
+        if (slot.ownerToken !== walkerToken || slot.ownerId !== walkerId) {
+          onUpdateWalkerIdentity(slot.ownerToken, slot.ownerId || "");
+        }
+        setCoverSlot(null);
+        setShowAnimation(true);
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to take over the walk",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  // Record the actual start or end of the walker's own walk
+  const handleWalkCheck = (slot: WalkingSlot, action: "in" | "out") => {
+    walkCheckMutation.mutate(
+      { date: slot.date, time: slot.time, ownerToken: walkerToken || undefined, action },
+      {
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message || `Failed to check ${action}`,
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  // File or update the report for the walker's own finished walk
+  const handleReportConfirm = (data: SubmitWalkReport) => {
+    submitReportMutation.mutate({ ...data, ownerToken: walkerToken || undefined }, {
+      onSuccess: () => {
+        setReportSlot(null);
+        toast({ title: "Report sent", description: "Thanks for letting us know how it went!" });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to send the report",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  // Wait in line for a full day
+  const openWaitlistModal = (date: string) => {
+    closeBookingModal();
+    setWaitlistDate(date);
+  };
+
+  const handleJoinWaitlist = (data: JoinWaitlist) => {
+    joinWaitlistMutation.mutate({ ...data, ownerToken: walkerToken || undefined }, {
+      onSuccess: (entry) => {
+        if (entry.ownerToken !== walkerToken || entry.ownerId !== walkerId) {
+          onUpdateWalkerIdentity(entry.ownerToken, entry.ownerId || "");
+        }
+        setWaitlistDate("");
+        toast({
+          title: "You're on the waitlist",
+          description: `We'll text you if a walk opens up on ${formatDate(data.date)}`,
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to join the waitlist",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  const handleLeaveWaitlist = (id: number) => {
+    leaveWaitlistMutation.mutate({ id, ownerToken: walkerToken || undefined }, {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to leave the waitlist",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
   // Handle delete confirmation with optimistic update
-  const handleDeleteConfirm = (data: any) => {
+  const handleDeleteConfirm = (data: DeleteSlot) => {
     // Use optimistic updates for immediate feedback
-    deleteSlotMutation.mutate(data, {
+    // The walker token proves this browser booked the slot
+    deleteSlotMutation.mutate({ ...data, ownerToken: walkerToken || undefined }, {
       onSuccess: () => {
         toast({
           title: "Success",
@@ -144,12 +445,19 @@ const Schedule: React.FC<ScheduleProps> = ({
     });
   };
 
+  // Walk statuses are worked out against Eastern Time, like the schedule
+  const now = { date: getCurrentDateET(), time: getCurrentTimeET() };
+
   return (
     <>
       <div className="space-y-8">
         {Object.keys(schedule).map((date) => {
           const slots = schedule[date] || [];
-          const bookedTimes = slots.map((slot) => slot.time);
+          const gaps = coverage?.[date] || [];
+          const dayWaitlist = waitlist.filter((entry) => entry.date === date);
+          const myPlace = dayWaitlist.findIndex((entry) => !!walkerId && entry.ownerId === walkerId);
+          const myEntry = myPlace >= 0 ? dayWaitlist[myPlace] : null;
+          const isFull = isDayFull(date);
 
           return (
             <div key={date} className="day-section" data-date={date}>
@@ -157,7 +465,17 @@ const Schedule: React.FC<ScheduleProps> = ({
                 <h3 className="text-lg font-semibold text-gray-800">
                   {formatDate(date)}
                 </h3>
-                {slots.length > 0 && (
+                {isFull && !myEntry ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openWaitlistModal(date)}
+                    className="rounded-full"
+                  >
+                    <ClockIcon className="h-4 w-4 mr-1" />
+                    Join Waitlist
+                  </Button>
+                ) : slots.length > 0 && !isFull && (
                   <Button
                     size="sm"
                     onClick={() => openBookingModal(date)}
@@ -169,6 +487,71 @@ const Schedule: React.FC<ScheduleProps> = ({
                 )}
               </div>
 
+              {/* This walker's place in line, or the walk held for them */}
+              {myEntry && (
+                <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                  {myEntry.heldTime && (myEntry.holdExpiresAt || 0) * 1000 > Date.now() ? (
+                    <>
+                      <span className="text-green-700 font-medium">
+                        {formatTime(myEntry.heldTime)} is held for you until{" "}
+                        {formatClockTime(myEntry.holdExpiresAt!)}
+                      </span>
+                      <Button
+                        size="sm"
+                        className="h-7 rounded-full"
+                        onClick={() => openBookingModal(date, myEntry.heldTime)}
+                      >
+                        Book it
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-gray-600">
+                      You're #{myPlace + 1} on the waitlist
+                      {myEntry.startTime || myEntry.endTime
+                        ? ` for ${myEntry.startTime ? formatTime(myEntry.startTime) : "any time"} – ${myEntry.endTime ? formatTime(myEntry.endTime) : "any time"}`
+                        : ""}
+                    </span>
+                  )}
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-gray-500"
+                    disabled={leaveWaitlistMutation.isPending}
+                    onClick={() => handleLeaveWaitlist(myEntry.id)}
+                  >
+                    Leave waitlist
+                  </Button>
+                </div>
+              )}
+              {!myEntry && dayWaitlist.length > 0 && (
+                <div className="mb-3 text-sm text-gray-500">
+                  {dayWaitlist.length} {dayWaitlist.length === 1 ? "walker" : "walkers"} waiting for a walk
+                </div>
+              )}
+
+              {/* Daily walks still needed, tap to book the first free time */}
+              {gaps.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {gaps.map((gap) => (
+                    <button
+                      key={gap.label}
+                      type="button"
+                      disabled={!gap.suggestedTime}
+                      onClick={() => gap.suggestedTime && openBookingModal(date, gap.suggestedTime)}
+                      className={cn(
+                        badgeVariants({ variant: "outline" }),
+                        "border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100 disabled:opacity-60",
+                      )}
+                    >
+                      <PlusIcon className="h-3 w-3 mr-1" />
+                      {gap.missing > 1
+                        ? `${gap.missing} ${gap.label} walks still needed`
+                        : `${gap.label} walk still needed`}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Time slots container */}
               <div className="space-y-3">
                 {slots.length > 0 ? (
@@ -178,6 +561,9 @@ const Schedule: React.FC<ScheduleProps> = ({
                       colorIndices[slot.name] !== undefined
                         ? colorIndices[slot.name]
                         : getWalkerColorIndexSync(slot.name);
+                    const status = getWalkStatus(slot, now);
+                    const isMine = !!walkerId && slot.ownerId === walkerId;
+                    const report = getReport(slot);
 
                     return (
                       <Card
@@ -213,17 +599,104 @@ const Schedule: React.FC<ScheduleProps> = ({
                         <CardContent className="p-4">
                           <div className="flex justify-between items-start">
                             <div>
-                              <div className="text-gray-700 font-medium">
-                                {formatTimeRange(slot.time)}
-                              </div>
-                              <div className="text-gray-900 font-semibold">
-                                {slot.name}
+                              <div className="text-gray-700 font-medium flex items-center">
+                                {formatTimeRange(slot.time, slot.duration)}
+                                {slot.seriesId && (
+                                  <RepeatIcon
+                                    className="h-3.5 w-3.5 ml-1.5 text-gray-500"
+                                    aria-label="Recurring walk"
+                                  />
+                                )}
                               </div>
+                              {slot.walkerId ? (
+                                <Link
+                                  href={`/walker/${slot.walkerId}`}
+                                  className="text-gray-900 font-semibold hover:underline"
+                                >
+                                  {slot.name}
+                                </Link>
+                              ) : (
+                                <div className="text-gray-900 font-semibold">{slot.name}</div>
+                              )}
                               {slot.notes && (
                                 <div className="text-gray-600 text-sm mt-1">
                                   {slot.notes}
                                 </div>
                               )}
+                              {/* What actually happened, from the check-in and check-out times */}
+                              {status === "completed" && (
+                                <div className="text-green-700 text-sm mt-1">
+                                  Walked {formatClockTime(slot.checkedInAt!)} – {formatClockTime(slot.checkedOutAt!)}
+                                </div>
+                              )}
+                              {status === "in_progress" && (
+                                <div className="text-finn-primary text-sm font-medium mt-1">
+                                  Out walking since {formatClockTime(slot.checkedInAt!)}
+                                </div>
+                              )}
+                              {status === "missed" && (
+                                <div className="text-red-600 text-sm font-medium mt-1">
+                                  Missed
+                                </div>
+                              )}
+                              {isMine && (canCheckIn(slot, now) || status === "in_progress") && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="h-7 mt-2 rounded-full"
+                                  disabled={walkCheckMutation.isPending}
+                                  onClick={() => handleWalkCheck(slot, status === "in_progress" ? "out" : "in")}
+                                >
+                                  {status === "in_progress" ? "Check out" : "Check in"}
+                                </Button>
+                              )}
+                              {isMine && canReport(slot, now) && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  className="h-7 mt-2 rounded-full"
+                                  onClick={() => setReportSlot(slot)}
+                                >
+                                  {report ? "Edit report" : "How did it go?"}
+                                </Button>
+                              )}
+                              {report && (
+                                <Collapsible className="mt-2">
+                                  <CollapsibleTrigger className="group flex items-center text-sm text-gray-700 hover:text-gray-900">
+                                    {describeReport(report)}
+                                    <ChevronDownIcon className="h-4 w-4 ml-1 transition-transform group-data-[state=open]:rotate-180" />
+                                  </CollapsibleTrigger>
+                                  <CollapsibleContent className="text-sm text-gray-600 mt-1 space-y-1">
+                                    {report.route && <div>Route: {report.route}</div>}
+                                    {report.incidents ? (
+                                      <div className="text-amber-700">Incidents: {report.incidents}</div>
+                                    ) : (
+                                      <div>No incidents</div>
+                                    )}
+                                    <div className="text-gray-500">Reported by {report.name}</div>
+                                  </CollapsibleContent>
+                                </Collapsible>
+                              )}
+                              {canReport(slot, now) && (
+                                <PhotoStrip slot={slot} canUpload={isMine} walkerToken={walkerToken} />
+                              )}
+                              {slot.coverRequestedAt && (
+                                <div className="flex items-center gap-2 mt-1">
+                                  <span className="text-amber-700 text-sm font-medium">
+                                    Needs cover
+                                  </span>
+                                  {slot.ownerId !== walkerId && (
+                                    <Button
+                                      variant="link"
+                                      size="sm"
+                                      className="h-auto p-0 text-finn-primary"
+                                      onClick={() => setCoverSlot(slot)}
+                                    >
+                                      I can cover it
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                             <Button
                               variant="ghost"
@@ -264,15 +737,16 @@ const Schedule: React.FC<ScheduleProps> = ({
         isOpen={!!bookingDate}
         onClose={closeBookingModal}
         onSubmit={handleBookSubmit}
+        onSubmitSeries={handleBookSeriesSubmit}
         date={bookingDate}
-        bookedTimes={
-          bookingDate ? (schedule[bookingDate] || []).map((s) => s.time) : []
-        }
+        bookedSlots={bookingDate ? getTakenWalks(bookingDate) : []}
+        initialTime={bookingTime}
+        onJoinWaitlist={() => openWaitlistModal(bookingDate)}
         userName={userName}
         onUpdateUserName={onUpdateUserName}
         userPhone={userPhone}
         onUpdateUserPhone={onUpdateUserPhone}
-        isSubmitting={addSlotMutation.isPending}
+        isSubmitting={addSlotMutation.isPending || addSeriesMutation.isPending}
       />
 
       {/* Delete Modal */}
@@ -280,8 +754,47 @@ const Schedule: React.FC<ScheduleProps> = ({
         isOpen={!!deleteSlot}
         onClose={closeDeleteModal}
         onConfirm={handleDeleteConfirm}
+        onConfirmSeries={handleDeleteSeriesConfirm}
+        onRequestCover={handleRequestCover}
         slot={deleteSlot}
-        isDeleting={deleteSlotMutation.isPending}
+        isOwnedByUser={!!deleteSlot?.ownerId && deleteSlot.ownerId === walkerId}
+        isDeleting={
+          deleteSlotMutation.isPending ||
+          deleteSeriesMutation.isPending ||
+          coverRequestMutation.isPending
+        }
+      />
+
+      {/* Cover Modal */}
+      <CoverModal
+        isOpen={!!coverSlot}
+        onClose={() => setCoverSlot(null)}
+        onConfirm={handleClaimConfirm}
+        slot={coverSlot}
+        userName={userName}
+        userPhone={userPhone}
+        isClaiming={claimSlotMutation.isPending}
+      />
+
+      {/* Waitlist Modal */}
+      <WaitlistModal
+        isOpen={!!waitlistDate}
+        onClose={() => setWaitlistDate("")}
+        onConfirm={handleJoinWaitlist}
+        date={waitlistDate}
+        userName={userName}
+        userPhone={userPhone}
+        isJoining={joinWaitlistMutation.isPending}
+      />
+
+      {/* Walk Report Modal */}
+      <WalkReportModal
+        isOpen={!!reportSlot}
+        onClose={() => setReportSlot(null)}
+        onConfirm={handleReportConfirm}
+        slot={reportSlot}
+        report={reportSlot ? getReport(reportSlot) : undefined}
+        isSubmitting={submitReportMutation.isPending}
       />
 
       {/* Booking Success Animation */}
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import PhoneInput from "react-phone-number-input/input";
+import { JoinWaitlist, WAITLIST_HOLD_MINUTES } from "@shared/schema";
+import { getSlotTimes } from "@shared/availability";
+import { useAvailability } from "../hooks/useAvailability";
+import { formatDate, formatTime, capitalizeFullName } from "../lib/utils";
+
+interface WaitlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (data: JoinWaitlist) => void;
+  date: string;
+  userName: string;
+  userPhone: string;
+  isJoining: boolean;
+}
+
+// Select value for leaving that end of the window open
+const ANY_TIME = "any";
+
+// Wait for a walk to free up on a full day, optionally only within a time window
+const WaitlistModal: React.FC<WaitlistModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  date,
+  userName,
+  userPhone,
+  isJoining,
+}) => {
+  const [name, setName] = useState<string>(userName);
+  const [phone, setPhone] = useState<string>(userPhone || "");
+  const [startTime, setStartTime] = useState<string>(ANY_TIME);
+  const [endTime, setEndTime] = useState<string>(ANY_TIME);
+
+  const { data: availability } = useAvailability();
+  const dayTimes = availability && date ? getSlotTimes(availability, date) : [];
+
+  // Start from the stored walker details each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setName(userName);
+      setPhone(userPhone || "");
+      setStartTime(ANY_TIME);
+      setEndTime(ANY_TIME);
+    }
+  }, [isOpen, userName, userPhone]);
+
+  if (!date) return null;
+
+  const windowIsValid = startTime === ANY_TIME || endTime === ANY_TIME || endTime >= startTime;
+
+  const handleConfirm = () => {
+    onConfirm({
+      date,
+      startTime: startTime === ANY_TIME ? undefined : startTime,
+      endTime: endTime === ANY_TIME ? undefined : endTime,
+      name: capitalizeFullName(name.trim()),
+      phone,
+    });
+  };
+
+  const renderTimeSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY_TIME}>Any time</SelectItem>
+        {dayTimes.map((time) => (
+          <SelectItem key={time} value={time}>
+            {formatTime(time)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Join the Waitlist</DialogTitle>
+          <DialogDescription>
+            {formatDate(date)} is fully booked. If a walk frees up, the first walker in line gets a
+            text and has {WAITLIST_HOLD_MINUTES} minutes to book it before it goes to the next.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="waitlist-name">Your Name</Label>
+            <Input
+              id="waitlist-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waitlist-phone">Phone Number</Label>
+            <div className="phone-input-container border rounded-md p-2 flex items-center bg-white">
+              <PhoneInput
+                id="waitlist-phone"
+                name="tel"
+                autoComplete="tel"
+                placeholder="(555) 555-5555"
+                value={phone}
+                onChange={(value) => setPhone(value || "")}
+                className="w-full focus:outline-none"
+                country="US"
+                style={{ border: "none", width: "100%", height: "24px" }}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-start">From</Label>
+              {renderTimeSelect("waitlist-start", startTime, setStartTime)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="waitlist-end">Until</Label>
+              {renderTimeSelect("waitlist-end", endTime, setEndTime)}
+            </div>
+          </div>
+          {!windowIsValid && (
+            <p className="text-sm text-red-600">The window must not end before it starts</p>
+          )}
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+          <Button variant="outline" className="sm:mr-2" onClick={onClose} disabled={isJoining}>
+            Never mind
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!name.trim() || !phone || !windowIsValid || isJoining}
+          >
+            {isJoining ? "Joining..." : "Text me if a walk opens"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WaitlistModal;
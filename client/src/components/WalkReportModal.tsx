@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SubmitWalkReport,
+  WalkingSlot,
+  WalkReport,
+  EnergyLevel,
+  ENERGY_LEVELS,
+} from "@shared/schema";
+import { formatDate, formatTimeRange } from "../lib/utils";
+
+interface WalkReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (data: SubmitWalkReport) => void;
+  slot: WalkingSlot | null;
+  report?: WalkReport;     // The walk's earlier report, to edit
+  isSubmitting: boolean;
+}
+
+// Tell the owners how a finished walk went
+const WalkReportModal: React.FC<WalkReportModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  slot,
+  report,
+  isSubmitting,
+}) => {
+  const [peed, setPeed] = useState(false);
+  const [pooped, setPooped] = useState(false);
+  const [energy, setEnergy] = useState<EnergyLevel>("normal");
+  const [route, setRoute] = useState("");
+  const [distance, setDistance] = useState("");
+  const [incidents, setIncidents] = useState("");
+
+  // Start from the earlier report, if any, each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setPeed(report?.peed ?? false);
+      setPooped(report?.pooped ?? false);
+      setEnergy(report?.energy ?? "normal");
+      setRoute(report?.route ?? "");
+      setDistance(report?.distanceMiles !== undefined ? String(report.distanceMiles) : "");
+      setIncidents(report?.incidents ?? "");
+    }
+  }, [isOpen, report]);
+
+  if (!slot) return null;
+
+  const distanceMiles = distance.trim() ? Number(distance) : undefined;
+  const distanceIsValid = distanceMiles === undefined || (distanceMiles >= 0 && distanceMiles <= 50);
+
+  const handleConfirm = () => {
+    onConfirm({
+      date: slot.date,
+      time: slot.time,
+      peed,
+      pooped,
+      energy,
+      route: route.trim() || undefined,
+      distanceMiles,
+      incidents: incidents.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>How did the walk go?</DialogTitle>
+          <DialogDescription>
+            {formatDate(slot.date)}, {formatTimeRange(slot.time, slot.duration)}. The owners
+            get a summary of the day's reports each evening.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-6">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="report-peed"
+                checked={peed}
+                onCheckedChange={(checked) => setPeed(checked === true)}
+              />
+              <Label htmlFor="report-peed">Pee</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="report-pooped"
+                checked={pooped}
+                onCheckedChange={(checked) => setPooped(checked === true)}
+              />
+              <Label htmlFor="report-pooped">Poop</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-energy">Energy</Label>
+            <Select value={energy} onValueChange={(value) => setEnergy(value as EnergyLevel)}>
+              <SelectTrigger id="report-energy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENERGY_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level} className="capitalize">
+                    {level}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="report-route">Route</Label>
+              <Input
+                id="report-route"
+                placeholder="e.g., Around the park"
+                value={route}
+                onChange={(e) => setRoute(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-distance">Miles</Label>
+              <Input
+                id="report-distance"
+                type="number"
+                min={0}
+                max={50}
+                step={0.1}
+                value={distance}
+                onChange={(e) => setDistance(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="report-incidents">Anything happen?</Label>
+            <Textarea
+              id="report-incidents"
+              placeholder="e.g., Barked at a bike, ate something off the sidewalk"
+              value={incidents}
+              onChange={(e) => setIncidents(e.target.value)}
+              className="h-20 resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0">
+          <Button variant="outline" className="sm:mr-2" onClick={onClose} disabled={isSubmitting}>
+            Never mind
+          </Button>
+          <Button onClick={handleConfirm} disabled={!distanceIsValid || isSubmitting}>
+            {isSubmitting ? "Saving..." : report ? "Update report" : "Send report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WalkReportModal;
@@ -0,0 +1,216 @@
+import { useQuery, useMutation, UseMutationResult, UseQueryResult } from "@tanstack/react-query";
+import {
+  Walker,
+  WalkingSlot,
+  DeliveryRecord,
+  DeliveryLogFilters,
+  UpdateWalker,
+  ReassignSlot,
+  HelpBroadcast,
+  HelpBroadcastResult,
+  ExportTable,
+  ImportMode,
+  ImportResult,
+  CareInstructions,
+  SaveCareInstructions,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
+import { useLocalStorage } from "./useLocalStorage";
+import { useHousehold } from "./useHousehold";
+
+// The owner key this browser signed in with. Each household has its own, so
+// each is kept apart.
+export function useOwnerKey() {
+  const { slug } = useHousehold();
+  return useLocalStorage<string>(`ownerKey:${slug}`, '');
+}
+
+// Admin requests authenticate with the owner key in a header
+function ownerHeaders(ownerKey: string): Record<string, string> {
+  return { "X-Owner-Key": ownerKey };
+}
+
+// Refresh everything an admin change can affect
+function invalidateScheduleQueries() {
+  queryClient.invalidateQueries({ queryKey: ['/api/schedule'], refetchType: 'active' });
+  queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/all-time'], refetchType: 'active' });
+  queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/next-week'], refetchType: 'active' });
+}
+
+// Check a password against the server's owner key
+export async function verifyOwnerKey(password: string): Promise<void> {
+  await apiRequest("POST", "/api/admin/login", { password });
+}
+
+// List all walkers
+export function useAdminWalkers(ownerKey: string): UseQueryResult<Walker[]> {
+  return useQuery({
+    queryKey: ['/api/admin/walkers'],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/walkers", undefined, ownerHeaders(ownerKey));
+      return res.json();
+    },
+    enabled: !!ownerKey,
+  });
+}
+
+// Browse the notification delivery log with optional filters
+export function useDeliveryLog(ownerKey: string, filters: DeliveryLogFilters): UseQueryResult<DeliveryRecord[]> {
+  return useQuery({
+    queryKey: ['/api/admin/delivery-log', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      const res = await apiRequest("GET", `/api/admin/delivery-log?${params}`, undefined, ownerHeaders(ownerKey));
+      return res.json();
+    },
+    enabled: !!ownerKey,
+  });
+}
+
+// Edit a walker's name, phone or color
+export function useUpdateWalker(
+  ownerKey: string,
+): UseMutationResult<Walker, Error, { id: number; updates: UpdateWalker }> {
+  return useMutation({
+    mutationFn: async ({ id, updates }) => {
+      const res = await apiRequest(
+        "PUT",
+        `/api/admin/walkers/${id}`,
+        updates,
+        ownerHeaders(ownerKey),
+      );
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/walkers'] });
+      invalidateScheduleQueries();
+    },
+  });
+}
+
+// Cancel any slot regardless of who booked it
+export function useForceCancelSlot(
+  ownerKey: string,
+): UseMutationResult<void, Error, { date: string; time: string }> {
+  return useMutation({
+    mutationFn: async (data) => {
+      await apiRequest("DELETE", "/api/admin/slot", data, ownerHeaders(ownerKey));
+    },
+    onSuccess: invalidateScheduleQueries,
+  });
+}
+
+// Give a slot to a different walker
+export function useReassignSlot(
+  ownerKey: string,
+): UseMutationResult<WalkingSlot, Error, ReassignSlot> {
+  return useMutation({
+    mutationFn: async (data) => {
+      const res = await apiRequest("PUT", "/api/admin/slot", data, ownerHeaders(ownerKey));
+      return res.json();
+    },
+    onSuccess: invalidateScheduleQueries,
+  });
+}
+
+// Text walkers that a day still needs walks, or preview the recipients with dryRun
+export function useHelpBroadcast(
+  ownerKey: string,
+): UseMutationResult<HelpBroadcastResult, Error, HelpBroadcast> {
+  return useMutation({
+    mutationFn: async (data) => {
+      const res = await apiRequest("POST", "/api/admin/broadcast", data, ownerHeaders(ownerKey));
+      return res.json();
+    },
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/delivery-log'] });
+      }
+    },
+  });
+}
+
+// List every version of the care instructions, newest first
+export function useCareInstructionsHistory(ownerKey: string): UseQueryResult<CareInstructions[]> {
+  return useQuery({
+    queryKey: ['/api/admin/care-instructions/history'],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/care-instructions/history", undefined, ownerHeaders(ownerKey));
+      return res.json();
+    },
+    enabled: !!ownerKey,
+  });
+}
+
+// Save edited care instructions as a new version
+export function useSaveCareInstructions(
+  ownerKey: string,
+): UseMutationResult<CareInstructions, Error, SaveCareInstructions> {
+  return useMutation({
+    mutationFn: async (data) => {
+      const res = await apiRequest("PUT", "/api/admin/care-instructions", data, ownerHeaders(ownerKey));
+      return res.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/care-instructions'], saved);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/care-instructions/history'] });
+    },
+  });
+}
+
+// Download the walk history; fetched with the owner key, so it can't be a plain link
+export async function downloadExport(
+  ownerKey: string,
+  options: { format: "json" | "csv"; table?: ExportTable; deliveries?: boolean },
+): Promise<void> {
+  const params = new URLSearchParams({ format: options.format });
+  if (options.table) params.set("table", options.table);
+  if (options.deliveries) params.set("deliveries", "true");
+
+  const res = await apiRequest("GET", `/api/export?${params}`, undefined, ownerHeaders(ownerKey));
+  const fileName = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "finn-walks";
+
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Import a backup file, or check what it would change with dryRun
+export function useImportBackup(
+  ownerKey: string,
+): UseMutationResult<ImportResult, Error, { file: File; mode: ImportMode; dryRun: boolean }> {
+  return useMutation({
+    mutationFn: async ({ file, mode, dryRun }) => {
+      const form = new FormData();
+      form.append("file", file);
+      form.append("mode", mode);
+      form.append("dryRun", String(dryRun));
+
+      // Sent as multipart form data, so not through apiRequest's JSON body
+      const res = await fetch(apiUrl("/api/import"), {
+        method: "POST",
+        headers: ownerHeaders(ownerKey),
+        body: form,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+      return res.json();
+    },
+    onSuccess: (result) => {
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['/api/admin/walkers'] });
+        invalidateScheduleQueries();
+      }
+    },
+  });
+}
@@ -0,0 +1,9 @@
+import { useQuery, UseQueryResult } from "@tanstack/react-query";
+import { Availability } from "@shared/availability";
+
+// Get the bookable walking window configured on the server
+export function useAvailability(): UseQueryResult<Availability> {
+  return useQuery({
+    queryKey: ['/api/config/availability'],
+  });
+}
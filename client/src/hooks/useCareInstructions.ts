@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { CareInstructions } from "@shared/schema";
+import { useLocalStorage } from "./useLocalStorage";
+import { useHousehold } from "./useHousehold";
+
+// Get the care instructions, and whether they changed since this browser last read them
+export function useCareInstructions() {
+  const { slug } = useHousehold();
+  const { data: instructions, isLoading } = useQuery<CareInstructions>({
+    queryKey: ['/api/care-instructions'],
+    staleTime: 0,
+  });
+  // When the version last read here was saved; each household's is kept apart
+  const [seenUpdatedAt, setSeenUpdatedAt] = useLocalStorage<number>(`careInstructionsSeen:${slug}`, 0);
+
+  // Version 0 was never saved by an owner, so there's nothing new to point out
+  const isUpdated = !!instructions && instructions.updatedAt > seenUpdatedAt;
+
+  const markSeen = () => {
+    if (isUpdated) {
+      setSeenUpdatedAt(instructions.updatedAt);
+    }
+  };
+
+  return { instructions, isLoading, isUpdated, markSeen };
+}
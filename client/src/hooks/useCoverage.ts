@@ -0,0 +1,33 @@
+import { useQuery, UseQueryResult } from "@tanstack/react-query";
+import { WeekCoverage } from "@shared/coverage";
+import { queryClient } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
+import { SlotEventHandlers } from "../lib/liveUpdates";
+import { useSlotEvents } from "./useSlotEvents";
+
+// Any booking or cancellation can open or close a gap, so refetch
+const coverageEventHandlers: SlotEventHandlers = {
+  onEvent: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/coverage'], refetchType: 'active' });
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/coverage'], refetchType: 'active' });
+  },
+};
+
+// Get the daily walks each day of a week still needs
+export function useCoverage(startDate: string): UseQueryResult<WeekCoverage> {
+  useSlotEvents(coverageEventHandlers);
+
+  return useQuery({
+    queryKey: ['/api/coverage', startDate],
+    queryFn: async () => {
+      const res = await fetch(apiUrl(`/api/coverage?start=${startDate}`));
+      if (!res.ok) {
+        throw new Error('Failed to fetch coverage');
+      }
+      return res.json();
+    },
+    staleTime: 0,
+  });
+}
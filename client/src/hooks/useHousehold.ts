@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+import { PublicHousehold } from "@shared/schema";
+import { householdSlug } from "../lib/apiUrl";
+
+// The household the app was built for, shown until the server answers
+const DEFAULT_HOUSEHOLD: PublicHousehold = { slug: "finn", petName: "Finn", isDefault: true };
+
+// Get the household whose pages are open, and its pet
+export function useHousehold(): PublicHousehold {
+  const { data } = useQuery<PublicHousehold>({ queryKey: ['/api/household'] });
+  if (data) {
+    return data;
+  }
+  const slug = householdSlug();
+  return slug ? { slug, petName: "", isDefault: false } : DEFAULT_HOUSEHOLD;
+}
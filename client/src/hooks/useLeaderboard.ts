@@ -1,24 +1,121 @@
 import { useQuery } from "@tanstack/react-query";
-import { getQueryFn } from "../lib/queryClient";
+import { SlotEvent, LeaderboardEntry } from "@shared/schema";
+import { getQueryFn, queryClient } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
+import { SlotEventHandlers } from "../lib/liveUpdates";
+import { useSlotEvents } from "./useSlotEvents";
 
-export interface LeaderboardEntry {
-  name: string;
-  totalWalks: number;
-  colorIndex: number;
+export type { LeaderboardEntry };
+
+// Add or remove one walk from a walker's leaderboard count
+function applySlotEvent(
+  entries: LeaderboardEntry[] | undefined,
+  { type, slot, colorIndex }: SlotEvent,
+): LeaderboardEntry[] | undefined {
+  // In-place changes, like a cover request, don't change anyone's count
+  if (!entries || type === "slot_updated" || !slot.walkerId) {
+    return entries;
+  }
+
+  const change = type === "slot_booked" ? 1 : -1;
+  const existing = entries.find((entry) => entry.walkerId === slot.walkerId);
+
+  let updated: LeaderboardEntry[];
+  if (existing) {
+    updated = entries
+      .map((entry) =>
+        entry === existing ? { ...entry, totalWalks: entry.totalWalks + change } : entry,
+      )
+      .filter((entry) => entry.totalWalks > 0);
+  } else if (change > 0) {
+    updated = [...entries, { walkerId: slot.walkerId, name: slot.name, totalWalks: 1, colorIndex }];
+  } else {
+    return entries;
+  }
+
+  return updated.sort((a, b) => b.totalWalks - a.totalWalks);
 }
 
+// Add days to a YYYY-MM-DD string without involving the browser's timezone
+function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+const allTimeEventHandlers: SlotEventHandlers = {
+  onEvent: (event) => {
+    queryClient.setQueryData<LeaderboardEntry[]>(
+      ['/api/leaderboard/all-time'],
+      (entries) => applySlotEvent(entries, event),
+    );
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/all-time'], refetchType: 'active' });
+  },
+};
+
+const nextWeekEventHandlers: SlotEventHandlers = {
+  onEvent: (event) => {
+    // Only count the walk in weeks that include its date
+    const cached = queryClient.getQueriesData<LeaderboardEntry[]>({
+      queryKey: ['/api/leaderboard/next-week'],
+    });
+    for (const [queryKey, entries] of cached) {
+      const startDate = queryKey[1] as string;
+      if (event.slot.date >= startDate && event.slot.date <= addDays(startDate, 6)) {
+        queryClient.setQueryData(queryKey, applySlotEvent(entries, event));
+      }
+    }
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/next-week'], refetchType: 'active' });
+  },
+};
+
+// Completed walks change on check-out, which the booking counts don't track
+const completedEventHandlers: SlotEventHandlers = {
+  onEvent: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/all-time', 'completed'], refetchType: 'active' });
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/all-time', 'completed'], refetchType: 'active' });
+  },
+};
+
 // Hook to fetch the all-time leaderboard
 export function useAllTimeLeaderboard() {
+  useSlotEvents(allTimeEventHandlers);
+
   return useQuery({
     queryKey: ['/api/leaderboard/all-time'],
     queryFn: getQueryFn({ on401: "returnNull" })
   });
 }
 
+// Hook to fetch the all-time leaderboard of walks that were checked out
+export function useCompletedLeaderboard(enabled: boolean) {
+  useSlotEvents(completedEventHandlers);
+
+  return useQuery<LeaderboardEntry[]>({
+    queryKey: ['/api/leaderboard/all-time', 'completed'],
+    queryFn: async () => {
+      const res = await fetch(apiUrl('/api/leaderboard/all-time?completed=true'));
+      if (!res.ok) {
+        throw new Error('Failed to fetch leaderboard');
+      }
+      return res.json();
+    },
+    enabled,
+  });
+}
+
 // Hook to fetch the next 7 days leaderboard
 export function useNextWeekLeaderboard(startDate: string) {
+  useSlotEvents(nextWeekEventHandlers);
+
   return useQuery({
     queryKey: ['/api/leaderboard/next-week', startDate],
     queryFn: getQueryFn({ on401: "returnNull" })
   });
-}
\ No newline at end of file
+}
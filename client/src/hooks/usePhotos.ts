@@ -0,0 +1,98 @@
+import { useQuery, useMutation, UseMutationResult, UseQueryResult } from "@tanstack/react-query";
+import { SlotPhoto, UploadPhoto, Walker } from "@shared/schema";
+import { queryClient } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
+import { SlotEventHandlers } from "../lib/liveUpdates";
+import { useSlotEvents } from "./useSlotEvents";
+
+// Refetch a walk's photos when its walker adds one from another browser
+const photoEventHandlers: SlotEventHandlers = {
+  onEvent: ({ type, slot }) => {
+    if (type === 'slot_updated') {
+      queryClient.invalidateQueries({ queryKey: ['/api/slot/photos', slot.date, slot.time], refetchType: 'active' });
+      queryClient.invalidateQueries({ queryKey: ['/api/walkers/photos', slot.walkerId], refetchType: 'active' });
+    }
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/slot/photos'], refetchType: 'active' });
+    queryClient.invalidateQueries({ queryKey: ['/api/walkers/photos'], refetchType: 'active' });
+  },
+};
+
+// What anyone can see of a walker
+type PublicWalker = Pick<Walker, "id" | "name" | "colorIndex">;
+
+// Fetch a list of photos
+async function fetchPhotos(url: string): Promise<SlotPhoto[]> {
+  const res = await fetch(apiUrl(url));
+  if (!res.ok) {
+    throw new Error('Failed to fetch photos');
+  }
+  return res.json();
+}
+
+// Get the photos from a walk
+export function useSlotPhotos(date: string, time: string): UseQueryResult<SlotPhoto[]> {
+  useSlotEvents(photoEventHandlers);
+
+  return useQuery({
+    queryKey: ['/api/slot/photos', date, time],
+    queryFn: () => fetchPhotos(`/api/slot/${date}/${time}/photos`),
+  });
+}
+
+// Get a walker's public profile
+export function useWalker(id: number): UseQueryResult<PublicWalker> {
+  return useQuery({
+    queryKey: ['/api/walkers', id],
+    queryFn: async () => {
+      const res = await fetch(apiUrl(`/api/walkers/${id}`));
+      if (!res.ok) {
+        throw new Error('Failed to fetch walker');
+      }
+      return res.json();
+    },
+  });
+}
+
+// Get every photo from a walker's walks
+export function useWalkerPhotos(id: number): UseQueryResult<SlotPhoto[]> {
+  useSlotEvents(photoEventHandlers);
+
+  return useQuery({
+    queryKey: ['/api/walkers/photos', id],
+    queryFn: () => fetchPhotos(`/api/walkers/${id}/photos`),
+  });
+}
+
+// Add a photo to a finished walk
+export function useUploadPhoto(): UseMutationResult<
+  SlotPhoto,
+  Error,
+  UploadPhoto & { date: string; time: string; file: File }
+> {
+  return useMutation({
+    mutationFn: async ({ date, time, file, ownerToken, ownerKey }) => {
+      const form = new FormData();
+      form.append("photo", file);
+      if (ownerToken) form.append("ownerToken", ownerToken);
+      if (ownerKey) form.append("ownerKey", ownerKey);
+
+      // Sent as multipart form data, so not through apiRequest's JSON body
+      const res = await fetch(apiUrl(`/api/slot/${date}/${time}/photos`), {
+        method: "POST",
+        body: form,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+      return res.json();
+    },
+    onSuccess: (photo) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/slot/photos', photo.date, photo.time], refetchType: 'active' });
+      queryClient.invalidateQueries({ queryKey: ['/api/walkers/photos', photo.walkerId], refetchType: 'active' });
+    },
+  });
+}
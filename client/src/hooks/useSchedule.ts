@@ -1,14 +1,53 @@
 import { useQuery, useMutation, UseMutationResult, UseQueryResult } from "@tanstack/react-query";
-import { WalkingSlot, WeekSchedule, InsertSlot, DeleteSlot } from "@shared/schema";
+import {
+  BookedSlot,
+  WeekSchedule,
+  InsertSlot,
+  DeleteSlot,
+  InsertSeries,
+  BookedSeries,
+  DeleteSeries,
+  WalkingSlot,
+  CoverRequest,
+  ClaimSlot,
+  WalkCheck,
+} from "@shared/schema";
 import { apiRequest } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
 import { queryClient } from "../lib/queryClient";
+import { SlotEventHandlers } from "../lib/liveUpdates";
+import { useSlotEvents } from "./useSlotEvents";
+
+// Patch every cached week when someone books or cancels a slot
+const scheduleEventHandlers: SlotEventHandlers = {
+  onEvent: ({ type, slot }) => {
+    queryClient.setQueriesData<WeekSchedule>({ queryKey: ['/api/schedule'] }, (schedule) => {
+      if (!schedule || !schedule[slot.date]) {
+        return schedule;
+      }
+
+      const otherSlots = schedule[slot.date].filter((existing) => existing.time !== slot.time);
+      const slots = type === 'slot_cancelled'
+        ? otherSlots
+        : [...otherSlots, slot].sort((a, b) => a.time.localeCompare(b.time));
+
+      return { ...schedule, [slot.date]: slots };
+    });
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/schedule'], refetchType: 'active' });
+  },
+};
 
 // Get the schedule for a week
 export function useSchedule(startDate: string): UseQueryResult<WeekSchedule> {
+  // Show other people's bookings as they happen
+  useSlotEvents(scheduleEventHandlers);
+
   return useQuery({
     queryKey: ['/api/schedule', startDate],
     queryFn: async () => {
-      const res = await fetch(`/api/schedule?start=${startDate}`);
+      const res = await fetch(apiUrl(`/api/schedule?start=${startDate}`));
       if (!res.ok) {
         throw new Error('Failed to fetch schedule');
       }
@@ -22,7 +61,7 @@ export function useSchedule(startDate: string): UseQueryResult<WeekSchedule> {
 }
 
 // Add a new walking slot
-export function useAddSlot(): UseMutationResult<WalkingSlot, Error, InsertSlot> {
+export function useAddSlot(): UseMutationResult<BookedSlot, Error, InsertSlot> {
   return useMutation({
     mutationFn: async (data: InsertSlot) => {
       const response = await apiRequest("POST", "/api/slot", data);
@@ -49,6 +88,11 @@ export function useAddSlot(): UseMutationResult<WalkingSlot, Error, InsertSlot>
         queryKey: ['/api/leaderboard/next-week'],
         refetchType: 'active',
       });
+
+      queryClient.invalidateQueries({
+        queryKey: ['/api/coverage'],
+        refetchType: 'active',
+      });
     },
   });
 }
@@ -80,6 +124,75 @@ export function useDeleteSlot(): UseMutationResult<void, Error, DeleteSlot> {
         queryKey: ['/api/leaderboard/next-week'],
         refetchType: 'active',
       });
+
+      queryClient.invalidateQueries({
+        queryKey: ['/api/coverage'],
+        refetchType: 'active',
+      });
+    },
+  });
+}
+
+// Refresh the schedule, leaderboards and coverage after a booking change
+function invalidateSlotQueries() {
+  queryClient.invalidateQueries({ queryKey: ['/api/schedule'], refetchType: 'active' });
+  queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/all-time'], refetchType: 'active' });
+  queryClient.invalidateQueries({ queryKey: ['/api/leaderboard/next-week'], refetchType: 'active' });
+  queryClient.invalidateQueries({ queryKey: ['/api/coverage'], refetchType: 'active' });
+}
+
+// Book a recurring series of walks
+export function useAddSeries(): UseMutationResult<BookedSeries, Error, InsertSeries> {
+  return useMutation({
+    mutationFn: async (data: InsertSeries) => {
+      const response = await apiRequest("POST", "/api/series", data);
+      return response.json();
+    },
+    onSuccess: invalidateSlotQueries,
+  });
+}
+
+// Cancel the remaining walks of a recurring series
+export function useDeleteSeries(): UseMutationResult<void, Error, { seriesId: number } & DeleteSeries> {
+  return useMutation({
+    mutationFn: async ({ seriesId, ...data }) => {
+      await apiRequest("DELETE", `/api/series/${seriesId}`, data);
+    },
+    onSuccess: invalidateSlotQueries,
+  });
+}
+
+// Ask for someone to cover a walk, or take the request back
+export function useSetCoverRequest(): UseMutationResult<WalkingSlot, Error, CoverRequest & { requested: boolean }> {
+  return useMutation({
+    mutationFn: async ({ requested, ...data }) => {
+      const response = await apiRequest(requested ? "POST" : "DELETE", "/api/slot/cover", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schedule'], refetchType: 'active' });
+    },
+  });
+}
+
+// Take over a walk whose walker asked for cover
+export function useClaimSlot(): UseMutationResult<BookedSlot, Error, ClaimSlot> {
+  return useMutation({
+    mutationFn: async (data: ClaimSlot) => {
+      const response = await apiRequest("POST", "/api/slot/claim", data);
+      return response.json();
+    },
+    onSuccess: invalidateSlotQueries,
+  });
+}
+
+// Check in at the start of a walk, or check out at its end
+export function useWalkCheck(): UseMutationResult<WalkingSlot, Error, WalkCheck & { action: "in" | "out" }> {
+  return useMutation({
+    mutationFn: async ({ action, ...data }) => {
+      const response = await apiRequest("POST", `/api/slot/check-${action}`, data);
+      return response.json();
     },
+    onSuccess: invalidateSlotQueries,
   });
 }
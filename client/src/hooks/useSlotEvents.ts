@@ -0,0 +1,8 @@
+import { useEffect } from "react";
+import { subscribeToSlotEvents, SlotEventHandlers } from "../lib/liveUpdates";
+
+// Apply live slot events while the calling component is mounted
+// Pass a module-level handlers object so every mount shares one subscription
+export function useSlotEvents(handlers: SlotEventHandlers) {
+  useEffect(() => subscribeToSlotEvents(handlers), [handlers]);
+}
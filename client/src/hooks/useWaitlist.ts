@@ -0,0 +1,78 @@
+import { useQuery, useMutation, UseMutationResult, UseQueryResult } from "@tanstack/react-query";
+import { WaitlistEntry, JoinedWaitlist, JoinWaitlist, LeaveWaitlist, DEFAULT_WALK_MINUTES } from "@shared/schema";
+import { TimedWalk } from "@shared/availability";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
+import { SlotEventHandlers } from "../lib/liveUpdates";
+import { useSlotEvents } from "./useSlotEvents";
+
+// A cancellation can hold a walk for someone waiting, and a booking can take them off
+const waitlistEventHandlers: SlotEventHandlers = {
+  onEvent: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/waitlist'], refetchType: 'active' });
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/waitlist'], refetchType: 'active' });
+  },
+};
+
+// Get the waitlists for a week, in the order walkers joined
+export function useWaitlist(startDate: string): UseQueryResult<WaitlistEntry[]> {
+  useSlotEvents(waitlistEventHandlers);
+
+  return useQuery({
+    queryKey: ['/api/waitlist', startDate],
+    queryFn: async () => {
+      const res = await fetch(apiUrl(`/api/waitlist?start=${startDate}`));
+      if (!res.ok) {
+        throw new Error('Failed to fetch waitlist');
+      }
+      return res.json();
+    },
+    staleTime: 0,
+  });
+}
+
+/**
+ * Walks on a date held for other waitlisted walkers, which can't be booked
+ * until the hold lapses
+ * @param entries The week's waitlist entries
+ * @param date The date in YYYY-MM-DD format
+ * @param walkerId Public id of this browser's walker token
+ */
+export function getHeldWalks(entries: WaitlistEntry[], date: string, walkerId: string): TimedWalk[] {
+  const now = Math.floor(Date.now() / 1000);
+  return entries
+    .filter((entry) =>
+      entry.date === date &&
+      entry.heldTime &&
+      (entry.holdExpiresAt || 0) > now &&
+      entry.ownerId !== walkerId,
+    )
+    .map((entry) => ({ date, time: entry.heldTime!, duration: DEFAULT_WALK_MINUTES }));
+}
+
+// Join the waitlist for a full day
+export function useJoinWaitlist(): UseMutationResult<JoinedWaitlist, Error, JoinWaitlist> {
+  return useMutation({
+    mutationFn: async (data: JoinWaitlist) => {
+      const response = await apiRequest("POST", "/api/waitlist", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'], refetchType: 'active' });
+    },
+  });
+}
+
+// Leave a waitlist
+export function useLeaveWaitlist(): UseMutationResult<void, Error, { id: number } & LeaveWaitlist> {
+  return useMutation({
+    mutationFn: async ({ id, ...data }) => {
+      await apiRequest("DELETE", `/api/waitlist/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist'], refetchType: 'active' });
+    },
+  });
+}
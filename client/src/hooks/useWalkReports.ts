@@ -0,0 +1,48 @@
+import { useQuery, useMutation, UseMutationResult, UseQueryResult } from "@tanstack/react-query";
+import { WalkReport, SubmitWalkReport } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { apiUrl } from "../lib/apiUrl";
+import { SlotEventHandlers } from "../lib/liveUpdates";
+import { useSlotEvents } from "./useSlotEvents";
+
+// Another walker filing a report updates their slot, so refetch the week's reports
+const reportEventHandlers: SlotEventHandlers = {
+  onEvent: ({ type }) => {
+    if (type === 'slot_updated') {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'], refetchType: 'active' });
+    }
+  },
+  onReconnect: () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/reports'], refetchType: 'active' });
+  },
+};
+
+// Get the walk reports for a week
+export function useWalkReports(startDate: string): UseQueryResult<WalkReport[]> {
+  useSlotEvents(reportEventHandlers);
+
+  return useQuery({
+    queryKey: ['/api/reports', startDate],
+    queryFn: async () => {
+      const res = await fetch(apiUrl(`/api/reports?start=${startDate}`));
+      if (!res.ok) {
+        throw new Error('Failed to fetch walk reports');
+      }
+      return res.json();
+    },
+    staleTime: 0,
+  });
+}
+
+// File or update the report for a finished walk
+export function useSubmitWalkReport(): UseMutationResult<WalkReport, Error, SubmitWalkReport> {
+  return useMutation({
+    mutationFn: async (data: SubmitWalkReport) => {
+      const response = await apiRequest("POST", "/api/slot/report", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports'], refetchType: 'active' });
+    },
+  });
+}
@@ -0,0 +1,21 @@
+// API paths for the household whose pages are open. Kept out of queryClient
+// so utils, which the server imports too, doesn't load react-query.
+
+// Pages for a household other than the default live under /h/<slug>
+const HOUSEHOLD_PATH = /^\/h\/([^/]+)/;
+
+// The slug of the household whose pages are open, or null for the default household
+export function householdSlug(): string | null {
+  const match = window.location.pathname.match(HOUSEHOLD_PATH);
+  return match ? match[1] : null;
+}
+
+/**
+ * Point an API path at the household whose pages are open
+ * @param path A path under /api, like "/api/schedule"
+ * @returns The path under /api/h/<slug> on a household's pages, otherwise unchanged
+ */
+export function apiUrl(path: string): string {
+  const slug = householdSlug();
+  return slug ? path.replace(/^\/api\//, `/api/h/${slug}/`) : path;
+}
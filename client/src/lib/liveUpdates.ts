@@ -0,0 +1,86 @@
+import { SlotEvent } from "@shared/schema";
+import { apiUrl } from "./apiUrl";
+
+// What a query hook does with live updates
+export interface SlotEventHandlers {
+  onEvent: (event: SlotEvent) => void;
+  // Called after the connection drops and comes back, since events may have been missed
+  onReconnect: () => void;
+}
+
+// Give up on the browser's own retry after this long and start over
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// Handlers are counted so the same hook mounted twice only applies each event once
+const subscribers = new Map<SlotEventHandlers, number>();
+
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = 1000;
+let hasConnected = false;
+
+function connect() {
+  source = new EventSource(apiUrl("/api/events"));
+
+  source.onopen = () => {
+    reconnectDelay = 1000;
+    if (hasConnected) {
+      subscribers.forEach((_, handlers) => handlers.onReconnect());
+    }
+    hasConnected = true;
+  };
+
+  source.addEventListener("slot", (message) => {
+    const event: SlotEvent = JSON.parse((message as MessageEvent).data);
+    subscribers.forEach((_, handlers) => handlers.onEvent(event));
+  });
+
+  source.onerror = () => {
+    // EventSource retries dropped connections itself, but stops for good
+    // once closed (e.g. the server answered with an error during a deploy)
+    if (source?.readyState !== EventSource.CLOSED) {
+      return;
+    }
+    source = null;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+}
+
+function disconnect() {
+  source?.close();
+  source = null;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  hasConnected = false;
+}
+
+/**
+ * Listen for live slot booked/cancelled events. One connection is shared by
+ * every subscriber and closed when the last one unsubscribes.
+ * @param handlers What to do with each event, and after reconnecting
+ * @returns A function that unsubscribes
+ */
+export function subscribeToSlotEvents(handlers: SlotEventHandlers): () => void {
+  subscribers.set(handlers, (subscribers.get(handlers) || 0) + 1);
+  if (!source && !reconnectTimer) {
+    connect();
+  }
+
+  return () => {
+    const count = (subscribers.get(handlers) || 1) - 1;
+    if (count > 0) {
+      subscribers.set(handlers, count);
+    } else {
+      subscribers.delete(handlers);
+    }
+    if (subscribers.size === 0) {
+      disconnect();
+    }
+  };
+}
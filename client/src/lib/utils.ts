@@ -1,5 +1,7 @@
 import { ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { getEndTime } from "@shared/availability";
+import { apiUrl } from "./apiUrl";
 
 // Combine class names
 export function cn(...inputs: ClassValue[]) {
@@ -24,10 +26,18 @@ export function formatTime(timeStr: string): string {
   return `${hour12}:${minute} ${period}`;
 }
 
-// Format time display for walks (just start time)
-export function formatTimeRange(timeStr: string): string {
-  // Just show the start time without a range
-  return formatTime(timeStr);
+// Format a walk's start and end time, e.g. "9:00 AM – 10:30 AM"
+export function formatTimeRange(timeStr: string, duration: number): string {
+  return `${formatTime(timeStr)} – ${formatTime(getEndTime(timeStr, duration))}`;
+}
+
+// Format a walk length, e.g. "45 min" or "1.5 hours"
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = minutes / 60;
+  return `${hours} ${hours === 1 ? "hour" : "hours"}`;
 }
 
 /**
@@ -55,6 +65,19 @@ export function getCurrentDateET(): string {
   return toDateString(new Date());
 }
 
+/**
+ * Get the current time in ET timezone as an HHMM string
+ */
+export function getCurrentTimeET(): string {
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: 'America/New_York' // Eastern Time
+  }).format(new Date());
+  return formatted.replace(':', '');
+}
+
 /**
  * Generate a Date object from a YYYY-MM-DD string
  * This will create a date at midnight in the local timezone
@@ -85,6 +108,16 @@ export function formatDateShort(dateStr: string): string {
   });
 }
 
+// Format a timestamp (seconds) as a date and time in the browser's clock
+export function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
 // Generate a range of dates
 export function generateDateRange(startDate: Date, days: number): string[] {
   const dates: string[] = [];
@@ -99,37 +132,14 @@ export function generateDateRange(startDate: Date, days: number): string[] {
   return dates;
 }
 
-// Get available times (8:00 AM to 8:00 PM in 30-minute increments)
-export function getAvailableTimes(bookedSlots: string[] = []): { value: string; label: string }[] {
-  const times: { value: string; label: string }[] = [];
-  
-  // 8:00 AM (08:00) to 8:00 PM (20:00)
-  for (let hour = 8; hour <= 20; hour++) {
-    // Full hour (XX:00)
-    const hourStr = hour.toString().padStart(2, "0");
-    const fullHourValue = `${hourStr}00`;
-    
-    if (!bookedSlots.includes(fullHourValue)) {
-      times.push({
-        value: fullHourValue,
-        label: formatTime(fullHourValue),
-      });
-    }
-    
-    // Half hour (XX:30) - except for 8:30 PM
-    if (hour < 20) {
-      const halfHourValue = `${hourStr}30`;
-      
-      if (!bookedSlots.includes(halfHourValue)) {
-        times.push({
-          value: halfHourValue,
-          label: formatTime(halfHourValue),
-        });
-      }
-    }
-  }
-  
-  return times;
+// Get the times on a day that aren't booked yet, labelled for display
+export function getAvailableTimes(
+  dayTimes: string[],
+  bookedSlots: string[] = [],
+): { value: string; label: string }[] {
+  return dayTimes
+    .filter((time) => !bookedSlots.includes(time))
+    .map((time) => ({ value: time, label: formatTime(time) }));
 }
 
 // Cache of walker color indices to minimize API requests
@@ -147,7 +157,7 @@ export async function getWalkerColorIndex(name: string): Promise<number> {
 
   try {
     // Fetch the color index from the server
-    const response = await fetch(`/api/walker-color/${encodeURIComponent(name)}`);
+    const response = await fetch(apiUrl(`/api/walker-color/${encodeURIComponent(name)}`));
     
     if (!response.ok) {
       console.error('Failed to get walker color index:', await response.text());
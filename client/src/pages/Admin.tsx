@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AdminWalkers from '../components/AdminWalkers';
+import AdminSlots from '../components/AdminSlots';
+import AdminDeliveryLog from '../components/AdminDeliveryLog';
+import AdminBroadcast from '../components/AdminBroadcast';
+import AdminBackup from '../components/AdminBackup';
+import AdminCareInstructions from '../components/AdminCareInstructions';
+import { useOwnerKey, verifyOwnerKey } from '../hooks/useAdmin';
+import { queryClient } from '../lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+const Admin: React.FC = () => {
+  // The owner key doubles as the admin password and is kept in local storage
+  const [ownerKey, setOwnerKey] = useOwnerKey();
+  const [password, setPassword] = useState<string>('');
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const { toast } = useToast();
+
+  // A key the server turns away, such as one changed since, goes back to the login form
+  useEffect(() => {
+    const logOutIfUnauthorized = (error: Error | null) => {
+      if (error?.message?.startsWith("401")) {
+        setOwnerKey('');
+      }
+    };
+    const stopQueries = queryClient.getQueryCache().subscribe((event) => {
+      if (event.type === 'updated' && event.action.type === 'error') {
+        logOutIfUnauthorized(event.action.error);
+      }
+    });
+    const stopMutations = queryClient.getMutationCache().subscribe((event) => {
+      if (event.type === 'updated' && event.action.type === 'error') {
+        logOutIfUnauthorized(event.action.error);
+      }
+    });
+    return () => {
+      stopQueries();
+      stopMutations();
+    };
+  }, [ownerKey]);
+
+  const handleLogin = async () => {
+    try {
+      setIsVerifying(true);
+      await verifyOwnerKey(password);
+      setOwnerKey(password);
+      setPassword('');
+    } catch (error) {
+      // 429 means too many wrong passwords from this address
+      const limited = (error as Error).message?.startsWith("429");
+      toast({
+        title: "Error",
+        description: limited ? "Too many failed logins. Try again later." : "Incorrect password",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!ownerKey) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-sm mx-4">
+          <CardHeader>
+            <CardTitle>Owner Admin</CardTitle>
+            <CardDescription>Enter the owner password to continue</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => { e.preventDefault(); handleLogin(); }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="admin-password">Password</Label>
+                <Input
+                  id="admin-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={!password || isVerifying}>
+                {isVerifying ? "Checking..." : "Log in"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-800">Owner Admin</h1>
+          <div className="flex items-center gap-2">
+            <Link href="/" className="text-sm text-finn-primary hover:underline">
+              Back to schedule
+            </Link>
+            <Button variant="outline" size="sm" onClick={() => setOwnerKey('')}>
+              Log out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-6">
+        <Tabs defaultValue="walkers">
+          <TabsList className="grid w-full grid-cols-6 mb-4">
+            <TabsTrigger value="walkers">Walkers</TabsTrigger>
+            <TabsTrigger value="slots">Slots</TabsTrigger>
+            <TabsTrigger value="care">Care</TabsTrigger>
+            <TabsTrigger value="broadcast">Broadcast</TabsTrigger>
+            <TabsTrigger value="notifications">Notifications</TabsTrigger>
+            <TabsTrigger value="backup">Backup</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="walkers">
+            <AdminWalkers ownerKey={ownerKey} />
+          </TabsContent>
+
+          <TabsContent value="slots" className="mx-auto max-w-md">
+            <AdminSlots ownerKey={ownerKey} />
+          </TabsContent>
+
+          <TabsContent value="care" className="mx-auto max-w-md">
+            <AdminCareInstructions ownerKey={ownerKey} />
+          </TabsContent>
+
+          <TabsContent value="broadcast" className="mx-auto max-w-md">
+            <AdminBroadcast ownerKey={ownerKey} />
+          </TabsContent>
+
+          <TabsContent value="notifications">
+            <AdminDeliveryLog ownerKey={ownerKey} />
+          </TabsContent>
+
+          <TabsContent value="backup" className="mx-auto max-w-md">
+            <AdminBackup ownerKey={ownerKey} />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
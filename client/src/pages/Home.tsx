@@ -6,6 +6,7 @@ import InfoModal from '../components/InfoModal';
 import Leaderboard from '../components/Leaderboard';
 import { useSchedule } from '../hooks/useSchedule';
 import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useCareInstructions } from '../hooks/useCareInstructions';
 import { 
   formatDateShort, 
   getCurrentDateET, 
@@ -19,12 +20,27 @@ const Home: React.FC = () => {
   // User info from local storage - will be set/updated in the booking modal now
   const [userName, setUserName] = useLocalStorage<string>('userName', '');
   const [userPhone, setUserPhone] = useLocalStorage<string>('userPhone', '');
+  // Secret walker token issued on first booking, and the public owner id derived from it
+  const [walkerToken, setWalkerToken] = useLocalStorage<string>('walkerToken', '');
+  const [walkerId, setWalkerId] = useLocalStorage<string>('walkerId', '');
   
   // Info modal state
   const [showInfoModal, setShowInfoModal] = useState<boolean>(false);
+  const { instructions, isUpdated, markSeen } = useCareInstructions();
   
-  // Initialize with the current date in ET timezone as a string
-  const [currentStartDateStr, setCurrentStartDateStr] = useState<string>(getCurrentDateET());
+  // Booking links texted to walkers (/?date=YYYY-MM-DD&time=HHMM) open that slot
+  const [linkedBooking] = useState(() => {
+    const params = new URLSearchParams(window.location.search);
+    const date = params.get('date');
+    return date && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? { date, time: params.get('time') || '' }
+      : null;
+  });
+  
+  // Initialize with the linked date or the current date in ET timezone as a string
+  const [currentStartDateStr, setCurrentStartDateStr] = useState<string>(
+    linkedBooking?.date || getCurrentDateET()
+  );
   const { toast } = useToast();
   
   // Check if mobile device for responsive layout
@@ -82,6 +98,7 @@ const Home: React.FC = () => {
         onNextWeek={goToNextWeek}
         onToday={goToToday}
         onInfoClick={() => setShowInfoModal(true)}
+        hasCareUpdate={isUpdated}
       />
       
       <main className="flex-grow container mx-auto px-4 py-6">
@@ -103,10 +120,18 @@ const Home: React.FC = () => {
             ) : schedule ? (
               <Schedule 
                 schedule={schedule} 
+                startDate={currentStartDateStr}
+                linkedBooking={linkedBooking}
                 userName={userName} 
                 onUpdateUserName={setUserName}
                 userPhone={userPhone}
                 onUpdateUserPhone={setUserPhone}
+                walkerToken={walkerToken}
+                walkerId={walkerId}
+                onUpdateWalkerIdentity={(token, id) => {
+                  setWalkerToken(token);
+                  setWalkerId(id);
+                }}
               />
             ) : (
               <div className="text-center py-12">
@@ -127,7 +152,12 @@ const Home: React.FC = () => {
       {/* Modals */}
       <InfoModal 
         isOpen={showInfoModal} 
-        onClose={() => setShowInfoModal(false)} 
+        onClose={() => {
+          markSeen();
+          setShowInfoModal(false);
+        }} 
+        instructions={instructions}
+        isUpdated={isUpdated}
       />
     </div>
   );
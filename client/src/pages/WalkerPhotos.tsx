@@ -0,0 +1,58 @@
+import React from 'react';
+import { Link, useParams } from 'wouter';
+import { SlotPhoto } from '@shared/schema';
+import { PhotoThumbnails } from '../components/PhotoStrip';
+import { useWalker, useWalkerPhotos } from '../hooks/usePhotos';
+import { formatDate, formatTime } from '../lib/utils';
+
+// Group photos by walk, newest walk first
+function groupByWalk(photos: SlotPhoto[]): SlotPhoto[][] {
+  const walks = new Map<string, SlotPhoto[]>();
+  for (const photo of photos) {
+    const key = `${photo.date} ${photo.time}`;
+    walks.set(key, [...(walks.get(key) || []), photo]);
+  }
+  return Array.from(walks.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([, walkPhotos]) => walkPhotos);
+}
+
+// Every photo of the pet from one walker's walks
+const WalkerPhotos: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const { data: walker } = useWalker(Number(id));
+  const { data: photos = [], isLoading } = useWalkerPhotos(Number(id));
+  const name = walker?.name ?? 'a walker';
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-gray-800">Walks with {name}</h1>
+          <Link href="/" className="text-sm text-finn-primary hover:underline">
+            Back to schedule
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <p className="text-gray-500">Loading photos...</p>
+        ) : photos.length === 0 ? (
+          <p className="text-gray-500">No photos from {name}'s walks yet</p>
+        ) : (
+          groupByWalk(photos).map((walkPhotos) => (
+            <section key={`${walkPhotos[0].date}-${walkPhotos[0].time}`}>
+              <h2 className="text-gray-700 font-medium mb-2">
+                {formatDate(walkPhotos[0].date)}, {formatTime(walkPhotos[0].time)}
+              </h2>
+              <PhotoThumbnails photos={walkPhotos} className="flex flex-wrap gap-2" />
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default WalkerPhotos;
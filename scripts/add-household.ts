@@ -0,0 +1,46 @@
+// Add a household sharing this deployment, e.g.
+//   npm run add-household -- --slug maple --pet Maple --sms-from +15550001111
+import { parseArgs } from "util";
+import { ZodError } from "zod";
+import { createHousehold, HouseholdError } from "../server/households";
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      slug: { type: "string" },
+      pet: { type: "string" },
+      photo: { type: "string" },
+      care: { type: "string" },
+      "sms-from": { type: "string" },
+      // JSON array like NOTIFY_RECIPIENTS
+      recipients: { type: "string" },
+    },
+  });
+
+  if (!values.slug || !values.pet) {
+    console.error(`Usage: npm run add-household -- --slug <slug> --pet <name> [--photo <url>] [--care <text>] [--sms-from <number>] [--recipients <json>]`);
+    process.exit(2);
+  }
+
+  const { household, ownerKey } = await createHousehold({
+    slug: values.slug,
+    petName: values.pet,
+    petPhotoUrl: values.photo,
+    careInstructions: values.care,
+    smsFrom: values["sms-from"],
+    notifyRecipients: values.recipients ? JSON.parse(values.recipients) : undefined,
+  });
+
+  console.log(`Added ${household.petName}'s household at /h/${household.slug}`);
+  console.log(`Owner key (shown once, keep it safe): ${ownerKey}`);
+  process.exit(0);
+})().catch((error) => {
+  if (error instanceof ZodError) {
+    console.error("Invalid household:", error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+  } else if (error instanceof HouseholdError) {
+    console.error(error.message);
+  } else {
+    console.error("Adding the household failed:", error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+// Copy walkers and slots between storage backends, e.g.
+//   npm run migrate-storage -- --from replit --to postgres --dry-run
+import { parseArgs } from "util";
+import { createStorage } from "../server/storage";
+import { copyStorage } from "../server/storageMigration";
+
+const BACKENDS = ["memory", "postgres", "replit"];
+
+(async () => {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+
+  const { from, to } = values;
+  if (!from || !to || !BACKENDS.includes(from) || !BACKENDS.includes(to) || from === to) {
+    console.error(`Usage: npm run migrate-storage -- --from <backend> --to <backend> [--dry-run]`);
+    console.error(`Backends: ${BACKENDS.join(", ")}`);
+    process.exit(2);
+  }
+
+  const dryRun = !!values["dry-run"];
+  const report = await copyStorage(createStorage(from), createStorage(to), dryRun);
+
+  const verb = dryRun ? "Would copy" : "Copied";
+  console.log(`${verb} ${report.walkersCopied} walkers and ${report.slotsCopied} slots from ${from} to ${to}`);
+  console.log(`Already there: ${report.walkersSkipped} walkers and ${report.slotsSkipped} slots`);
+  if (report.conflicts.length > 0) {
+    console.log(`${report.conflicts.length} conflicts, left as they are in ${to}:`);
+    for (const conflict of report.conflicts) {
+      console.log(`  ${conflict}`);
+    }
+  }
+  process.exit(report.conflicts.length > 0 ? 1 : 0);
+})().catch((error) => {
+  console.error("Storage migration failed:", error);
+  process.exit(1);
+});
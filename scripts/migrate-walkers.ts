@@ -0,0 +1,17 @@
+// Merge walkers from walker_colors and their slots into the walkers table.
+// Run `npm run db:push` first so the table and walker_id columns exist.
+import { mergeWalkersByName } from "../server/walkerMigration";
+
+(async () => {
+  const report = await mergeWalkersByName();
+
+  console.log(`Created ${report.walkersCreated} walkers`);
+  for (const { name, from } of report.merged) {
+    console.log(`  ${name} <- ${from.map((spelling) => JSON.stringify(spelling)).join(", ")}`);
+  }
+  console.log(`Linked ${report.slotsLinked} slots and ${report.photosLinked} photos`);
+  process.exit(0);
+})().catch((error) => {
+  console.error("Walker migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import twilio from "twilio";
+import type { Request, Response, NextFunction } from "express";
+import { currentHousehold } from "./householdContext";
+
+/**
+ * Issue a new secret walker token for a browser that has none yet
+ * @returns A random hex token
+ */
+export function issueWalkerToken(): string {
+  return crypto.randomBytes(24).toString("hex");
+}
+
+/**
+ * Derive the public owner id stored on a slot from a walker token
+ * @param token The secret walker token
+ * @returns The SHA-256 hex digest of the token
+ */
+export function getOwnerId(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Compare two strings without leaking their contents through timing
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Hash a household's owner key for storage
+ * @param key The owner key
+ * @returns The SHA-256 hex digest of the key
+ */
+export function hashOwnerKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Check whether a key is the current household's owner key: OWNER_KEY for
+ * the default household, or the key issued when any other was added
+ * @param key The key supplied by the client
+ * @returns True if the key is valid, false if it is wrong or no key is configured
+ */
+export function isOwnerKey(key?: string): boolean {
+  const { ownerKeyHash } = currentHousehold();
+  if (ownerKeyHash) {
+    return !!key && safeEqual(hashOwnerKey(key), ownerKeyHash);
+  }
+
+  const ownerKey = process.env.OWNER_KEY;
+  if (!ownerKey || !key) {
+    return false;
+  }
+  return safeEqual(key, ownerKey);
+}
+
+// Wrong owner keys an address may send before it has to wait
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+// Recent wrong owner keys by client address
+const loginFailures = new Map<string, { count: number; firstAt: number }>();
+
+// Forget failures older than the lockout, so the map doesn't grow forever
+function pruneLoginFailures(now: number): void {
+  loginFailures.forEach((failures, address) => {
+    if (now - failures.firstAt >= LOGIN_LOCKOUT_MS) {
+      loginFailures.delete(address);
+    }
+  });
+}
+
+/**
+ * How long an address must wait before trying the owner key again
+ * @param address The client's IP address
+ * @param now The current time in milliseconds
+ * @returns Seconds to wait, or 0 if it may try now
+ */
+export function getLoginRetryAfter(address: string, now = Date.now()): number {
+  const failures = loginFailures.get(address);
+  if (!failures || now - failures.firstAt >= LOGIN_LOCKOUT_MS) {
+    loginFailures.delete(address);
+    return 0;
+  }
+  if (failures.count < MAX_LOGIN_FAILURES) {
+    return 0;
+  }
+  return Math.ceil((failures.firstAt + LOGIN_LOCKOUT_MS - now) / 1000);
+}
+
+/**
+ * Count a login attempt towards its address's limit. A successful login
+ * clears the address's failures.
+ * @param address The client's IP address
+ * @param success Whether the owner key was right
+ * @param now The current time in milliseconds
+ */
+export function recordLoginAttempt(address: string, success: boolean, now = Date.now()): void {
+  if (success) {
+    loginFailures.delete(address);
+    return;
+  }
+
+  const failures = loginFailures.get(address);
+  if (!failures || now - failures.firstAt >= LOGIN_LOCKOUT_MS) {
+    pruneLoginFailures(now);
+    loginFailures.set(address, { count: 1, firstAt: now });
+  } else {
+    failures.count++;
+  }
+}
+
+// The address a request came from, which the owner key limit applies to
+function clientAddress(req: Request): string {
+  return req.ip || "unknown";
+}
+
+/**
+ * Check an owner key sent with a request. Wrong keys count towards the
+ * client address's limit, and once it's reached every key is refused until
+ * the lockout ends, so no route can be used to keep guessing.
+ * @param req The request, for its client address
+ * @param key The key supplied; leaving it out doesn't count as a guess
+ * @param now The current time in milliseconds
+ * @returns True if the key is right and the address isn't locked out
+ */
+export function checkOwnerKey(req: Request, key?: string, now = Date.now()): boolean {
+  if (!key) {
+    return false;
+  }
+
+  const address = clientAddress(req);
+  if (getLoginRetryAfter(address, now) > 0) {
+    return false;
+  }
+
+  const valid = isOwnerKey(key);
+  recordLoginAttempt(address, valid, now);
+  return valid;
+}
+
+/**
+ * Answer 429 if the request's address sent too many wrong owner keys
+ * @returns True if the response was sent
+ */
+export function rejectLockedOut(req: Request, res: Response): boolean {
+  const retryAfter = getLoginRetryAfter(clientAddress(req));
+  if (retryAfter <= 0) {
+    return false;
+  }
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({ error: "Too many failed logins. Try again later." });
+  return true;
+}
+
+/**
+ * Check whether a walker token proves ownership of a slot
+ * @param ownerId The owner id stored on the slot
+ * @param token The walker token supplied by the client
+ * @returns True if the token was the one used to book the slot
+ */
+export function isSlotOwner(ownerId?: string, token?: string): boolean {
+  if (!ownerId || !token) {
+    return false;
+  }
+  return safeEqual(getOwnerId(token), ownerId);
+}
+
+/**
+ * Express middleware that only lets owners through. The owner key is sent
+ * in the X-Owner-Key header by the admin console, and wrong keys count
+ * towards the same limit as logins.
+ */
+export function requireOwner(req: Request, res: Response, next: NextFunction) {
+  if (rejectLockedOut(req, res)) {
+    return;
+  }
+  if (!checkOwnerKey(req, req.get("x-owner-key"))) {
+    return res.status(401).json({ error: "Owner authentication required" });
+  }
+  next();
+}
+
+/**
+ * Get the URL the app is reached at, from PUBLIC_BASE_URL when set since the
+ * app usually runs behind a proxy that changes the protocol and host
+ * @param req The current request, used when PUBLIC_BASE_URL isn't set
+ * @returns The base URL without a trailing slash
+ */
+export function getPublicBaseUrl(req: Request): string {
+  return process.env.PUBLIC_BASE_URL?.replace(/\/$/, "") || `${req.protocol}://${req.get("host")}`;
+}
+
+/**
+ * Express middleware that rejects webhooks not signed by Twilio. The signed
+ * URL is rebuilt from the public base URL.
+ */
+export function requireTwilioSignature(req: Request, res: Response, next: NextFunction) {
+  const authToken = process.env.TWILIO_TOKEN;
+  const signature = req.get("x-twilio-signature");
+  if (!authToken || !signature) {
+    return res.status(403).json({ error: "Invalid Twilio signature" });
+  }
+
+  if (!twilio.validateRequest(authToken, signature, getPublicBaseUrl(req) + req.originalUrl, req.body || {})) {
+    return res.status(403).json({ error: "Invalid Twilio signature" });
+  }
+  next();
+}
@@ -0,0 +1,42 @@
+import {
+  Availability,
+  availabilityConfigSchema,
+  resolveAvailability,
+} from "@shared/availability";
+
+// The walking window worked out from AVAILABILITY, and the value it came
+// from, so a bad value is only logged once rather than on every booking
+let parsed: { configured?: string; availability: Availability } | null = null;
+
+/**
+ * Get the bookable walking window from the AVAILABILITY environment variable,
+ * a JSON object such as:
+ *
+ *   {
+ *     "default": { "start": "0800", "end": "2000", "interval": 30 },
+ *     "weekdays": { "0": { "start": "1000", "end": "1600", "interval": 60 }, "3": null },
+ *     "blackoutDates": ["2026-12-25"]
+ *   }
+ *
+ * Every field is optional; without it walks run 8:00 AM to 8:00 PM every
+ * 30 minutes. An invalid value is logged and the default used instead.
+ * The result is worked out once and reused until the variable changes.
+ */
+export function getAvailability(): Availability {
+  const configured = process.env.AVAILABILITY;
+  if (parsed && parsed.configured === configured) {
+    return parsed.availability;
+  }
+
+  let config = availabilityConfigSchema.parse({});
+  if (configured) {
+    try {
+      config = availabilityConfigSchema.parse(JSON.parse(configured));
+    } catch (error) {
+      console.error("Invalid AVAILABILITY, using the default walking window:", error);
+    }
+  }
+
+  parsed = { configured, availability: resolveAvailability(config) };
+  return parsed.availability;
+}
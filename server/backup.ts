@@ -0,0 +1,361 @@
+import { ZodError, ZodSchema } from "zod";
+import {
+  Backup,
+  ExportTable,
+  ImportMode,
+  ImportResult,
+  ImportRowError,
+  ImportSlot,
+  ImportWalker,
+  DeliveryRecord,
+  Walker,
+  WalkingSlot,
+  DEFAULT_WALK_MINUTES,
+  importSlotSchema,
+  importWalkerSchema,
+} from "@shared/schema";
+import { storage, normalizeWalkerName } from "./storage";
+import { getDeliveryLog, maskAddress } from "./notifications";
+import { toCsv, parseCsv } from "./csv";
+import { addDays } from "./dates";
+import { findOverlap, TimedWalk } from "@shared/availability";
+import { formatTime } from "../client/src/lib/utils";
+
+// Date range covering every walk
+const FIRST_DATE = "0000-01-01";
+const LAST_DATE = "9999-12-31";
+
+// Most delivery records included in an export
+const MAX_EXPORTED_DELIVERIES = 10000;
+
+// CSV columns of each exported table
+const SLOT_COLUMNS: Array<keyof ImportSlot> = [
+  "date", "time", "duration", "name", "phone", "notes", "timestamp", "checkedInAt", "checkedOutAt",
+];
+const WALKER_COLUMNS: Array<keyof ImportWalker> = ["name", "colorIndex", "phone", "broadcastOptOut"];
+const DELIVERY_COLUMNS: Array<keyof DeliveryRecord> = [
+  "sentAt", "channel", "recipient", "messageType", "slotDate", "slotTime", "suppressedReason", "messageContent",
+];
+
+// CSV cells that hold numbers or true/false, converted back on import
+const NUMBER_COLUMNS = new Set(["duration", "timestamp", "checkedInAt", "checkedOutAt", "colorIndex"]);
+const BOOLEAN_COLUMNS = new Set(["broadcastOptOut"]);
+
+// A backup file that can't be read at all, with the HTTP status to report
+export class ImportError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+/**
+ * Gather the full walk history for a backup
+ * @param includeDeliveries True to add the delivery log, with addresses masked
+ */
+export async function buildBackup(includeDeliveries: boolean): Promise<Backup> {
+  const slots = await storage.getSlotsBetween(FIRST_DATE, LAST_DATE);
+  const walkers = await storage.getAllWalkers();
+
+  const backup: Backup = {
+    exportedAt: new Date().toISOString(),
+    slots: slots.map(({ date, time, duration, name, phone, notes, timestamp, checkedInAt, checkedOutAt }) => ({
+      date, time, duration, name, phone, notes, timestamp, checkedInAt, checkedOutAt,
+    })),
+    walkers: walkers.map(({ name, colorIndex, phone, broadcastOptOut }) => ({
+      name, colorIndex, phone, broadcastOptOut: !!broadcastOptOut,
+    })),
+  };
+
+  if (includeDeliveries) {
+    const deliveries = await getDeliveryLog({}, MAX_EXPORTED_DELIVERIES);
+    backup.deliveries = deliveries.map((record) => ({ ...record, recipient: maskAddress(record.recipient) }));
+  }
+  return backup;
+}
+
+/**
+ * Write one table of a backup as CSV, for spreadsheets
+ * @param backup The backup
+ * @param table Which table to write
+ */
+export function backupToCsv(backup: Backup, table: ExportTable): string {
+  switch (table) {
+    case "slots":
+      return toCsv(SLOT_COLUMNS, backup.slots);
+    case "walkers":
+      return toCsv(WALKER_COLUMNS, backup.walkers);
+    case "deliveries":
+      return toCsv(
+        DELIVERY_COLUMNS,
+        (backup.deliveries || []).map((record) => ({ ...record, sentAt: record.sentAt.toISOString() })),
+      );
+  }
+}
+
+// Turn CSV cells back into the numbers and booleans the schemas expect
+function fromCsvRow(row: Record<string, string>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (NUMBER_COLUMNS.has(column)) {
+      values[column] = Number(value);
+    } else if (BOOLEAN_COLUMNS.has(column)) {
+      values[column] = value.trim().toLowerCase() === "true";
+    } else {
+      values[column] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Read an uploaded backup: a JSON export, or a CSV export of the slots or
+ * walkers table (told apart by its columns)
+ * @param text The file's contents
+ * @returns The unvalidated rows of each table
+ * @throws ImportError with status 400 if the file isn't a backup
+ */
+export function parseBackup(text: string): { slots: unknown[]; walkers: unknown[] } {
+  if (text.trimStart().startsWith("{")) {
+    let data: Partial<Backup>;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new ImportError("That file isn't valid JSON", 400);
+    }
+    if (!Array.isArray(data.slots) && !Array.isArray(data.walkers)) {
+      throw new ImportError("The backup has no slots or walkers", 400);
+    }
+    return { slots: data.slots || [], walkers: data.walkers || [] };
+  }
+
+  const rows = parseCsv(text).map(fromCsvRow);
+  const columns = new Set(rows.flatMap((row) => Object.keys(row)));
+  if (columns.has("date") && columns.has("time")) {
+    return { slots: rows, walkers: [] };
+  }
+  if (columns.has("colorIndex")) {
+    return { slots: [], walkers: rows };
+  }
+  throw new ImportError("The file isn't a JSON backup or a CSV of slots or walkers", 400);
+}
+
+// Validate each row, keeping the valid ones and an error for each of the rest
+function validateRows<T>(
+  table: ImportRowError["table"],
+  rows: unknown[],
+  schema: ZodSchema<T>,
+  errors: ImportRowError[],
+): Array<{ row: number; value: T }> {
+  const valid: Array<{ row: number; value: T }> = [];
+  rows.forEach((data, index) => {
+    try {
+      valid.push({ row: index + 1, value: schema.parse(data) });
+    } catch (error) {
+      if (!(error instanceof ZodError)) {
+        throw error;
+      }
+      const message = error.errors
+        .map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+        .join("; ");
+      errors.push({ table, row: index + 1, message });
+    }
+  });
+  return valid;
+}
+
+// Book a slot from a backup or from before a failed replace, keeping its times
+async function writeSlot(slot: ImportSlot, options: { ownerId?: string; seriesId?: number } = {}): Promise<void> {
+  const { timestamp, checkedInAt, checkedOutAt, ...slotData } = slot;
+  await storage.addSlot(slotData, { ...options, timestamp });
+  if (checkedInAt) {
+    await storage.checkInSlot(slot.date, slot.time, checkedInAt);
+  }
+  if (checkedOutAt) {
+    await storage.checkOutSlot(slot.date, slot.time, checkedOutAt);
+  }
+}
+
+// Put back the slots a replace removed, after a write failed partway
+async function restoreSlots(removed: WalkingSlot[]): Promise<void> {
+  for (const slot of await storage.getSlotsBetween(FIRST_DATE, LAST_DATE)) {
+    await storage.removeSlot(slot.date, slot.time);
+  }
+  for (const { walkerId, ownerId, seriesId, coverRequestedAt, ...slot } of removed) {
+    await writeSlot(slot, { ownerId, seriesId });
+    if (coverRequestedAt) {
+      await storage.setCoverRequest(slot.date, slot.time, true);
+    }
+  }
+}
+
+// Put back the walkers' colors and phones from before a replace that failed
+// partway. Walkers the backup added are kept, without any walks.
+async function restoreWalkers(previous: Walker[]): Promise<void> {
+  for (const walker of previous) {
+    await storage.updateWalkerDetails(walker.id, {
+      colorIndex: walker.colorIndex,
+      phone: walker.phone ?? "",
+      broadcastOptOut: !!walker.broadcastOptOut,
+    });
+    if (walker.phone && walker.phoneVerified) {
+      await storage.verifyWalkerPhone(walker.id, walker.phone);
+    }
+  }
+}
+
+// Add the backup's walkers, counting what was added and skipped into the result
+async function importWalkers(
+  walkers: Array<{ row: number; value: ImportWalker }>,
+  mode: ImportMode,
+  dryRun: boolean,
+  result: ImportResult,
+): Promise<void> {
+  for (const { value: walker } of walkers) {
+    const existing = await storage.findWalker(walker.name);
+    if (existing && mode === "merge") {
+      result.walkersSkipped++;
+      continue;
+    }
+
+    result.walkersImported++;
+    if (!dryRun) {
+      const { id } = existing || await storage.updateWalker(walker.name);
+      await storage.updateWalkerDetails(id, {
+        colorIndex: walker.colorIndex,
+        phone: walker.phone ?? "",
+        broadcastOptOut: !!walker.broadcastOptOut,
+      });
+    }
+  }
+}
+
+// Add the backup's slots, counting what was added and skipped into the result.
+// Merged slots must fit around the walks already booked, like any booking.
+async function importSlots(
+  slots: Array<{ row: number; value: ImportSlot }>,
+  mode: ImportMode,
+  dryRun: boolean,
+  result: ImportResult,
+): Promise<void> {
+  // Slots accepted so far, which a dry run doesn't store
+  const accepted: Array<TimedWalk & { name: string }> = [];
+
+  for (const { row, value: slot } of slots) {
+    const existing = mode === "merge" ? await storage.getSlot(slot.date, slot.time) : null;
+    if (existing) {
+      if (normalizeWalkerName(existing.name) === normalizeWalkerName(slot.name)) {
+        result.slotsSkipped++;
+      } else {
+        result.errors.push({
+          table: "slots",
+          row,
+          message: `${slot.date} ${slot.time} is already booked by ${existing.name}`,
+        });
+      }
+      continue;
+    }
+
+    const walk = { ...slot, duration: slot.duration || DEFAULT_WALK_MINUTES };
+    if (mode === "merge") {
+      // Include the days either side for walks that run past midnight
+      const nearby = [
+        ...await storage.getSlotsBetween(addDays(slot.date, -1), addDays(slot.date, 1)),
+        ...accepted,
+      ];
+      const overlap = findOverlap(nearby, walk);
+      if (overlap) {
+        result.errors.push({
+          table: "slots",
+          row,
+          message: `${slot.date} ${slot.time} overlaps ${overlap.name}'s walk at ${formatTime(overlap.time)}`,
+        });
+        continue;
+      }
+    }
+
+    result.slotsImported++;
+    accepted.push(walk);
+    if (!dryRun) {
+      await writeSlot(slot);
+    }
+  }
+}
+
+/**
+ * Import a backup. Merge adds walkers and slots that aren't there yet and
+ * reports slots booked by someone else; replace removes every slot first,
+ * and also updates existing walkers to the backup's colors and phones. A
+ * replace with any invalid row changes nothing, so a bad file can't wipe
+ * the history, and one that fails partway puts the removed slots and the
+ * walkers' details back. Merged slots that overlap a booked walk are reported.
+ * Imports don't notify anyone.
+ * @param rows The rows read by parseBackup
+ * @param mode merge or replace
+ * @param dryRun True to only check the rows and report what would change
+ */
+export async function importBackup(
+  rows: { slots: unknown[]; walkers: unknown[] },
+  mode: ImportMode,
+  dryRun: boolean,
+): Promise<ImportResult> {
+  const result: ImportResult = {
+    mode,
+    dryRun,
+    walkersImported: 0,
+    walkersSkipped: 0,
+    slotsImported: 0,
+    slotsSkipped: 0,
+    slotsRemoved: 0,
+    errors: [],
+  };
+
+  const walkers = validateRows("walkers", rows.walkers, importWalkerSchema, result.errors);
+  const slots = validateRows("slots", rows.slots, importSlotSchema, result.errors);
+
+  // A backup can only book each slot once
+  const seen = new Set<string>();
+  const uniqueSlots = slots.filter(({ row, value }) => {
+    const key = `${value.date} ${value.time}`;
+    if (seen.has(key)) {
+      result.errors.push({ table: "slots", row, message: `${key} appears more than once` });
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  if (mode === "replace" && result.errors.length > 0) {
+    return result;
+  }
+
+  // What a replace changes, to put back if it fails partway
+  const previousWalkers = mode === "replace" && !dryRun ? await storage.getAllWalkers() : [];
+  let removed: WalkingSlot[] | undefined;
+
+  try {
+    await importWalkers(walkers, mode, dryRun, result);
+
+    if (mode === "replace") {
+      removed = await storage.getSlotsBetween(FIRST_DATE, LAST_DATE);
+      result.slotsRemoved = removed.length;
+      if (!dryRun) {
+        for (const slot of removed) {
+          await storage.removeSlot(slot.date, slot.time);
+        }
+      }
+    }
+
+    await importSlots(uniqueSlots, mode, dryRun, result);
+  } catch (error) {
+    if (mode === "replace" && !dryRun) {
+      await restoreWalkers(previousWalkers);
+      if (removed) {
+        await restoreSlots(removed);
+      }
+    }
+    throw error;
+  }
+
+  return result;
+}
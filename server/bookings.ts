@@ -0,0 +1,313 @@
+import { InsertSlot, WalkingSlot, WalkReport, SubmitWalkReport, DEFAULT_WALK_MINUTES } from "@shared/schema";
+import { storage, AddSlotOptions, SlotConflictError } from "./storage";
+import { notifySlotChange, notifyCoverChange } from "./notifications";
+import { publishSlotEvent } from "./events";
+import { recordSmsConsent } from "./smsConsent";
+import { getAvailability } from "./availability";
+import { getHeldWalks, offerFreedWalk, removeBookedFromWaitlist } from "./waitlist";
+import { addDays, toDateTimeET } from "./dates";
+import { isBookableTime, getSlotTimes, findOverlap } from "@shared/availability";
+import { canCheckIn, canReport, CHECK_IN_EARLY_MINUTES } from "@shared/walkStatus";
+import { formatTime } from "../client/src/lib/utils";
+
+// A booking request that can't be fulfilled, with the HTTP status to report
+export class BookingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "BookingError";
+  }
+}
+
+// Bookings are checked and stored one at a time, so two overlapping walks
+// can't both pass the overlap check. This holds within one server process;
+// the unique (date, time) constraint still guards identical slots beyond it.
+let bookingQueue: Promise<unknown> = Promise.resolve();
+
+function runExclusively<T>(fn: () => Promise<T>): Promise<T> {
+  const result = bookingQueue.then(fn);
+  bookingQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Store a slot if it doesn't overlap another walk, without notifying anyone
+ * @param slotData The validated slot to book
+ * @param options Owner and series details stored with the slot
+ * @returns The stored slot
+ * @throws BookingError with status 409 if the slot is taken, overlaps another walk
+ * or is held for someone on the waitlist
+ */
+export function reserveSlot(
+  slotData: InsertSlot,
+  options: AddSlotOptions = {},
+): Promise<WalkingSlot> {
+  const walk = { ...slotData, duration: slotData.duration || DEFAULT_WALK_MINUTES };
+
+  return runExclusively(async () => {
+    // Include the days either side for walks that run past midnight
+    const nearby = await storage.getSlotsBetween(addDays(walk.date, -1), addDays(walk.date, 1));
+    const overlap = findOverlap(nearby, walk);
+    if (overlap && overlap.date === walk.date && overlap.time === walk.time) {
+      throw new BookingError("Slot already booked", 409);
+    }
+    if (overlap) {
+      throw new BookingError(
+        `Overlaps ${overlap.name}'s walk at ${formatTime(overlap.time)}`,
+        409,
+      );
+    }
+
+    // Walks freed for the waitlist are held for the walker at the front of it
+    const held = await getHeldWalks(
+      addDays(walk.date, -1),
+      addDays(walk.date, 1),
+      options.ownerId,
+      walk.phone,
+    );
+    if (findOverlap(held, walk)) {
+      throw new BookingError("That walk is being held for someone on the waitlist", 409);
+    }
+
+    // Storage still rejects the slot atomically if another process got there first
+    try {
+      return await storage.addSlot(walk, options);
+    } catch (error) {
+      if (error instanceof SlotConflictError) {
+        throw new BookingError("Slot already booked", 409);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Record what a new booking means for the walker: their consent to texts and
+ * their place on the day's waitlist. Owners are notified by the caller, once
+ * per walk or once per series.
+ * @param newSlot The slot just reserved
+ */
+export function recordBooking(newSlot: WalkingSlot): void {
+  // Booking with a number counts as agreeing to texts, unless it replied STOP before
+  if (newSlot.phone) {
+    recordSmsConsent(newSlot.phone, "booking")
+      .catch(err => console.error('SMS consent error:', err));
+  }
+
+  // A walker who was waiting for this day doesn't need to any more
+  removeBookedFromWaitlist(newSlot)
+    .catch(err => console.error('Waitlist error:', err));
+}
+
+/**
+ * List the times on a date a walk of the default length can still be booked
+ * @param date The date in YYYY-MM-DD format
+ * @returns HHMM times in order, empty when the day is full or has no walks
+ */
+export async function getOpenTimes(date: string): Promise<string[]> {
+  const times = getSlotTimes(getAvailability(), date);
+  if (times.length === 0) {
+    return [];
+  }
+
+  // Walks held for the waitlist aren't open to everyone
+  const nearby = [
+    ...await storage.getSlotsBetween(addDays(date, -1), addDays(date, 1)),
+    ...await getHeldWalks(addDays(date, -1), addDays(date, 1)),
+  ];
+  return times.filter(
+    (time) => !findOverlap(nearby, { date, time, duration: DEFAULT_WALK_MINUTES }),
+  );
+}
+
+/**
+ * Book a slot and notify the owners. Shared by the HTTP routes and the
+ * inbound SMS commands so every booking goes through the same checks.
+ * @param slotData The validated slot to book
+ * @param options Owner and series details stored with the slot
+ * @returns The booked slot
+ * @throws BookingError if the slot can't be booked
+ */
+export async function bookSlot(
+  slotData: InsertSlot,
+  options: AddSlotOptions = {},
+): Promise<WalkingSlot> {
+  // Only times inside the configured walking window can be booked
+  if (!isBookableTime(getAvailability(), slotData.date, slotData.time)) {
+    throw new BookingError("That time is outside the walking window", 400);
+  }
+
+  const newSlot = await reserveSlot(slotData, options);
+  recordBooking(newSlot);
+
+  // Notify the owners and anyone looking at the schedule
+  notifySlotChange('book', newSlot)
+    .catch(err => console.error('Notification error:', err));
+  publishSlotEvent('slot_booked', newSlot)
+    .catch(err => console.error('Live update error:', err));
+
+  return newSlot;
+}
+
+/**
+ * Cancel a booked slot, notify the owners and hold the freed walk for the
+ * first walker on the waitlist
+ * @param slot The slot being cancelled
+ * @param cancelledBy Name shown in the cancellation notification
+ */
+export async function cancelSlot(slot: WalkingSlot, cancelledBy: string = slot.name): Promise<void> {
+  // Remove the slot
+  await storage.removeSlot(slot.date, slot.time);
+
+  // Notify the owners and anyone looking at the schedule
+  notifySlotChange('cancel', { ...slot, name: cancelledBy })
+    .catch(err => console.error('Notification error:', err));
+  publishSlotEvent('slot_cancelled', slot)
+    .catch(err => console.error('Live update error:', err));
+  offerFreedWalk(slot.date, slot.time)
+    .catch(err => console.error('Waitlist error:', err));
+}
+
+/**
+ * Ask for someone to take over a walk, or take the request back, and let the
+ * owners and anyone looking at the schedule know
+ * @param slot The slot, checked to belong to the walker asking
+ * @param requested Whether cover is now wanted
+ * @returns The updated slot
+ */
+export async function setCoverRequest(slot: WalkingSlot, requested: boolean): Promise<WalkingSlot> {
+  const updated = await storage.setCoverRequest(slot.date, slot.time, requested);
+  if (!updated) {
+    throw new BookingError("Slot not found", 404);
+  }
+
+  notifyCoverChange(requested ? 'request' : 'withdraw', updated)
+    .catch(err => console.error('Notification error:', err));
+  publishSlotEvent('slot_updated', updated)
+    .catch(err => console.error('Live update error:', err));
+
+  return updated;
+}
+
+/**
+ * Take over a walk whose walker asked for cover. The slot changes hands in
+ * one step, so nobody else can book it in between.
+ * @param claim The slot and the walker taking it over
+ * @param ownerId Public id of the new walker's token
+ * @returns The slot as it now is
+ * @throws BookingError if the slot isn't looking for cover or someone else took it first
+ */
+export async function claimCover(
+  claim: { date: string; time: string; name: string; phone?: string },
+  ownerId: string,
+): Promise<WalkingSlot> {
+  // Fetched with the phone number so the original walker can be told
+  const slots = await storage.getSlotsBetween(claim.date, claim.date);
+  const previous = slots.find((slot) => slot.time === claim.time);
+  if (!previous) {
+    throw new BookingError("Slot not found", 404);
+  }
+  if (!previous.coverRequestedAt) {
+    throw new BookingError("That walk isn't looking for cover", 409);
+  }
+  if (previous.ownerId === ownerId) {
+    throw new BookingError("You can't cover your own walk", 400);
+  }
+
+  const slot = await storage.claimSlot(claim.date, claim.time, claim.name, claim.phone, ownerId);
+  if (!slot) {
+    throw new BookingError("Someone else is already covering that walk", 409);
+  }
+
+  if (slot.phone) {
+    recordSmsConsent(slot.phone, "booking")
+      .catch(err => console.error('SMS consent error:', err));
+  }
+
+  // Live views see the walk move from one walker to the other
+  notifyCoverChange('claim', slot, previous)
+    .catch(err => console.error('Notification error:', err));
+  publishSlotEvent('slot_cancelled', previous)
+    .catch(err => console.error('Live update error:', err));
+  publishSlotEvent('slot_booked', slot)
+    .catch(err => console.error('Live update error:', err));
+
+  return slot;
+}
+
+/**
+ * Record that a walk has started. Walks can be checked in to from shortly
+ * before they start until their booked end; after that they count as missed.
+ * @param slot The slot, checked to belong to the walker
+ * @returns The slot with its check-in time
+ * @throws BookingError if it's too early or late, or the walk was already checked in
+ */
+export async function checkIn(slot: WalkingSlot): Promise<WalkingSlot> {
+  const now = new Date();
+  if (!slot.checkedInAt && !canCheckIn(slot, toDateTimeET(now))) {
+    throw new BookingError(
+      `Walks can be checked in to from ${CHECK_IN_EARLY_MINUTES} minutes before they start until they end`,
+      400,
+    );
+  }
+
+  const updated = await storage.checkInSlot(slot.date, slot.time, Math.floor(now.getTime() / 1000));
+  if (!updated) {
+    throw new BookingError("That walk is already checked in", 409);
+  }
+
+  publishSlotEvent('slot_updated', updated)
+    .catch(err => console.error('Live update error:', err));
+  return updated;
+}
+
+/**
+ * Record that a checked-in walk has finished, so it counts as completed
+ * @param slot The slot, checked to belong to the walker
+ * @returns The slot with its check-out time
+ * @throws BookingError if the walk wasn't checked in or is already checked out
+ */
+export async function checkOut(slot: WalkingSlot): Promise<WalkingSlot> {
+  if (!slot.checkedInAt) {
+    throw new BookingError("Check in to the walk before checking out", 409);
+  }
+
+  const updated = await storage.checkOutSlot(slot.date, slot.time, Math.floor(Date.now() / 1000));
+  if (!updated) {
+    throw new BookingError("That walk is already checked out", 409);
+  }
+
+  publishSlotEvent('slot_updated', updated)
+    .catch(err => console.error('Live update error:', err));
+  return updated;
+}
+
+/**
+ * File how a walk went, replacing any earlier report for it. Reports can be
+ * filed once the walk is checked out or its booked end has passed.
+ * @param slot The slot, checked to belong to the walker
+ * @param report The validated report details
+ * @returns The stored report
+ * @throws BookingError with status 409 if the walk hasn't finished yet
+ */
+export async function submitWalkReport(
+  slot: WalkingSlot,
+  report: Omit<SubmitWalkReport, "date" | "time" | "ownerToken" | "ownerKey">,
+): Promise<WalkReport> {
+  const now = new Date();
+  if (!canReport(slot, toDateTimeET(now))) {
+    throw new BookingError("Walks can be reported on once they're over", 409);
+  }
+
+  const saved = await storage.saveWalkReport({
+    ...report,
+    date: slot.date,
+    time: slot.time,
+    name: slot.name,
+    timestamp: Math.floor(now.getTime() / 1000),
+  });
+
+  // Other browsers refetch the week's reports when the slot changes
+  publishSlotEvent('slot_updated', slot)
+    .catch(err => console.error('Live update error:', err));
+  return saved;
+}
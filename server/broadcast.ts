@@ -0,0 +1,114 @@
+import { HelpBroadcastResult } from "@shared/schema";
+import { formatTime } from "../client/src/lib/utils";
+import { storage } from "./storage";
+import { getOpenTimes } from "./bookings";
+import { getChannel, getDeliveryLog, deliver, maskAddress } from "./notifications";
+import { formatDate } from "./dates";
+import { getSmsSuppressionReason } from "./smsConsent";
+import { currentHousehold, householdPath } from "./householdContext";
+
+// A broadcast that can't be sent, with the HTTP status to report
+export class BroadcastError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "BroadcastError";
+  }
+}
+
+// Recorded in the delivery log, which also drives the rate limit
+const HELP_NEEDED_MESSAGE_TYPE = "help_needed";
+
+// Minimum time between broadcasts for the same day, so walkers aren't spammed
+export const HELP_BROADCAST_COOLDOWN_MINUTES = 60;
+
+// How many open times the text lists before the link
+const LISTED_TIMES = 3;
+
+/**
+ * Text every walker with a phone number, except those who opted out, that a
+ * day still needs walks. Identical texts are skipped by the delivery log dedup.
+ * @param date The day that needs walks, YYYY-MM-DD
+ * @param baseUrl Public URL of the app, for the booking link
+ * @param dryRun Only work out the message and recipients, without sending
+ * @returns The message and who it was (or would be) sent to
+ * @throws BroadcastError if the day is full or was broadcast too recently
+ */
+export async function broadcastHelpNeeded(
+  date: string,
+  baseUrl: string,
+  dryRun = false,
+): Promise<HelpBroadcastResult> {
+  const openTimes = await getOpenTimes(date);
+  if (openTimes.length === 0) {
+    throw new BroadcastError(`There are no open walks on ${formatDate(date)}`, 400);
+  }
+
+  // Link straight to booking the first open time
+  const { petName } = currentHousehold();
+  const link = `${baseUrl}${householdPath()}/?date=${date}&time=${openTimes[0]}`;
+  const listed = openTimes.slice(0, LISTED_TIMES).map(formatTime).join(", ");
+  const more = openTimes.length > LISTED_TIMES ? " and more" : "";
+  const message = `${petName} still needs a walk on ${formatDate(date)}. Open: ${listed}${more}. Book here: ${link}`;
+
+  // Numbers that replied STOP would be suppressed anyway, so leave them out of the preview too
+  const recipients: HelpBroadcastResult["recipients"] = [];
+  for (const walker of await storage.getAllWalkers()) {
+    if (walker.phone && !walker.broadcastOptOut && !(await getSmsSuppressionReason(walker.phone))) {
+      recipients.push({ name: walker.name, phone: walker.phone });
+    }
+  }
+
+  const result: HelpBroadcastResult = {
+    date,
+    message,
+    recipients,
+    dryRun,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  if (dryRun) {
+    return result;
+  }
+
+  const [lastBroadcast] = await getDeliveryLog(
+    { messageType: HELP_NEEDED_MESSAGE_TYPE, slotDate: date },
+    1,
+  );
+  if (lastBroadcast) {
+    const minutesAgo = (Date.now() - new Date(lastBroadcast.sentAt).getTime()) / 60000;
+    if (minutesAgo < HELP_BROADCAST_COOLDOWN_MINUTES) {
+      throw new BroadcastError(
+        `${formatDate(date)} was broadcast ${Math.floor(minutesAgo)} minutes ago. Try again in ${Math.ceil(HELP_BROADCAST_COOLDOWN_MINUTES - minutesAgo)} minutes.`,
+        429,
+      );
+    }
+  }
+
+  const channel = getChannel("sms");
+  if (!channel) {
+    throw new BroadcastError("SMS is not configured", 503);
+  }
+
+  // Send one at a time to stay within the SMS provider's rate limits
+  for (const recipient of recipients) {
+    try {
+      const delivered = await deliver(channel, recipient.phone, {
+        messageType: HELP_NEEDED_MESSAGE_TYPE,
+        subject: `Help needed walking ${petName}`,
+        body: message,
+        date,
+      });
+      if (delivered) {
+        result.sent++;
+      } else {
+        result.skipped++;
+      }
+    } catch (error) {
+      console.error(`Failed to send help broadcast to ${maskAddress(recipient.phone)}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,136 @@
+import { WalkingSlot, DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
+import { addDays } from "./dates";
+import { currentHousehold } from "./householdContext";
+
+// Timezone definition for America/New_York so clients don't need their own
+const NEW_YORK_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  "TZID:America/New_York",
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0500",
+  "TZOFFSETTO:-0400",
+  "TZNAME:EDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0400",
+  "TZOFFSETTO:-0500",
+  "TZNAME:EST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// Escape text values per RFC 5545 section 3.3.11
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold content lines longer than 75 octets per RFC 5545 section 3.1
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// Format a YYYY-MM-DD date and HHMM time as a local iCalendar date-time
+function formatLocalDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, "")}T${time}00`;
+}
+
+// Work out the local end date and time of a walk
+function getEndDateTime(slot: WalkingSlot): string {
+  const startMinutes =
+    parseInt(slot.time.substring(0, 2)) * 60 + parseInt(slot.time.substring(2, 4));
+  const endMinutes = startMinutes + slot.duration;
+
+  // Walks that run past midnight end on the following day
+  const endDate = addDays(slot.date, Math.floor(endMinutes / 1440));
+  const minuteOfDay = endMinutes % 1440;
+  const endTime =
+    Math.floor(minuteOfDay / 60).toString().padStart(2, "0") +
+    (minuteOfDay % 60).toString().padStart(2, "0");
+
+  return formatLocalDateTime(endDate, endTime);
+}
+
+/**
+ * Build the stable UID for a slot's event. It only depends on the household,
+ * date and time, so a cancelled walk disappears from subscribed calendars and
+ * a rebooked slot updates the same event.
+ */
+export function getSlotEventUid(slot: WalkingSlot): string {
+  const household = currentHousehold();
+  const prefix = household.id === DEFAULT_HOUSEHOLD_ID ? "walk" : `walk-${household.slug}`;
+  return `${prefix}-${slot.date}-${slot.time}@finnwalks.com`;
+}
+
+/**
+ * Generate an iCalendar (RFC 5545) document for a list of slots
+ * @param slots The slots to include as events
+ * @param calendarName Display name of the calendar
+ * @param includeWalkerName Whether event titles name the walker
+ * @returns The calendar as a CRLF-delimited string
+ */
+export function buildCalendar(
+  slots: WalkingSlot[],
+  calendarName: string,
+  includeWalkerName: boolean,
+): string {
+  const { petName } = currentHousehold();
+  const dtStamp = new Date().toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FinnWalks//Walk Schedule//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    "X-WR-TIMEZONE:America/New_York",
+    ...NEW_YORK_VTIMEZONE,
+  ];
+
+  for (const slot of slots) {
+    const summary = includeWalkerName ? `${slot.name} walks ${petName}` : `Walk ${petName}`;
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${getSlotEventUid(slot)}`,
+      `DTSTAMP:${dtStamp}`,
+      `DTSTART;TZID=America/New_York:${formatLocalDateTime(slot.date, slot.time)}`,
+      `DTEND;TZID=America/New_York:${getEndDateTime(slot)}`,
+      `SUMMARY:${escapeText(summary)}`,
+    );
+    if (slot.notes) {
+      lines.push(`DESCRIPTION:${escapeText(slot.notes)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,76 @@
+import { CareInstructions, CareSection, DEFAULT_HOUSEHOLD_ID, SaveCareInstructions, saveCareInstructionsSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { currentHousehold } from "./householdContext";
+
+// Care instructions that can't be saved, with the HTTP status to report
+export class CareInstructionsError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "CareInstructionsError";
+  }
+}
+
+// Finn's instructions from before owners could edit them
+const FINN_SECTIONS: CareSection[] = [
+  {
+    title: "Walking",
+    body: "Thank you for helping us take care of Finn while we take care of Arlo. Finn needs a 30-minute walk " +
+      "twice a day. He may pull a bit, and he may also be a little sad that we're not joining, but he'll settle " +
+      "down quickly.",
+  },
+  {
+    title: "The schedule",
+    body: "We'll use this schedule to keep track of who's walking Finn and when.",
+  },
+];
+
+// What the current household's walkers see until an owner first edits the instructions
+function initialSections(): CareSection[] {
+  const household = currentHousehold();
+  if (household.id === DEFAULT_HOUSEHOLD_ID) {
+    return FINN_SECTIONS;
+  }
+  return [{
+    title: "Walking",
+    body: household.careInstructions ||
+      `We'll use this schedule to keep track of who's walking ${household.petName} and when.`,
+  }];
+}
+
+/**
+ * Get the current household's care instructions
+ * @returns The latest saved version, or version 0 if no owner has edited them
+ */
+export async function getCareInstructions(): Promise<CareInstructions> {
+  return await storage.getCareInstructions() || { version: 0, sections: initialSections(), updatedAt: 0 };
+}
+
+/**
+ * Get every version of the care instructions, newest first, ending with
+ * version 0
+ */
+export async function getCareInstructionsHistory(): Promise<CareInstructions[]> {
+  const saved = await storage.getCareInstructionsHistory();
+  return [...saved, { version: 0, sections: initialSections(), updatedAt: 0 }];
+}
+
+/**
+ * Save an owner's edit as a new version of the care instructions. Earlier
+ * versions are kept, so restoring one is saving its sections again.
+ * @param input The sections, and the version the owner started from
+ * @returns The new version
+ * @throws ZodError if the input is invalid
+ * @throws CareInstructionsError with status 409 if someone saved a newer version meanwhile
+ */
+export async function saveCareInstructions(input: SaveCareInstructions): Promise<CareInstructions> {
+  const { sections, baseVersion } = saveCareInstructionsSchema.parse(input);
+  const saved = await storage.addCareInstructions(sections, Math.floor(Date.now() / 1000), baseVersion);
+  if (!saved) {
+    const current = await getCareInstructions();
+    throw new CareInstructionsError(
+      `The instructions were changed since you started editing (now version ${current.version}). Reload to see them.`,
+      409,
+    );
+  }
+  return saved;
+}
@@ -0,0 +1,44 @@
+import {
+  CoverageRule,
+  coverageRulesSchema,
+  DEFAULT_COVERAGE_RULES,
+  WeekCoverage,
+  findCoverageGaps,
+} from "@shared/coverage";
+import { storage } from "./storage";
+import { getAvailability } from "./availability";
+
+/**
+ * Get the daily coverage rules from the COVERAGE_RULES environment variable,
+ * a JSON array such as:
+ *
+ *   [
+ *     { "label": "morning", "start": "0600", "end": "1130" },
+ *     { "label": "evening", "start": "1600", "end": "2030", "walks": 2 }
+ *   ]
+ *
+ * Without it Finn needs one morning and one evening walk a day. An invalid
+ * value is logged and the default used instead.
+ */
+export function getCoverageRules(): CoverageRule[] {
+  const configured = process.env.COVERAGE_RULES;
+  if (configured) {
+    try {
+      return coverageRulesSchema.parse(JSON.parse(configured));
+    } catch (error) {
+      console.error("Invalid COVERAGE_RULES, using the default coverage rules:", error);
+    }
+  }
+
+  return DEFAULT_COVERAGE_RULES;
+}
+
+/**
+ * Work out which walks are still needed in the week starting on a date
+ * @param startDate The first day in YYYY-MM-DD format
+ * @returns Uncovered windows for each of the seven days
+ */
+export async function getWeekCoverage(startDate: string): Promise<WeekCoverage> {
+  const schedule = await storage.getSchedule(startDate);
+  return findCoverageGaps(schedule, getCoverageRules(), getAvailability());
+}
@@ -0,0 +1,91 @@
+// Cells a spreadsheet would run as a formula. Phone numbers start with + too,
+// so + and - only count when a number doesn't follow.
+const FORMULA_START = /^([=@\t\r]|[+-](?![\d(]))/;
+
+// Quote a cell if it needs it, and defuse anything a spreadsheet would run
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  let text = String(value);
+  if (FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows as CSV with a header line
+ * @param columns The fields to write, in order, also used as the header
+ * @param rows The rows, with a value for each column
+ */
+export function toCsv<T extends object>(columns: Array<keyof T & string>, rows: T[]): string {
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Read CSV into objects keyed by the header line. Quoted cells may hold
+ * commas, quotes and line breaks; empty cells are left out, and the quote
+ * toCsv adds in front of formulas is taken off again.
+ * @param text The CSV file
+ * @returns One object per line after the header
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  // Spreadsheets often save with a byte order mark
+  text = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      line.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      line.push(cell);
+      lines.push(line);
+      line = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || line.length > 0) {
+    line.push(cell);
+    lines.push(line);
+  }
+
+  const [header = [], ...rows] = lines.filter((cells) => cells.some((value) => value.trim()));
+  const columns = header.map((column) => column.trim());
+  return rows.map((cells) => {
+    const row: Record<string, string> = {};
+    cells.forEach((value, index) => {
+      const unescaped = value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+      if (columns[index] && unescaped !== "") {
+        row[columns[index]] = unescaped;
+      }
+    });
+    return row;
+  });
+}
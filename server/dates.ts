@@ -0,0 +1,63 @@
+/**
+ * Get current date in Eastern Time (ET) as YYYY-MM-DD
+ */
+export function getCurrentDateET(): string {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone: 'America/New_York' // Eastern Time
+  };
+
+  return new Intl.DateTimeFormat('fr-CA', options).format(new Date());
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date string
+ * Uses UTC so the result doesn't depend on the server's timezone
+ */
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Get the day of the week (0 = Sunday) for a YYYY-MM-DD date string
+ */
+export function getWeekday(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Get the Eastern Time (ET) date and HHMM time of an instant
+ */
+export function toDateTimeET(instant: Date): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: 'America/New_York' // Eastern Time
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}${get('minute')}`
+  };
+}
+
+/**
+ * Format a YYYY-MM-DD date for messages, e.g. "Tue, Oct 20"
+ */
+export function formatDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -6,18 +6,39 @@ import * as schema from "@shared/schema";
 // Configure Neon for WebSocket connections
 neonConfig.webSocketConstructor = ws;
 
-// Check for database URL
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?"
-  );
-}
+type Database = ReturnType<typeof drizzle<typeof schema>>;
+
+let pool: Pool | null = null;
+let database: Database | null = null;
 
-// Create a connection pool
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+/**
+ * Get the connection pool, connecting on first use so the app can run on
+ * other storage backends without a database
+ * @throws Error if DATABASE_URL isn't set
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    // Check for database URL
+    if (!process.env.DATABASE_URL) {
+      throw new Error(
+        "DATABASE_URL must be set. Did you forget to provision a database?"
+      );
+    }
 
-// Create a Drizzle client
-export const db = drizzle(pool, { schema });
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    database = drizzle(pool, { schema });
+
+    // Log successful database connection
+    console.log('Database connection established.');
+  }
+  return pool;
+}
 
-// Log successful database connection
-console.log('Database connection established.');
\ No newline at end of file
+// The Drizzle client, which connects the first time it's used
+export const db = new Proxy({} as Database, {
+  get(_target, property) {
+    getPool();
+    const value = Reflect.get(database!, property);
+    return typeof value === 'function' ? value.bind(database) : value;
+  },
+});
@@ -0,0 +1,59 @@
+import { storage } from "./storage";
+import { toDateTimeET } from "./dates";
+import { notifyDailyDigest } from "./notifications";
+import { Clock, systemClock } from "./reminders";
+import { forEachHousehold } from "./households";
+
+/**
+ * Text the owners how a day's walks went, from the walk reports filed so far
+ * @param date The day in YYYY-MM-DD format
+ * @returns True if the digest was sent, false if there were no walks or it failed
+ */
+export async function sendDailyDigest(date: string): Promise<boolean> {
+  const slots = await storage.getSlotsBetween(date, date);
+  const reports = await storage.getWalkReportsBetween(date, date);
+  return notifyDailyDigest(date, slots, reports);
+}
+
+/**
+ * Send every household's daily digest once a day, at the first check after
+ * the digest time
+ *
+ * DIGEST_TIME  ET time of day to send it, in HHMM (default 2000, "off" disables)
+ *
+ * @param clock Source of the current time
+ * @returns A function that stops the checks, or null if the digest is disabled
+ */
+export function startDigestScheduler(clock: Clock = systemClock): (() => void) | null {
+  const digestTime = process.env.DIGEST_TIME || "2000";
+  if (digestTime === "off") {
+    console.log("Daily digest disabled");
+    return null;
+  }
+  if (!/^\d{4}$/.test(digestTime)) {
+    console.error(`Invalid DIGEST_TIME "${digestTime}", daily digest disabled`);
+    return null;
+  }
+
+  let lastSentDate: string | null = null;
+  let running = false;
+
+  // Skip a tick if the previous pass is still running
+  const tick = async () => {
+    const now = toDateTimeET(clock.now());
+    if (running || now.time < digestTime || lastSentDate === now.date) return;
+    running = true;
+    try {
+      await forEachHousehold(() => sendDailyDigest(now.date));
+      lastSentDate = now.date;
+    } catch (error) {
+      console.error("Daily digest error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, 60 * 1000);
+  console.log(`Daily digest enabled at ${digestTime} ET`);
+  return () => clearInterval(timer);
+}
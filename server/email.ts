@@ -0,0 +1,64 @@
+import nodemailer from "nodemailer";
+import type { NotificationChannel } from "./notifications";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+};
+
+/**
+ * SMTP settings from the environment
+ *
+ * SMTP_HOST  mail server (required)
+ * SMTP_PORT  port, 465 uses TLS from the start (default 587)
+ * SMTP_USER  login user, if the server needs one
+ * SMTP_PASS  login password
+ * SMTP_FROM  sender address (defaults to SMTP_USER)
+ *
+ * @returns The settings, or null if email isn't configured
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  const from = process.env.SMTP_FROM || process.env.SMTP_USER;
+
+  if (!host || !from) {
+    return null;
+  }
+
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from,
+  };
+}
+
+/**
+ * A notification channel that sends plain-text email over SMTP
+ * @param config The SMTP server and sender address
+ */
+export function createEmailChannel(config: SmtpConfig): NotificationChannel {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+  });
+
+  return {
+    name: "email",
+    async send(to, message) {
+      const info = await transport.sendMail({
+        from: config.from,
+        to,
+        subject: message.subject,
+        text: message.body,
+      });
+      console.log(`Email sent! Message ID: ${info.messageId}`);
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import type { Request, Response } from "express";
+import { WalkingSlot, SlotEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { currentHousehold } from "./householdContext";
+
+// Browsers currently listening for live updates, with the household whose schedule they show
+const clients = new Map<Response, number>();
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * Stream live slot events to a browser as Server-Sent Events
+ * The connection stays open until the browser goes away
+ */
+export function handleEventStream(req: Request, res: Response) {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Stop nginx-style proxies buffering the stream
+  });
+  res.flushHeaders();
+
+  // Tell the browser how long to wait before reconnecting
+  res.write("retry: 3000\n\n");
+  clients.set(res, currentHousehold().id);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
+
+// Events go out one at a time so browsers see them in the order they happened
+let publishQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Push a booked or cancelled slot to every browser showing the current
+ * household's schedule
+ * @param type Whether the slot was booked or cancelled
+ * @param slot The slot that changed
+ */
+export function publishSlotEvent(
+  type: SlotEvent["type"],
+  slot: WalkingSlot,
+): Promise<void> {
+  const householdId = currentHousehold().id;
+  const published = publishQueue.then(() => broadcast(type, slot, householdId));
+  publishQueue = published.catch(() => {});
+  return published;
+}
+
+// Send one event to every browser connected to a household
+async function broadcast(type: SlotEvent["type"], slot: WalkingSlot, householdId: number): Promise<void> {
+  const listening = Array.from(clients.entries())
+    .filter(([, clientHousehold]) => clientHousehold === householdId)
+    .map(([client]) => client);
+  if (listening.length === 0) {
+    return;
+  }
+
+  // The schedule is public, so never broadcast phone numbers
+  const { phone, ...publicSlot } = slot;
+  const event: SlotEvent = {
+    type,
+    slot: publicSlot,
+    colorIndex: await storage.getWalkerColorIndex(slot.name),
+  };
+
+  const message = `event: slot\ndata: ${JSON.stringify(event)}\n\n`;
+  for (const client of listening) {
+    client.write(message);
+  }
+}
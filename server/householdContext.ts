@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Household, DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
+
+// The household the app was built for, served at / and at /h/finn. Its owners
+// use OWNER_KEY and its alerts go to ALERT_TO and NOTIFY_RECIPIENTS.
+export const DEFAULT_HOUSEHOLD: Household = {
+  id: DEFAULT_HOUSEHOLD_ID,
+  slug: "finn",
+  petName: "Finn",
+  ownerKeyHash: "",
+  timestamp: 0,
+};
+
+// The household of the request or scheduled job being handled
+const context = new AsyncLocalStorage<Household>();
+
+/**
+ * Run a function on behalf of a household. Storage, notifications and owner
+ * checks called from it, however deeply, act on that household.
+ * @param household The household
+ * @param fn The function to run
+ */
+export function runInHousehold<T>(household: Household, fn: () => T): T {
+  return context.run(household, fn);
+}
+
+/**
+ * Get the household being acted on
+ * @returns The household set by runInHousehold, or the default household
+ */
+export function currentHousehold(): Household {
+  return context.getStore() || DEFAULT_HOUSEHOLD;
+}
+
+/**
+ * Get the path the current household's pages are under, for links in texts
+ * @returns "" for the default household, otherwise "/h/<slug>"
+ */
+export function householdPath(): string {
+  const household = currentHousehold();
+  return household.id === DEFAULT_HOUSEHOLD_ID ? "" : `/h/${household.slug}`;
+}
@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import {
+  Household,
+  InsertHousehold,
+  PublicHousehold,
+  DEFAULT_HOUSEHOLD_ID,
+  insertHouseholdSchema,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { hashOwnerKey } from "./auth";
+import { DEFAULT_HOUSEHOLD, currentHousehold, runInHousehold } from "./householdContext";
+
+// A household that can't be added, with the HTTP status to report
+export class HouseholdError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "HouseholdError";
+  }
+}
+
+/**
+ * Find a household by the slug in its URL
+ * @param slug The slug, as in /h/:slug
+ * @returns The household, or null if there's none by that slug
+ */
+export async function findHousehold(slug: string): Promise<Household | null> {
+  if (slug === DEFAULT_HOUSEHOLD.slug) {
+    return DEFAULT_HOUSEHOLD;
+  }
+  return storage.getHouseholdBySlug(slug);
+}
+
+/**
+ * Express middleware for routes under /api/h/:householdSlug that runs the
+ * rest of the request on behalf of that household
+ */
+export async function resolveHousehold(req: Request, res: Response, next: NextFunction) {
+  try {
+    const household = await findHousehold(req.params.householdSlug);
+    if (!household) {
+      return res.status(404).json({ error: "Household not found" });
+    }
+    runInHousehold(household, next);
+  } catch (error) {
+    console.error("Household lookup error:", error);
+    res.status(500).json({ error: "Failed to find household" });
+  }
+}
+
+/**
+ * Keep the current household through a callback that Node may run outside
+ * the request's async context, such as multer's once an upload is read
+ * @param callback The callback
+ * @returns The callback, bound to the current household
+ */
+export function bindHousehold<Args extends unknown[]>(callback: (...args: Args) => void): (...args: Args) => void {
+  const household = currentHousehold();
+  return (...args) => runInHousehold(household, () => callback(...args));
+}
+
+/**
+ * Add a household for neighbours sharing the deployment
+ * @param input The household's slug, pet and settings
+ * @returns The household, and its owners' admin key. Only a hash of the key
+ *   is stored, so it can't be shown again.
+ * @throws ZodError if the input is invalid
+ * @throws HouseholdError with status 409 if the slug is taken
+ */
+export async function createHousehold(input: InsertHousehold): Promise<{ household: Household; ownerKey: string }> {
+  const data = insertHouseholdSchema.parse(input);
+  if (await findHousehold(data.slug)) {
+    throw new HouseholdError(`The slug "${data.slug}" is already taken`, 409);
+  }
+
+  const ownerKey = crypto.randomBytes(24).toString("hex");
+  const household = await storage.addHousehold(data, hashOwnerKey(ownerKey));
+  return { household, ownerKey };
+}
+
+/**
+ * Run a scheduled job once for every household, the default one first. A
+ * household whose job fails doesn't stop the others.
+ * @param job The job, run on behalf of each household in turn
+ */
+export async function forEachHousehold(job: (household: Household) => Promise<unknown>): Promise<void> {
+  const all = [DEFAULT_HOUSEHOLD, ...await storage.getHouseholds()];
+  for (const household of all) {
+    try {
+      await runInHousehold(household, () => job(household));
+    } catch (error) {
+      console.error(`Scheduled job failed for household ${household.slug}:`, error);
+    }
+  }
+}
+
+// What walkers' browsers are told about a household; never its owner settings
+export function toPublicHousehold(household: Household): PublicHousehold {
+  return {
+    slug: household.slug,
+    petName: household.petName,
+    petPhotoUrl: household.petPhotoUrl,
+    isDefault: household.id === DEFAULT_HOUSEHOLD_ID,
+  };
+}
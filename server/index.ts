@@ -1,8 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReminderScheduler } from "./reminders";
+import { startWaitlistScheduler } from "./waitlist";
+import { startDigestScheduler } from "./digest";
 
 const app = express();
+
+// Behind a proxy, TRUST_PROXY is the number of proxies in front of the app,
+// so login limits apply to each client's address rather than the proxy's
+const trustedProxies = parseInt(process.env.TRUST_PROXY || "0");
+if (trustedProxies > 0) {
+  app.set("trust proxy", trustedProxies);
+}
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -66,5 +77,14 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Text walkers ahead of their walks
+    startReminderScheduler();
+
+    // Pass walks held for the waitlist on when their hold lapses
+    startWaitlistScheduler();
+
+    // Text the owners how the day's walks went
+    startDigestScheduler();
   });
 })();
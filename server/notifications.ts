@@ -0,0 +1,600 @@
+import {
+  WalkingSlot,
+  RecurringSeries,
+  WaitlistEntry,
+  WalkReport,
+  InsertDelivery,
+  DeliveryRecord,
+  DeliveryLogFilters,
+  NotificationChannelName,
+  NotificationRecipient,
+  notificationRecipientSchema,
+} from "@shared/schema";
+import { formatTime } from "../client/src/lib/utils";
+import crypto from "crypto";
+import fs from "fs";
+import { z } from "zod";
+import { storage } from "./storage";
+import { formatDate, toDateTimeET } from "./dates";
+import { getTwilioSender, createSmsChannel } from "./twilio";
+import { getSmtpConfig, createEmailChannel } from "./email";
+import { createWebhookChannel } from "./webhook";
+import { getSmsSuppressionReason } from "./smsConsent";
+import { currentHousehold, householdPath } from "./householdContext";
+
+// A message ready to deliver on any channel
+export type NotificationMessage = {
+  messageType: string;   // Recorded in the delivery log and used for recipient preferences
+  subject: string;       // Used by channels that have one (email, webhook)
+  body: string;
+  slot?: WalkingSlot;    // The walking slot the message is about
+  date?: string;         // The day the message is about, when it isn't about one slot
+};
+
+// A way of delivering messages, e.g. Twilio SMS or SMTP email
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  send(to: string, message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Generate a hash for a message to uniquely identify it
+ * @param recipient The address receiving the message
+ * @param messageContent The content of the message
+ * @returns A hash string that uniquely identifies this message to this recipient
+ */
+function generateMessageHash(
+  recipient: string,
+  messageContent: string,
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${recipient}:${messageContent}`)
+    .digest("hex");
+}
+
+/**
+ * Check if an identical message has already been sent to the recipient on a channel
+ * @param channel The channel the message would be sent on
+ * @param recipient The address to check
+ * @param messageContent The message content to check
+ * @returns True if the message was previously sent, false otherwise
+ */
+async function isMessageDuplicate(
+  channel: NotificationChannelName,
+  recipient: string,
+  messageContent: string,
+): Promise<boolean> {
+  const hash = generateMessageHash(recipient, messageContent);
+
+  // Check if this message hash was sent before; suppressed attempts don't count
+  return storage.hasDelivery(channel, hash);
+}
+
+/**
+ * Record a delivered message in the delivery log. Webhook URLs usually carry
+ * a secret token, so only their masked form is kept.
+ * @param channel The channel the message was sent on
+ * @param recipient The address that received the message
+ * @param message The message that was sent
+ * @param suppressedReason Why the message was withheld instead of sent
+ */
+async function recordDelivery(
+  channel: NotificationChannelName,
+  recipient: string,
+  message: NotificationMessage,
+  suppressedReason?: string,
+): Promise<void> {
+  const record: InsertDelivery = {
+    channel,
+    messageHash: generateMessageHash(recipient, message.body),
+    recipient: channel === "webhook" ? maskAddress(recipient) : recipient,
+    messageType: message.messageType,
+    messageContent: message.body,
+    slotDate: message.slot?.date ?? message.date,
+    slotTime: message.slot?.time,
+    suppressedReason,
+  };
+
+  await storage.addDelivery(record);
+  console.log(
+    `Delivery record created: ${message.messageType} by ${channel} to ${maskAddress(recipient)}` +
+      (suppressedReason ? ` (suppressed: ${suppressedReason})` : ""),
+  );
+}
+
+/**
+ * List delivery log records, newest first
+ * @param filters Optional channel, recipient, message type and slot date to match
+ * @param limit Maximum number of records to return
+ * @returns The matching records
+ */
+export async function getDeliveryLog(
+  filters: DeliveryLogFilters,
+  limit = 200,
+): Promise<DeliveryRecord[]> {
+  return storage.getDeliveries(filters, limit);
+}
+
+// Mask a phone number, email address or URL for logging
+export function maskAddress(address: string): string {
+  if (address.includes("@")) {
+    const [user, domain] = address.split("@");
+    return `${user.charAt(0)}***@${domain}`;
+  }
+  if (/^https?:\/\//.test(address)) {
+    return `${new URL(address).origin}/***`;
+  }
+  return `${address.substring(0, 3)}****${address.substring(address.length - 4)}`;
+}
+
+/**
+ * A channel that prints messages instead of sending them, for development
+ * and tests. Messages are also kept in memory and, when a file path is
+ * given, appended to it as JSON lines.
+ * @param name The channel name to record deliveries under
+ * @param filePath Optional file to append messages to
+ */
+export function createConsoleChannel(
+  name: NotificationChannelName = "console",
+  filePath?: string,
+): NotificationChannel & { sent: Array<{ to: string; message: NotificationMessage }> } {
+  const sent: Array<{ to: string; message: NotificationMessage }> = [];
+  return {
+    name,
+    sent,
+    async send(to, message) {
+      sent.push({ to, message });
+      console.log(`[${name}] to ${to}: ${message.body}`);
+      if (filePath) {
+        const line = JSON.stringify({ channel: name, to, ...message, sentAt: new Date() });
+        await fs.promises.appendFile(filePath, line + "\n");
+      }
+    },
+  };
+}
+
+// Console channels used in test mode, kept so their sent lists accumulate
+const consoleChannels = new Map<NotificationChannelName, NotificationChannel>();
+
+/**
+ * Get a configured channel. With NOTIFY_TEST_MODE=true every channel is
+ * replaced by a console channel (written to NOTIFY_LOG_FILE if set).
+ * @param name The channel to get
+ * @returns The channel, or null if it isn't configured
+ */
+export function getChannel(name: NotificationChannelName): NotificationChannel | null {
+  if (name === "console" || process.env.NOTIFY_TEST_MODE === "true") {
+    let channel = consoleChannels.get(name);
+    if (!channel) {
+      channel = createConsoleChannel(name, process.env.NOTIFY_LOG_FILE);
+      consoleChannels.set(name, channel);
+    }
+    return channel;
+  }
+
+  switch (name) {
+    case "sms": {
+      const sender = getTwilioSender();
+      return sender ? createSmsChannel(sender) : null;
+    }
+    case "email": {
+      const config = getSmtpConfig();
+      return config ? createEmailChannel(config) : null;
+    }
+    case "webhook":
+      return createWebhookChannel();
+  }
+}
+
+/**
+ * Get the current household's owners who receive booking alerts. Households
+ * other than the default one list theirs in their notifyRecipients.
+ *
+ * ALERT_TO           comma-separated phone numbers that get every alert by SMS
+ * NOTIFY_RECIPIENTS  JSON array of {name?, channel, address, messageTypes?}
+ */
+export function getOwnerRecipients(): NotificationRecipient[] {
+  const household = currentHousehold();
+  if (household.ownerKeyHash) {
+    return household.notifyRecipients || [];
+  }
+
+  const recipients: NotificationRecipient[] = [];
+
+  const alertTo = process.env.ALERT_TO;
+  if (alertTo) {
+    for (const num of alertTo.split(",")) {
+      if (num.trim()) {
+        recipients.push({ channel: "sms", address: num.trim() });
+      }
+    }
+  }
+
+  const configured = process.env.NOTIFY_RECIPIENTS;
+  if (configured) {
+    try {
+      recipients.push(...z.array(notificationRecipientSchema).parse(JSON.parse(configured)));
+    } catch (error) {
+      console.error("Invalid NOTIFY_RECIPIENTS, ignoring it:", error);
+    }
+  }
+
+  return recipients;
+}
+
+/**
+ * Send a message unless the identical message was already sent to the
+ * recipient on the same channel, or the recipient unsubscribed from texts.
+ * Every SMS goes through here so unsubscribed numbers are never texted.
+ * @param channel The channel to send on
+ * @param to The recipient's address
+ * @param message The message to send
+ * @returns True if the message was sent, false if skipped or suppressed
+ */
+export async function deliver(
+  channel: NotificationChannel,
+  to: string,
+  message: NotificationMessage,
+): Promise<boolean> {
+  // Check if this exact message was already sent to this recipient
+  if (await isMessageDuplicate(channel.name, to, message.body)) {
+    console.log(
+      `Skipping duplicate ${message.messageType} ${channel.name} message to ${maskAddress(to)}`,
+    );
+    return false;
+  }
+
+  // Withhold texts from numbers that replied STOP, keeping a record of why
+  if (channel.name === "sms") {
+    const suppressedReason = await getSmsSuppressionReason(to);
+    if (suppressedReason) {
+      console.log(`Suppressed ${message.messageType} SMS to ${maskAddress(to)}: ${suppressedReason}`);
+      await recordDelivery(channel.name, to, message, suppressedReason);
+      return false;
+    }
+  }
+
+  await channel.send(to, message);
+
+  // Record this message in the delivery log
+  await recordDelivery(channel.name, to, message);
+
+  return true;
+}
+
+/**
+ * Send a message to every owner who wants this message type
+ * @param message The message to send
+ * @returns True if every delivery succeeded or was skipped as a duplicate
+ */
+export async function notifyOwners(message: NotificationMessage): Promise<boolean> {
+  const recipients = getOwnerRecipients().filter(
+    (recipient) =>
+      !recipient.messageTypes || recipient.messageTypes.includes(message.messageType),
+  );
+
+  if (recipients.length === 0) {
+    console.error(`No owner recipients configured for ${message.messageType} alerts`);
+    return false;
+  }
+
+  console.log(
+    `Sending owner notification: Type=${message.messageType}, Message="${message.body}"`,
+  );
+
+  const results = await Promise.all(
+    recipients.map(async (recipient) => {
+      const channel = getChannel(recipient.channel);
+      if (!channel) {
+        console.error(`Missing ${recipient.channel} configuration`);
+        return false;
+      }
+
+      try {
+        await deliver(channel, recipient.address, message);
+        return true;
+      } catch (error) {
+        console.error(
+          `Error sending ${recipient.channel} notification to ${maskAddress(recipient.address)}:`,
+          error,
+        );
+        return false;
+      }
+    }),
+  );
+
+  return results.every(Boolean);
+}
+
+/**
+ * Text a walker about their own walk. Walkers only give us a phone number,
+ * so these always go by SMS.
+ * @param phone The walker's phone number
+ * @param message The message to send
+ * @returns True if the message was sent, false if skipped or it failed
+ */
+async function notifyWalker(phone: string, message: NotificationMessage): Promise<boolean> {
+  const channel = getChannel("sms");
+  if (!channel) {
+    console.error("Missing sms configuration");
+    return false;
+  }
+
+  try {
+    return await deliver(channel, phone, message);
+  } catch (error) {
+    // Log but don't fail if walker notification fails
+    console.error(`Failed to send ${message.messageType} to walker:`, error);
+    return false;
+  }
+}
+
+// Notify the owners of a booking or cancellation, and confirm bookings to the walker
+export async function notifySlotChange(
+  action: "book" | "cancel",
+  slot: WalkingSlot,
+): Promise<boolean> {
+  const { petName } = currentHousehold();
+
+  // Format date and time
+  const formattedDate = formatDate(slot.date);
+  const formattedTime = formatTime(slot.time);
+
+  const delivered = await notifyOwners(
+    action === "book"
+      ? {
+          messageType: action,
+          subject: `Walk booked: ${slot.name}, ${formattedDate} at ${formattedTime}`,
+          body: `${slot.name} booked ${formattedDate} at ${formattedTime}. Notes: ${slot.notes || "—"}`,
+          slot,
+        }
+      : {
+          messageType: action,
+          subject: `Walk canceled: ${slot.name}, ${formattedDate} at ${formattedTime}`,
+          body: `${slot.name} canceled ${formattedDate} at ${formattedTime}.`,
+          slot,
+        },
+  );
+
+  // Send confirmation to walker if phone number is provided
+  if (slot.phone && action === "book") {
+    await notifyWalker(slot.phone, {
+      messageType: "walker_confirmation",
+      subject: "Walk confirmed",
+      body: `Your walk with ${petName} is confirmed for ${formattedDate} at ${formattedTime}. Thanks for helping walk ${petName}!`,
+      slot,
+    });
+  }
+
+  return delivered;
+}
+
+/**
+ * Tell the owners a walker is looking for cover (or no longer is), and once
+ * someone takes the walk over, tell both walkers too
+ * @param action "request" or "withdraw" a cover request, or "claim" the walk
+ * @param slot The slot as it is now
+ * @param previous For claims, the slot before it changed hands
+ * @returns True if the owner notifications were delivered
+ */
+export async function notifyCoverChange(
+  action: "request" | "withdraw" | "claim",
+  slot: WalkingSlot,
+  previous?: WalkingSlot,
+): Promise<boolean> {
+  const { petName } = currentHousehold();
+  const when = `${formatDate(slot.date)} at ${formatTime(slot.time)}`;
+
+  if (action === "request") {
+    return notifyOwners({
+      messageType: "cover_request",
+      subject: `Cover needed: ${slot.name}, ${when}`,
+      body: `${slot.name} can't make their walk on ${when} and is looking for someone to cover it.`,
+      slot,
+    });
+  }
+  if (action === "withdraw" || !previous) {
+    return notifyOwners({
+      messageType: "cover_withdraw",
+      subject: `Cover no longer needed: ${slot.name}, ${when}`,
+      body: `${slot.name} can make their walk on ${when} after all.`,
+      slot,
+    });
+  }
+
+  const delivered = await notifyOwners({
+    messageType: "cover_claim",
+    subject: `Walk covered: ${slot.name} for ${previous.name}, ${when}`,
+    body: `${slot.name} is covering ${previous.name}'s walk on ${when}.`,
+    slot,
+  });
+
+  if (previous.phone) {
+    await notifyWalker(previous.phone, {
+      messageType: "cover_claimed",
+      subject: "Your walk is covered",
+      body: `Good news: ${slot.name} is covering your walk with ${petName} on ${when}.`,
+      slot,
+    });
+  }
+  if (slot.phone) {
+    await notifyWalker(slot.phone, {
+      messageType: "cover_confirmation",
+      subject: "Walk confirmed",
+      body: `You're covering ${previous.name}'s walk with ${petName} on ${when}. Thanks for helping walk ${petName}!`,
+      slot,
+    });
+  }
+
+  return delivered;
+}
+
+/**
+ * Text a waitlisted walker that a walk freed up and is held for them. The
+ * hold's expiry is part of the text, so a later hold on the same walk isn't
+ * mistaken for a duplicate.
+ * @param entry The waitlist entry, with the held time set
+ * @param baseUrl Public URL of the app for the booking link, if known
+ * @returns True if the text was sent
+ */
+export async function notifyWaitlistHold(entry: WaitlistEntry, baseUrl?: string): Promise<boolean> {
+  if (!entry.phone || !entry.heldTime || !entry.holdExpiresAt) {
+    return false;
+  }
+
+  const { petName } = currentHousehold();
+
+  const when = `${formatDate(entry.date)} at ${formatTime(entry.heldTime)}`;
+  const until = formatTime(toDateTimeET(new Date(entry.holdExpiresAt * 1000)).time);
+  const bookIt = baseUrl
+    ? `Book it at ${baseUrl}${householdPath()}/?date=${entry.date}&time=${entry.heldTime} or reply BOOK ${entry.date} ${formatTime(entry.heldTime)}`
+    : `Reply BOOK ${entry.date} ${formatTime(entry.heldTime)} to take it`;
+
+  return notifyWalker(entry.phone, {
+    messageType: "waitlist_hold",
+    subject: "A walk opened up",
+    body: `A walk with ${petName} opened up on ${when} and it's held for you until ${until}. ${bookIt}.`,
+    date: entry.date,
+  });
+}
+
+/**
+ * Text a confirmation code to a number given for a walker. Texting it back
+ * lets the number run text commands for the walker.
+ * @param phone The number to confirm
+ * @param walkerName The walker the number was given for
+ * @param code The code to text back
+ * @returns True if the code was sent
+ */
+export async function notifyPhoneConfirmation(phone: string, walkerName: string, code: string): Promise<boolean> {
+  const { petName } = currentHousehold();
+  return notifyWalker(phone, {
+    messageType: "phone_confirmation",
+    subject: "Confirm your number",
+    body: `Text ${code} back to confirm this is ${walkerName}'s number for booking walks with ${petName} by text. The code works for 15 minutes.`,
+  });
+}
+
+// Short weekday names for recurring walk messages
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Send one summary to the owners for a whole recurring series
+export async function notifySeriesChange(
+  action: "book" | "cancel",
+  series: RecurringSeries,
+  slots: WalkingSlot[],
+): Promise<boolean> {
+  // Delivery records are tied to the first affected slot
+  if (slots.length === 0) {
+    return true;
+  }
+
+  const { petName } = currentHousehold();
+
+  const days = series.weekdays.map((day) => WEEKDAY_NAMES[day]).join("/");
+  const formattedTime = formatTime(series.time);
+  const count = `${slots.length} ${slots.length === 1 ? "walk" : "walks"}`;
+
+  const delivered = await notifyOwners(
+    action === "book"
+      ? {
+          messageType: "series_book",
+          subject: `Weekly walks booked: ${series.name}, ${days} at ${formattedTime}`,
+          body: `${series.name} booked every ${days} at ${formattedTime} starting ${formatDate(slots[0].date)} (${count}). Notes: ${series.notes || "—"}`,
+          slot: slots[0],
+        }
+      : {
+          messageType: "series_cancel",
+          subject: `Weekly walks canceled: ${series.name}, ${days} at ${formattedTime}`,
+          body: `${series.name} canceled their ${days} ${formattedTime} walks from ${formatDate(slots[0].date)} (${count}).`,
+          slot: slots[0],
+        },
+  );
+
+  // Send a single confirmation to the walker
+  if (series.phone && action === "book") {
+    await notifyWalker(series.phone, {
+      messageType: "walker_confirmation",
+      subject: "Weekly walks confirmed",
+      body: `Your walks with ${petName} every ${days} at ${formattedTime} are confirmed (${count}, starting ${formatDate(slots[0].date)}). Thanks for helping walk ${petName}!`,
+      slot: slots[0],
+    });
+  }
+
+  return delivered;
+}
+
+/**
+ * Remind a walker of an upcoming walk. The message text is fixed per slot,
+ * so the delivery log dedup stops repeat reminders across restarts.
+ * @param channel The channel to send the reminder on
+ * @param slot The upcoming walking slot
+ * @param phone The walker's phone number
+ * @returns True if a reminder was sent, false if one was already sent
+ */
+export async function sendWalkReminder(
+  channel: NotificationChannel,
+  slot: WalkingSlot,
+  phone: string,
+): Promise<boolean> {
+  const { petName } = currentHousehold();
+  return deliver(channel, phone, {
+    messageType: "reminder",
+    subject: "Walk reminder",
+    body: `Reminder: you're walking ${petName} ${formatDate(slot.date)} at ${formatTime(slot.time)}. Thanks for helping walk ${petName}!`,
+    slot,
+  });
+}
+
+// One line of the daily digest, e.g. "9:00 AM Sam: pee & poop, high energy, 1.2 mi (park loop)"
+function describeWalk(slot: WalkingSlot, report?: WalkReport): string {
+  const when = `${formatTime(slot.time)} ${slot.name}`;
+  if (!report) {
+    return `${when}: ${slot.checkedOutAt ? "walked, no report" : "no report"}`;
+  }
+
+  const potty = [report.peed && "pee", report.pooped && "poop"].filter(Boolean).join(" & ") || "no potty";
+  const details = [potty, `${report.energy} energy`];
+  if (report.distanceMiles !== undefined) {
+    details.push(`${report.distanceMiles} mi${report.route ? ` (${report.route})` : ""}`);
+  } else if (report.route) {
+    details.push(report.route);
+  }
+
+  const line = `${when}: ${details.join(", ")}`;
+  return report.incidents ? `${line}. Incident: ${report.incidents}` : line;
+}
+
+/**
+ * Send the owners a summary of a day's walks and how they went. A report
+ * filed after the digest went out changes the text, so a later digest for
+ * the same day isn't mistaken for a duplicate.
+ * @param date The day in YYYY-MM-DD format
+ * @param slots The day's booked walks
+ * @param reports The day's walk reports
+ * @returns True if every owner was notified, false if there were no walks
+ */
+export async function notifyDailyDigest(
+  date: string,
+  slots: WalkingSlot[],
+  reports: WalkReport[],
+): Promise<boolean> {
+  if (slots.length === 0) {
+    return false;
+  }
+
+  const { petName } = currentHousehold();
+
+  const reportsByTime = new Map(reports.map((report) => [report.time, report]));
+  const lines = [...slots]
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .map((slot) => describeWalk(slot, reportsByTime.get(slot.time)));
+
+  return notifyOwners({
+    messageType: "daily_digest",
+    subject: `${petName}'s walks on ${formatDate(date)}`,
+    body: `${petName}'s walks on ${formatDate(date)}:\n${lines.join("\n")}`,
+    date,
+  });
+}
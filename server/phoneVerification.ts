@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import { Walker, WalkingSlot } from "@shared/schema";
+import { storage } from "./storage";
+import { isSlotOwner } from "./auth";
+import { normalizePhone } from "./smsConsent";
+import { notifyPhoneConfirmation } from "./notifications";
+import { currentHousehold } from "./householdContext";
+
+// How long a texted confirmation code can be texted back
+const CODE_TTL_MS = 15 * 60 * 1000;
+
+type PendingCode = {
+  walkerId: number;
+  phone: string;
+  code: string;
+  expiresAt: number;   // Milliseconds since the epoch
+};
+
+// Codes waiting to be texted back, by household and normalized phone number.
+// Like the login limits, these only live in this server process.
+const pendingCodes = new Map<string, PendingCode>();
+
+function pendingKey(phone: string): string {
+  return `${currentHousehold().id}:${normalizePhone(phone)}`;
+}
+
+// Forget codes that can no longer be used
+function pruneExpiredCodes(now: number): void {
+  pendingCodes.forEach((pending, key) => {
+    if (pending.expiresAt <= now) {
+      pendingCodes.delete(key);
+    }
+  });
+}
+
+/**
+ * Text a confirmation code to the phone number given with a booking, unless
+ * it's already the walker's verified number. Only the browser holding the
+ * slot's walker token can ask, since anyone can type a walker's name.
+ * @param slot The slot just booked, with the phone number given for it
+ * @param ownerToken The walker token the booking browser sent or was issued
+ * @param now The current time in milliseconds
+ * @returns True if a code was sent
+ */
+export async function startPhoneConfirmation(
+  slot: WalkingSlot,
+  ownerToken: string,
+  now = Date.now(),
+): Promise<boolean> {
+  if (!slot.phone || !slot.walkerId || !isSlotOwner(slot.ownerId, ownerToken)) {
+    return false;
+  }
+
+  const walker = await storage.getWalker(slot.walkerId);
+  if (!walker) {
+    return false;
+  }
+  if (walker.phoneVerified && walker.phone && normalizePhone(walker.phone) === normalizePhone(slot.phone)) {
+    return false;
+  }
+
+  pruneExpiredCodes(now);
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, "0");
+  pendingCodes.set(pendingKey(slot.phone), {
+    walkerId: walker.id,
+    phone: slot.phone,
+    code,
+    expiresAt: now + CODE_TTL_MS,
+  });
+
+  return notifyPhoneConfirmation(slot.phone, walker.name, code);
+}
+
+/**
+ * Verify the sender's number for the walker it was given for, if the code
+ * it texted is the one sent to it
+ * @param phone The sender's phone number
+ * @param code The six-digit code they texted
+ * @param now The current time in milliseconds
+ * @returns The walker now trusting the number, or null if the code doesn't match
+ */
+export async function confirmPhoneCode(
+  phone: string,
+  code: string,
+  now = Date.now(),
+): Promise<Walker | null> {
+  const key = pendingKey(phone);
+  const pending = pendingCodes.get(key);
+  if (!pending || pending.expiresAt <= now || pending.code !== code) {
+    return null;
+  }
+
+  pendingCodes.delete(key);
+  return storage.verifyWalkerPhone(pending.walkerId, pending.phone);
+}
@@ -0,0 +1,77 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Where walk photo files are kept, e.g. local disk or an S3-compatible bucket
+export interface PhotoStore {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null if nothing is stored under the key
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Create a photo store that keeps files in a local directory, with keys
+ * used as paths relative to it
+ * @param dir The directory to store photos in, created as needed
+ */
+export function createLocalPhotoStore(dir: string): PhotoStore {
+  const root = path.resolve(dir);
+
+  // Keys are generated by the server, but never let one escape the directory
+  const toPath = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid photo key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+    async put(key, data) {
+      const filePath = toPath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(toPath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(toPath(key), { force: true });
+    },
+  };
+}
+
+let photoStore: PhotoStore | null = null;
+
+/**
+ * Get the configured photo store
+ *
+ * PHOTO_STORE  backend to keep photos in (default and only option so far: local)
+ * PHOTO_DIR    directory for the local backend (default uploads/photos)
+ *
+ * @returns The store, or null if PHOTO_STORE names an unknown backend
+ */
+export function getPhotoStore(): PhotoStore | null {
+  if (photoStore) {
+    return photoStore;
+  }
+
+  const backend = process.env.PHOTO_STORE || "local";
+  switch (backend) {
+    case "local":
+      photoStore = createLocalPhotoStore(process.env.PHOTO_DIR || "uploads/photos");
+      return photoStore;
+    default:
+      console.error(`Unknown PHOTO_STORE "${backend}"`);
+      return null;
+  }
+}
@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { WalkingSlot, WalkPhoto, SlotPhoto, MAX_PHOTOS_PER_WALK } from "@shared/schema";
+import { canReport } from "@shared/walkStatus";
+import { storage } from "./storage";
+import { getPhotoStore, PhotoStore } from "./photoStore";
+import { toDateTimeET } from "./dates";
+import { householdPath } from "./householdContext";
+
+// Longest side of a stored photo, in pixels
+const PHOTO_SIZE = 1600;
+
+// Side of the square thumbnails shown on slot cards
+const THUMBNAIL_SIZE = 240;
+
+// A photo upload that can't be accepted, with the HTTP status to report
+export class PhotoError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PhotoError";
+  }
+}
+
+// The configured photo store, or a 503 if there isn't one
+function requirePhotoStore(): PhotoStore {
+  const store = getPhotoStore();
+  if (!store) {
+    throw new PhotoError("Photo uploads aren't set up", 503);
+  }
+  return store;
+}
+
+/**
+ * Resize an uploaded image to a stored photo and a square thumbnail, both
+ * JPEG. Phone photos are turned upright from their EXIF orientation, and
+ * the rest of the metadata (including location) is dropped.
+ * @param image The uploaded image file
+ * @throws PhotoError with status 400 if the file isn't a readable image
+ */
+async function resizePhoto(image: Buffer): Promise<{ photo: Buffer; thumbnail: Buffer }> {
+  try {
+    const upright = sharp(image).rotate();
+    const [photo, thumbnail] = await Promise.all([
+      upright.clone()
+        .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toBuffer(),
+      upright.clone()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+        .jpeg({ quality: 75 })
+        .toBuffer(),
+    ]);
+    return { photo, thumbnail };
+  } catch (error) {
+    throw new PhotoError("That file isn't an image we can read", 400);
+  }
+}
+
+/**
+ * Add a photo to a walk once it's over, storing a resized copy and a thumbnail
+ * @param slot The slot, checked to belong to the walker
+ * @param image The uploaded image file
+ * @returns The stored photo
+ * @throws PhotoError if the walk isn't over, already has the most photos
+ * allowed, or the file isn't an image
+ */
+export async function addSlotPhoto(slot: WalkingSlot, image: Buffer): Promise<WalkPhoto> {
+  const store = requirePhotoStore();
+  const now = new Date();
+
+  if (!canReport(slot, toDateTimeET(now))) {
+    throw new PhotoError("Photos can be added once the walk is over", 409);
+  }
+
+  const existing = await storage.getWalkPhotos(slot.date, slot.time);
+  if (existing.length >= MAX_PHOTOS_PER_WALK) {
+    throw new PhotoError(`A walk can have at most ${MAX_PHOTOS_PER_WALK} photos`, 409);
+  }
+
+  const { photo, thumbnail } = await resizePhoto(image);
+
+  // Random file names, which photo URLs include, so photos can't be found
+  // by counting through ids
+  const baseKey = `${slot.date}/${slot.time}/${crypto.randomUUID()}`;
+  const key = `${baseKey}.jpg`;
+  const thumbnailKey = `${baseKey}-thumb.jpg`;
+  await store.put(key, photo, "image/jpeg");
+  await store.put(thumbnailKey, thumbnail, "image/jpeg");
+
+  try {
+    return await storage.addWalkPhoto({
+      date: slot.date,
+      time: slot.time,
+      name: slot.name,
+      walkerId: slot.walkerId,
+      key,
+      thumbnailKey,
+      timestamp: Math.floor(now.getTime() / 1000),
+    });
+  } catch (error) {
+    // Don't leave files behind for a photo that was never recorded
+    await Promise.all([store.delete(key), store.delete(thumbnailKey)])
+      .catch(err => console.error("Photo cleanup error:", err));
+    throw error;
+  }
+}
+
+// The random part of a photo's file name
+function photoToken(key: string): string {
+  return key.slice(key.lastIndexOf("/") + 1).replace(/\.jpg$/, "");
+}
+
+/**
+ * Find a photo from its URL
+ * @param id The photo's id
+ * @param token The random token from the photo's URL
+ * @returns The photo, or null if there's none with that id and token
+ */
+export async function findPhoto(id: number, token: string): Promise<WalkPhoto | null> {
+  const photo = await storage.getWalkPhoto(id);
+  return photo && photoToken(photo.key) === token ? photo : null;
+}
+
+/**
+ * Get the image file of a stored photo
+ * @param photo The stored photo
+ * @param thumbnail True for the thumbnail instead of the full photo
+ * @returns The JPEG image, or null if the file is missing from the store
+ */
+export async function getPhotoImage(photo: WalkPhoto, thumbnail: boolean): Promise<Buffer | null> {
+  return requirePhotoStore().get(thumbnail ? photo.thumbnailKey : photo.key);
+}
+
+// Describe a stored photo for browsers, with URLs served by the household's /api/photos
+export function toSlotPhoto({ key, thumbnailKey, ...photo }: WalkPhoto): SlotPhoto {
+  const base = `/api${householdPath()}/photos/${photo.id}/${photoToken(key)}`;
+  return {
+    ...photo,
+    url: base,
+    thumbnailUrl: `${base}/thumbnail`,
+  };
+}
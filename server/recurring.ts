@@ -0,0 +1,123 @@
+import {
+  InsertSeries,
+  WalkingSlot,
+  RecurringSeries,
+  SkippedDate,
+  MAX_SERIES_OCCURRENCES,
+  DEFAULT_WALK_MINUTES,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { addDays, getWeekday } from "./dates";
+import { getAvailability } from "./availability";
+import { BookingError, reserveSlot, recordBooking } from "./bookings";
+import { Availability, isBookableTime, findOverlap } from "@shared/availability";
+
+// Never look further ahead than this when expanding a rule
+const MAX_SERIES_DAYS = 366;
+
+/**
+ * Expand a recurring rule into the dates it covers
+ * @param rule The weekdays, start date and either end date or occurrence count
+ * @returns The matching YYYY-MM-DD dates in order
+ */
+export function expandSeriesDates(
+  rule: Pick<InsertSeries, "weekdays" | "startDate" | "endDate" | "occurrences">,
+): string[] {
+  const dates: string[] = [];
+  const limit = Math.min(rule.occurrences ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  for (let i = 0; i < MAX_SERIES_DAYS && dates.length < limit; i++) {
+    const date = addDays(rule.startDate, i);
+    if (rule.endDate && date > rule.endDate) {
+      break;
+    }
+    if (rule.weekdays.includes(getWeekday(date))) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+// Why an occurrence can't be booked at the series' time, or null if it can
+function unbookableReason(availability: Availability, date: string, time: string): string | null {
+  if (availability.blackoutDates.includes(date)) {
+    return "No walks that day";
+  }
+  if (!isBookableTime(availability, date, time)) {
+    return "Outside the walking window";
+  }
+  return null;
+}
+
+/**
+ * Book every occurrence of a recurring series that is still free. Each one is
+ * recorded like a single booking; the caller notifies the owners once for
+ * the whole series.
+ * @param seriesData The validated series request
+ * @param ownerId Public id of the booking browser's walker token
+ * @returns The stored series, the slots it booked and the dates it skipped
+ *          with the reason, or null if every bookable occurrence was already taken
+ * @throws BookingError if no occurrence is inside the walking window
+ */
+export async function bookSeries(
+  seriesData: InsertSeries,
+  ownerId: string,
+): Promise<{ series: RecurringSeries; booked: WalkingSlot[]; skipped: SkippedDate[] } | null> {
+  // Leave out blackout dates and days the time isn't offered
+  const availability = getAvailability();
+  const dates: string[] = [];
+  const skipped: SkippedDate[] = [];
+  for (const date of expandSeriesDates(seriesData)) {
+    const reason = unbookableReason(availability, date, seriesData.time);
+    if (reason) {
+      skipped.push({ date, reason });
+    } else {
+      dates.push(date);
+    }
+  }
+  if (dates.length === 0) {
+    throw new BookingError("None of these walks fall inside the walking window", 400);
+  }
+
+  // Don't record a rule that can't book anything
+  const duration = seriesData.duration || DEFAULT_WALK_MINUTES;
+  const nearby = await storage.getSlotsBetween(
+    addDays(dates[0], -1),
+    addDays(dates[dates.length - 1], 1),
+  );
+  if (dates.every((date) => findOverlap(nearby, { date, time: seriesData.time, duration }))) {
+    return null;
+  }
+
+  const series = await storage.addSeries(seriesData, ownerId);
+  const booked: WalkingSlot[] = [];
+
+  for (const date of dates) {
+    try {
+      const slot = await reserveSlot(
+        {
+          date,
+          time: seriesData.time,
+          duration,
+          name: seriesData.name,
+          phone: seriesData.phone,
+          notes: seriesData.notes,
+        },
+        { ownerId, seriesId: series.id },
+      );
+      recordBooking(slot);
+      booked.push(slot);
+    } catch (error) {
+      // Someone else already has this occurrence, or a walk overlapping it
+      if (!(error instanceof BookingError && error.status === 409)) {
+        throw error;
+      }
+      skipped.push({ date, reason: error.message });
+    }
+  }
+
+  // Report the skipped dates in calendar order
+  skipped.sort((a, b) => a.date.localeCompare(b.date));
+  return { series, booked, skipped };
+}
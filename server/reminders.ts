@@ -0,0 +1,190 @@
+import { storage } from "./storage";
+import { toDateTimeET } from "./dates";
+import { forEachHousehold } from "./households";
+import {
+  getChannel,
+  createConsoleChannel,
+  sendWalkReminder,
+  NotificationChannel,
+} from "./notifications";
+
+// Source of the current time, replaceable with a fake clock in test mode
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * A clock that starts at a fixed instant and only moves when advanced
+ * @param start The initial time
+ */
+export function createFakeClock(start: Date): Clock & { advance(ms: number): void } {
+  let current = start.getTime();
+  return {
+    now: () => new Date(current),
+    advance: (ms: number) => {
+      current += ms;
+    },
+  };
+}
+
+export type ReminderSchedulerOptions = {
+  leadMinutes: number;   // How long before a walk to send the reminder
+  intervalMs: number;    // How often to look for upcoming walks
+  clock: Clock;
+  channel: NotificationChannel;
+};
+
+export type ReminderScheduler = {
+  start(): void;
+  stop(): void;
+  runOnce(): Promise<number>;
+};
+
+// Combine a date and HHMM time into a sortable key
+function toSortKey(date: string, time: string): string {
+  return `${date}${time}`;
+}
+
+/**
+ * Create a scheduler that texts walkers shortly before their walks
+ * @param options Lead time, polling interval, clock and channel
+ * @returns Controls to start and stop polling, or run a single pass
+ */
+export function createReminderScheduler(options: ReminderSchedulerOptions): ReminderScheduler {
+  const { leadMinutes, intervalMs, clock, channel } = options;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  // Send reminders for every walk of the current household starting within the lead window
+  const runOnce = async (): Promise<number> => {
+    const now = clock.now();
+    const windowStart = toDateTimeET(now);
+    const windowEnd = toDateTimeET(new Date(now.getTime() + leadMinutes * 60 * 1000));
+
+    const slots = await storage.getSlotsBetween(windowStart.date, windowEnd.date);
+    const upcoming = slots.filter((slot) => {
+      const key = toSortKey(slot.date, slot.time);
+      return (
+        key > toSortKey(windowStart.date, windowStart.time) &&
+        key <= toSortKey(windowEnd.date, windowEnd.time)
+      );
+    });
+
+    if (upcoming.length === 0) {
+      return 0;
+    }
+
+    // Fall back to the walker record when the slot has no phone
+    const walkers = await storage.getAllWalkers();
+    const walkerPhones = new Map(walkers.map((walker) => [walker.id, walker.phone]));
+
+    let sentCount = 0;
+    for (const slot of upcoming) {
+      const phone = slot.phone || (slot.walkerId && walkerPhones.get(slot.walkerId));
+      if (!phone) {
+        continue;
+      }
+
+      try {
+        if (await sendWalkReminder(channel, slot, phone)) {
+          sentCount++;
+        }
+      } catch (error) {
+        console.error(`Failed to send reminder for ${slot.date} ${slot.time}:`, error);
+      }
+    }
+
+    return sentCount;
+  };
+
+  // Skip a tick if the previous pass is still running
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let sentCount = 0;
+      await forEachHousehold(async () => {
+        sentCount += await runOnce();
+      });
+      if (sentCount > 0) {
+        console.log(`Sent ${sentCount} walk reminder(s)`);
+      }
+    } catch (error) {
+      console.error("Reminder scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    start() {
+      if (timer) return;
+      timer = setInterval(tick, intervalMs);
+      tick();
+    },
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+    runOnce,
+  };
+}
+
+/**
+ * Start the reminder scheduler from environment settings
+ *
+ * REMINDER_MINUTES_BEFORE  minutes before a walk to remind (default 60, 0 disables)
+ * REMINDER_TEST_MODE       "true" to log messages through the console channel
+ * REMINDER_FAKE_NOW        in test mode, an ISO time the clock starts from
+ *
+ * @returns The running scheduler, or null if reminders are disabled
+ */
+export function startReminderScheduler(): ReminderScheduler | null {
+  const leadMinutes = parseInt(process.env.REMINDER_MINUTES_BEFORE || "60");
+  if (!(leadMinutes > 0)) {
+    console.log("Walk reminders disabled");
+    return null;
+  }
+
+  const testMode = process.env.REMINDER_TEST_MODE === "true";
+  let clock = systemClock;
+  let channel: NotificationChannel | null;
+
+  if (testMode) {
+    // Logged under its own name, so test reminders don't count as sent texts
+    channel = createConsoleChannel("console", process.env.NOTIFY_LOG_FILE);
+
+    // The fake clock keeps ticking in real time from the configured start
+    const fakeNow = process.env.REMINDER_FAKE_NOW;
+    if (fakeNow) {
+      const offset = new Date(fakeNow).getTime() - Date.now();
+      clock = { now: () => new Date(Date.now() + offset) };
+    }
+  } else {
+    channel = getChannel("sms");
+  }
+
+  if (!channel) {
+    console.error("Missing sms configuration, walk reminders disabled");
+    return null;
+  }
+
+  const scheduler = createReminderScheduler({
+    leadMinutes,
+    intervalMs: 60 * 1000,
+    clock,
+    channel,
+  });
+  scheduler.start();
+
+  console.log(
+    `Walk reminders enabled ${leadMinutes} minutes before each walk${testMode ? " (test mode)" : ""}`,
+  );
+  return scheduler;
+}
@@ -1,27 +1,155 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertSlotSchema, deleteSlotSchema } from "@shared/schema";
-import { sendSmsNotification } from "./twilio";
+import {
+  insertSlotSchema,
+  deleteSlotSchema,
+  updateWalkerSchema,
+  reassignSlotSchema,
+  helpBroadcastSchema,
+  coverRequestSchema,
+  claimSlotSchema,
+  walkCheckSchema,
+  walkReportSchema,
+  uploadPhotoSchema,
+  MAX_PHOTO_BYTES,
+  joinWaitlistSchema,
+  leaveWaitlistSchema,
+  insertSeriesSchema,
+  deleteSeriesSchema,
+  importOptionsSchema,
+  EXPORT_TABLES,
+  ExportTable,
+  WalkingSlot,
+  SlotEvent,
+} from "@shared/schema";
+import { notifySeriesChange, getDeliveryLog } from "./notifications";
+import {
+  bookSlot,
+  cancelSlot,
+  setCoverRequest,
+  claimCover,
+  checkIn,
+  checkOut,
+  submitWalkReport,
+  BookingError,
+} from "./bookings";
+import { bookSeries } from "./recurring";
+import {
+  issueWalkerToken,
+  getOwnerId,
+  checkOwnerKey,
+  rejectLockedOut,
+  isSlotOwner,
+  requireOwner,
+  requireTwilioSignature,
+  getPublicBaseUrl,
+} from "./auth";
+import { handleSmsCommand } from "./smsCommands";
+import { startPhoneConfirmation } from "./phoneVerification";
+import { broadcastHelpNeeded, BroadcastError } from "./broadcast";
+import { joinWaitlist, leaveWaitlist, offerFreedWalk, WaitlistError } from "./waitlist";
+import { handleEventStream, publishSlotEvent } from "./events";
+import { getAvailability } from "./availability";
+import { getWeekCoverage } from "./coverage";
+import { buildCalendar } from "./calendar";
+import { addSlotPhoto, findPhoto, getPhotoImage, toSlotPhoto, PhotoError } from "./photos";
+import { buildBackup, backupToCsv, parseBackup, importBackup, ImportError } from "./backup";
+import { getCurrentDateET, addDays, toDateTimeET } from "./dates";
+import { resolveHousehold, bindHousehold, toPublicHousehold } from "./households";
+import {
+  getCareInstructions,
+  getCareInstructionsHistory,
+  saveCareInstructions,
+  CareInstructionsError,
+} from "./careInstructions";
+import { currentHousehold } from "./householdContext";
 import { ZodError } from "zod";
+import twilio from "twilio";
+import multer from "multer";
 
-/**
- * Get current date in Eastern Time (ET) as YYYY-MM-DD
- */
-function getCurrentDateET(): string {
-  const options: Intl.DateTimeFormatOptions = { 
-    year: 'numeric', 
-    month: '2-digit', 
-    day: '2-digit',
-    timeZone: 'America/New_York' // Eastern Time
-  };
-  
-  return new Intl.DateTimeFormat('fr-CA', options).format(new Date());
+// A numeric id from a URL, or null if it isn't one
+function parseId(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+// Photo uploads are kept in memory until they're resized and stored
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_BYTES, files: 1 },
+}).single("photo");
+
+// Parse a photo upload, reporting oversized or malformed uploads as client errors
+function receivePhoto(req: Request, res: Response, next: NextFunction) {
+  photoUpload(req, res, bindHousehold((err?: unknown) => {
+    if (err instanceof multer.MulterError) {
+      return err.code === "LIMIT_FILE_SIZE"
+        ? res.status(413).json({ error: `Photos must be under ${MAX_PHOTO_BYTES / 1024 / 1024} MB` })
+        : res.status(400).json({ error: err.message });
+    }
+    next(err);
+  }));
+}
+
+// Largest backup file that can be imported
+const MAX_BACKUP_BYTES = 10 * 1024 * 1024;
+
+// Backup files are read in memory
+const backupUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_BACKUP_BYTES, files: 1 },
+}).single("file");
+
+// Parse a backup upload, reporting oversized or malformed uploads as client errors
+function receiveBackup(req: Request, res: Response, next: NextFunction) {
+  backupUpload(req, res, bindHousehold((err?: unknown) => {
+    if (err instanceof multer.MulterError) {
+      return err.code === "LIMIT_FILE_SIZE"
+        ? res.status(413).json({ error: `Backups must be under ${MAX_BACKUP_BYTES / 1024 / 1024} MB` })
+        : res.status(400).json({ error: err.message });
+    }
+    next(err);
+  }));
+}
+
+// Push a batch of slot changes to live views
+function publishSlotEvents(type: SlotEvent["type"], slots: WalkingSlot[]) {
+  for (const slot of slots) {
+    publishSlotEvent(type, slot)
+      .catch(err => console.error('Live update error:', err));
+  }
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // The API, served for the default household at /api and for every
+  // household at /api/h/:householdSlug
+  const api = express.Router();
+
+  // The household's pet, for the page header and texts
+  api.get("/household", (_req: Request, res: Response) => {
+    return res.json(toPublicHousehold(currentHousehold()));
+  });
+
+  // The care instructions walkers read before a walk
+  api.get("/care-instructions", async (_req: Request, res: Response) => {
+    try {
+      return res.json(await getCareInstructions());
+    } catch (error) {
+      console.error("Care instructions fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch care instructions" });
+    }
+  });
+
+  // Live slot booked/cancelled events for open schedule pages
+  api.get("/events", handleEventStream);
+
+  // Bookable walking window, per day of the week, plus blackout dates
+  api.get("/config/availability", (_req: Request, res: Response) => {
+    return res.json(getAvailability());
+  });
+
   // Get schedule for a week
-  app.get("/api/schedule", async (req: Request, res: Response) => {
+  api.get("/schedule", async (req: Request, res: Response) => {
     try {
       // If no start date is provided, default to today in ET timezone
       let startDate = req.query.start as string || getCurrentDateET();
@@ -39,41 +167,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the daily walks each day of a week still needs
+  api.get("/coverage", async (req: Request, res: Response) => {
+    try {
+      const startDate = req.query.start as string || getCurrentDateET();
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+        return res.status(400).json({ error: "Invalid date format. Use YYYY-MM-DD" });
+      }
+
+      res.json(await getWeekCoverage(startDate));
+    } catch (error) {
+      console.error("Coverage fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch coverage" });
+    }
+  });
+
   // Add a new slot
-  app.post("/api/slot", async (req: Request, res: Response) => {
+  api.post("/slot", async (req: Request, res: Response) => {
     try {
       // Validate request body
       const validatedData = insertSlotSchema.parse(req.body);
-      
-      // Check if slot already exists
-      const existingSlot = await storage.getSlot(validatedData.date, validatedData.time);
-      if (existingSlot) {
-        return res.status(400).json({ error: "Slot already booked" });
-      }
 
-      // Add the slot
-      const newSlot = await storage.addSlot(validatedData);
-      
-      // Send SMS notification
-      sendSmsNotification('book', newSlot)
-        .catch(err => console.error('SMS notification error:', err));
+      // Reuse the browser's walker token, or issue one on its first booking
+      const ownerToken = validatedData.ownerToken || issueWalkerToken();
+
+      // Add the slot and notify the owners
+      const newSlot = await bookSlot(validatedData, { ownerId: getOwnerId(ownerToken) });
+
+      // Text a code that lets the given number run text commands for the walker
+      startPhoneConfirmation(newSlot, ownerToken)
+        .catch(err => console.error('Phone confirmation error:', err));
       
-      return res.status(201).json(newSlot);
+      return res.status(201).json({ ...newSlot, ownerToken });
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ error: error.errors });
       }
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Slot booking error:", error);
       res.status(500).json({ error: "Failed to book slot" });
     }
   });
 
   // Delete a slot
-  app.delete("/api/slot", async (req: Request, res: Response) => {
+  api.delete("/slot", async (req: Request, res: Response) => {
     try {
       // Validate request body
       const validatedData = deleteSlotSchema.parse(req.body);
-      const { date, time, name } = validatedData;
+      const { date, time, name, ownerToken, ownerKey } = validatedData;
       
       // Get the slot to check if it exists and for notification
       const slot = await storage.getSlot(date, time);
@@ -82,14 +226,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Slot not found" });
       }
 
-      // Remove the slot
-      await storage.removeSlot(date, time);
-      
-      // Send SMS notification
+      // Only the browser that booked the slot, or an owner, may cancel it
+      if (!isSlotOwner(slot.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who booked this slot can cancel it" });
+      }
+
+      // Remove the slot and notify the owners
       // Include name from request in the notification
-      const notificationSlot = { ...slot, name };
-      sendSmsNotification('cancel', notificationSlot)
-        .catch(err => console.error('SMS notification error:', err));
+      await cancelSlot(slot, name);
       
       return res.status(200).json({ success: true });
     } catch (error) {
@@ -101,8 +245,353 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ask for someone to cover a walk (POST) or take the request back (DELETE)
+  const handleCoverRequest = (requested: boolean) => async (req: Request, res: Response) => {
+    try {
+      const { date, time, ownerToken, ownerKey } = coverRequestSchema.parse(req.body);
+
+      const slot = await storage.getSlot(date, time);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+
+      // Only the browser that booked the slot, or an owner, may hand it off
+      if (!isSlotOwner(slot.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who booked this slot can ask for cover" });
+      }
+
+      return res.json(await setCoverRequest(slot, requested));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Cover request error:", error);
+      res.status(500).json({ error: "Failed to update cover request" });
+    }
+  };
+  api.post("/slot/cover", handleCoverRequest(true));
+  api.delete("/slot/cover", handleCoverRequest(false));
+
+  // Take over a walk whose walker asked for cover
+  api.post("/slot/claim", async (req: Request, res: Response) => {
+    try {
+      const { ownerToken: existingToken, ...claim } = claimSlotSchema.parse(req.body);
+
+      // Reuse the browser's walker token, or issue one on its first booking
+      const ownerToken = existingToken || issueWalkerToken();
+
+      const slot = await claimCover(claim, getOwnerId(ownerToken));
+      return res.json({ ...slot, ownerToken });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Cover claim error:", error);
+      res.status(500).json({ error: "Failed to take over walk" });
+    }
+  });
+
+  // Record the actual start (check-in) or end (check-out) of a walk
+  const handleWalkCheck = (action: "in" | "out") => async (req: Request, res: Response) => {
+    try {
+      const { date, time, ownerToken, ownerKey } = walkCheckSchema.parse(req.body);
+
+      const slot = await storage.getSlot(date, time);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+
+      // Only the browser that booked the slot, or an owner, may check it in or out
+      if (!isSlotOwner(slot.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who booked this slot can check in or out" });
+      }
+
+      return res.json(action === "in" ? await checkIn(slot) : await checkOut(slot));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error(`Check-${action} error:`, error);
+      res.status(500).json({ error: `Failed to check ${action}` });
+    }
+  };
+  api.post("/slot/check-in", handleWalkCheck("in"));
+  api.post("/slot/check-out", handleWalkCheck("out"));
+
+  // Get the photos from a walk
+  api.get("/slot/:date/:time/photos", async (req: Request, res: Response) => {
+    try {
+      const { date, time } = req.params;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{4}$/.test(time)) {
+        return res.status(400).json({ error: "Invalid date or time format. Use YYYY-MM-DD and HHMM" });
+      }
+
+      const photos = await storage.getWalkPhotos(date, time);
+      return res.json(photos.map(toSlotPhoto));
+    } catch (error) {
+      console.error("Photo list error:", error);
+      res.status(500).json({ error: "Failed to fetch photos" });
+    }
+  });
+
+  // Add a photo to a finished walk, sent as multipart form data with the image in "photo"
+  api.post("/slot/:date/:time/photos", receivePhoto, async (req: Request, res: Response) => {
+    try {
+      const { date, time } = req.params;
+      const { ownerToken, ownerKey } = uploadPhotoSchema.parse(req.body || {});
+
+      if (!req.file) {
+        return res.status(400).json({ error: "Attach an image as the photo field" });
+      }
+
+      const slot = await storage.getSlot(date, time);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+
+      // Only the browser that booked the slot, or an owner, may add photos to it
+      if (!isSlotOwner(slot.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who booked this slot can add photos" });
+      }
+
+      const photo = await addSlotPhoto(slot, req.file.buffer);
+      publishSlotEvent('slot_updated', slot)
+        .catch(err => console.error('Live update error:', err));
+      return res.status(201).json(toSlotPhoto(photo));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof PhotoError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Photo upload error:", error);
+      res.status(500).json({ error: "Failed to upload photo" });
+    }
+  });
+
+  // Serve a walk photo, or its thumbnail; the URL needs the photo's random token too
+  const handlePhotoImage = (thumbnail: boolean) => async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid photo id" });
+      }
+      const photo = await findPhoto(id, req.params.token);
+      const image = photo && await getPhotoImage(photo, thumbnail);
+      if (!image) {
+        return res.status(404).json({ error: "Photo not found" });
+      }
+
+      // Stored photos never change, so browsers can keep them
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      return res.type("image/jpeg").send(image);
+    } catch (error) {
+      if (error instanceof PhotoError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Photo fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch photo" });
+    }
+  };
+  api.get("/photos/:id/:token", handlePhotoImage(false));
+  api.get("/photos/:id/:token/thumbnail", handlePhotoImage(true));
+
+  // Get the walk reports for a week
+  api.get("/reports", async (req: Request, res: Response) => {
+    try {
+      const startDate = req.query.start as string || getCurrentDateET();
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+        return res.status(400).json({ error: "Invalid date format. Use YYYY-MM-DD" });
+      }
+
+      return res.json(await storage.getWalkReportsBetween(startDate, addDays(startDate, 6)));
+    } catch (error) {
+      console.error("Walk report fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch walk reports" });
+    }
+  });
+
+  // File or update the report for a finished walk
+  api.post("/slot/report", async (req: Request, res: Response) => {
+    try {
+      const { date, time, ownerToken, ownerKey, ...report } = walkReportSchema.parse(req.body);
+
+      const slot = await storage.getSlot(date, time);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+
+      // Only the browser that booked the slot, or an owner, may report on it
+      if (!isSlotOwner(slot.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who booked this slot can report on it" });
+      }
+
+      return res.json(await submitWalkReport(slot, report));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Walk report error:", error);
+      res.status(500).json({ error: "Failed to save walk report" });
+    }
+  });
+
+  // Get the waitlists for a week, without phone numbers
+  api.get("/waitlist", async (req: Request, res: Response) => {
+    try {
+      const startDate = req.query.start as string || getCurrentDateET();
+
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+        return res.status(400).json({ error: "Invalid date format. Use YYYY-MM-DD" });
+      }
+
+      const entries = await storage.getWaitlistBetween(startDate, addDays(startDate, 6));
+      return res.json(entries.map(({ phone, ...entry }) => entry));
+    } catch (error) {
+      console.error("Waitlist fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch waitlist" });
+    }
+  });
+
+  // Join the waitlist for a full day
+  api.post("/waitlist", async (req: Request, res: Response) => {
+    try {
+      const { ownerToken: existingToken, ...entry } = joinWaitlistSchema.parse(req.body);
+
+      // Reuse the browser's walker token, or issue one on its first booking
+      const ownerToken = existingToken || issueWalkerToken();
+
+      const added = await joinWaitlist(entry, getOwnerId(ownerToken));
+      return res.status(201).json({ ...added, ownerToken });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof WaitlistError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Waitlist join error:", error);
+      res.status(500).json({ error: "Failed to join waitlist" });
+    }
+  });
+
+  // Leave a waitlist, passing any held walk to the next walker
+  api.delete("/waitlist/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid waitlist entry id" });
+      }
+      const { ownerToken, ownerKey } = leaveWaitlistSchema.parse(req.body || {});
+
+      const entry = await storage.getWaitlistEntry(id);
+      if (!entry) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+
+      if (!isSlotOwner(entry.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who joined can leave the waitlist" });
+      }
+
+      await leaveWaitlist(entry);
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Waitlist leave error:", error);
+      res.status(500).json({ error: "Failed to leave waitlist" });
+    }
+  });
+
+  // Book a recurring series of walks
+  api.post("/series", async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertSeriesSchema.parse(req.body);
+
+      // Reuse the browser's walker token, or issue one on its first booking
+      const ownerToken = validatedData.ownerToken || issueWalkerToken();
+
+      const result = await bookSeries(validatedData, getOwnerId(ownerToken));
+      if (!result) {
+        return res.status(409).json({ error: "Every occurrence is already booked" });
+      }
+
+      notifySeriesChange('book', result.series, result.booked)
+        .catch(err => console.error('Notification error:', err));
+      publishSlotEvents('slot_booked', result.booked);
+      startPhoneConfirmation(result.booked[0], ownerToken)
+        .catch(err => console.error('Phone confirmation error:', err));
+
+      return res.status(201).json({ ...result, ownerToken });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof BookingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Series booking error:", error);
+      res.status(500).json({ error: "Failed to book recurring walks" });
+    }
+  });
+
+  // Cancel the remaining walks of a recurring series
+  api.delete("/series/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid series id" });
+      }
+      const { ownerToken, ownerKey } = deleteSeriesSchema.parse(req.body || {});
+
+      const series = await storage.getSeries(id);
+      if (!series) {
+        return res.status(404).json({ error: "Series not found" });
+      }
+
+      if (!isSlotOwner(series.ownerId, ownerToken) && !checkOwnerKey(req, ownerKey)) {
+        return res.status(403).json({ error: "Only the walker who booked this series can cancel it" });
+      }
+
+      // Walks that started or were checked in stay on the record, later ones are cancelled
+      const now = toDateTimeET(new Date());
+      const removed = await storage.endSeries(id, now.date, now.time);
+
+      notifySeriesChange('cancel', series, removed)
+        .catch(err => console.error('Notification error:', err));
+      publishSlotEvents('slot_cancelled', removed);
+      for (const slot of removed) {
+        offerFreedWalk(slot.date, slot.time)
+          .catch(err => console.error('Waitlist error:', err));
+      }
+
+      return res.status(200).json({ success: true, cancelled: removed.length });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Series cancellation error:", error);
+      res.status(500).json({ error: "Failed to cancel recurring walks" });
+    }
+  });
+
   // Get color index for a walker's name
-  app.get("/api/walker-color/:name", async (req: Request, res: Response) => {
+  api.get("/walker-color/:name", async (req: Request, res: Response) => {
     try {
       const { name } = req.params;
       if (!name) {
@@ -118,7 +607,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Search walkers by name (partial match)
-  app.get("/api/walkers/search", async (req: Request, res: Response) => {
+  api.get("/walkers/search", async (req: Request, res: Response) => {
     try {
       const query = req.query.q as string || "";
       const walkers = await storage.searchWalkers(query);
@@ -129,8 +618,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get a walker's public profile; phone numbers stay private
+  api.get("/walkers/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid walker id" });
+      }
+      const walker = await storage.getWalker(id);
+      if (!walker) {
+        return res.status(404).json({ error: "Walker not found" });
+      }
+      return res.json({ id: walker.id, name: walker.name, colorIndex: walker.colorIndex });
+    } catch (error) {
+      console.error("Walker fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch walker" });
+    }
+  });
+  
+  // Get every photo from a walker's walks
+  api.get("/walkers/:id/photos", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid walker id" });
+      }
+      const photos = await storage.getWalkPhotosByWalker(id);
+      return res.json(photos.map(toSlotPhoto));
+    } catch (error) {
+      console.error("Walker photo list error:", error);
+      res.status(500).json({ error: "Failed to fetch photos" });
+    }
+  });
+  
   // Update walker information (automatically happens when booking, but exposed as API for flexibility)
-  app.post("/api/walkers/update", async (req: Request, res: Response) => {
+  api.post("/walkers/update", async (req: Request, res: Response) => {
     try {
       const { name, phone } = req.body;
       
@@ -138,6 +660,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Walker name is required" });
       }
       
+      // Consent to texts is only recorded when a walk is booked, since anyone can call this
       const walker = await storage.updateWalker(name.trim(), phone);
       return res.json(walker);
     } catch (error) {
@@ -146,10 +669,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get the all-time leaderboard
-  app.get("/api/leaderboard/all-time", async (_req: Request, res: Response) => {
+  // Get the all-time leaderboard; ?completed=true counts only finished walks
+  api.get("/leaderboard/all-time", async (req: Request, res: Response) => {
     try {
-      const leaderboard = await storage.getLeaderboardAllTime();
+      const leaderboard = await storage.getLeaderboardAllTime(req.query.completed === "true");
       return res.json(leaderboard);
     } catch (error) {
       console.error("Leaderboard fetch error:", error);
@@ -157,8 +680,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get the next 7 days leaderboard
-  app.get("/api/leaderboard/next-week", async (req: Request, res: Response) => {
+  // Get the next 7 days leaderboard; ?completed=true counts only finished walks
+  api.get("/leaderboard/next-week", async (req: Request, res: Response) => {
     try {
       // If no start date is provided, default to today in ET timezone
       let startDate = req.query.start as string || getCurrentDateET();
@@ -168,7 +691,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid date format. Use YYYY-MM-DD" });
       }
 
-      const leaderboard = await storage.getLeaderboardNextWeek(startDate);
+      const leaderboard = await storage.getLeaderboardNextWeek(startDate, req.query.completed === "true");
       return res.json(leaderboard);
     } catch (error) {
       console.error("Next week leaderboard fetch error:", error);
@@ -176,6 +699,284 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Slots included in calendar feeds: recent history plus the year ahead
+  const getCalendarSlots = () => {
+    const today = getCurrentDateET();
+    return storage.getSlotsBetween(addDays(today, -60), addDays(today, 365));
+  };
+
+  // iCalendar feed of the whole schedule
+  api.get("/calendar.ics", async (_req: Request, res: Response) => {
+    try {
+      const slots = await getCalendarSlots();
+      res.type("text/calendar; charset=utf-8");
+      res.send(buildCalendar(slots, `${currentHousehold().petName} Walks`, true));
+    } catch (error) {
+      console.error("Calendar feed error:", error);
+      res.status(500).json({ error: "Failed to build calendar" });
+    }
+  });
+
+  // iCalendar feed of a single walker's walks, by walker id so
+  // subscriptions keep working when the walker is renamed
+  api.get("/calendar/walker/:id.ics", async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid walker id" });
+      }
+      const walker = await storage.getWalker(id);
+      if (!walker) {
+        return res.status(404).json({ error: "Walker not found" });
+      }
+      const slots = (await getCalendarSlots())
+        .filter(slot => slot.walkerId === walker.id);
+
+      res.type("text/calendar; charset=utf-8");
+      res.send(buildCalendar(slots, `${currentHousehold().petName} Walks (${walker.name})`, false));
+    } catch (error) {
+      console.error("Walker calendar feed error:", error);
+      res.status(500).json({ error: "Failed to build calendar" });
+    }
+  });
+
+  // Check the owner key for the admin console login, limiting wrong guesses per address
+  api.post("/admin/login", (req: Request, res: Response) => {
+    if (rejectLockedOut(req, res)) {
+      return;
+    }
+
+    if (!checkOwnerKey(req, req.body?.password)) {
+      return res.status(401).json({ error: "Incorrect password" });
+    }
+    return res.json({ success: true });
+  });
+
+  // List all walkers for the admin console
+  api.get("/admin/walkers", requireOwner, async (_req: Request, res: Response) => {
+    try {
+      const walkers = await storage.getAllWalkers();
+      return res.json(walkers);
+    } catch (error) {
+      console.error("Admin walker list error:", error);
+      res.status(500).json({ error: "Failed to fetch walkers" });
+    }
+  });
+
+  // Edit a walker's name, phone or color index
+  api.put("/admin/walkers/:id", requireOwner, async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid walker id" });
+      }
+      const updates = updateWalkerSchema.parse(req.body);
+
+      // Don't let a rename collide with another walker
+      if (updates.name) {
+        const existing = await storage.findWalker(updates.name);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ error: "A walker with that name already exists" });
+        }
+      }
+
+      const walker = await storage.updateWalkerDetails(id, updates);
+      if (!walker) {
+        return res.status(404).json({ error: "Walker not found" });
+      }
+
+      // A number the owner saved is trusted for text commands
+      if (updates.phone) {
+        return res.json(await storage.verifyWalkerPhone(id, updates.phone));
+      }
+      return res.json(walker);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Admin walker update error:", error);
+      res.status(500).json({ error: "Failed to update walker" });
+    }
+  });
+
+  // Force-cancel any slot
+  api.delete("/admin/slot", requireOwner, async (req: Request, res: Response) => {
+    try {
+      const { date, time } = deleteSlotSchema.pick({ date: true, time: true }).parse(req.body);
+
+      const slot = await storage.getSlot(date, time);
+      if (!slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+
+      await cancelSlot(slot);
+
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Admin slot cancel error:", error);
+      res.status(500).json({ error: "Failed to cancel slot" });
+    }
+  });
+
+  // Reassign a slot to a different walker
+  api.put("/admin/slot", requireOwner, async (req: Request, res: Response) => {
+    try {
+      const { date, time, name, phone } = reassignSlotSchema.parse(req.body);
+
+      const previous = await storage.getSlot(date, time);
+      const slot = previous && await storage.reassignSlot(date, time, name, phone);
+      if (!previous || !slot) {
+        return res.status(404).json({ error: "Slot not found" });
+      }
+
+      // Make sure the new walker has a color
+      await storage.getWalkerColorIndex(name);
+
+      // Live views see the old walker's walk go and the new one's arrive
+      publishSlotEvents('slot_cancelled', [previous]);
+      publishSlotEvents('slot_booked', [slot]);
+
+      return res.json(slot);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      console.error("Admin slot reassign error:", error);
+      res.status(500).json({ error: "Failed to reassign slot" });
+    }
+  });
+
+  // Text every walker that a day still needs walks; dryRun only lists the recipients
+  api.post("/admin/broadcast", requireOwner, async (req: Request, res: Response) => {
+    try {
+      const { date, dryRun } = helpBroadcastSchema.parse(req.body);
+      const result = await broadcastHelpNeeded(date, getPublicBaseUrl(req), dryRun);
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof BroadcastError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Help broadcast error:", error);
+      res.status(500).json({ error: "Failed to send broadcast" });
+    }
+  });
+
+  // Browse the log of notifications sent on every channel
+  api.get("/admin/delivery-log", requireOwner, async (req: Request, res: Response) => {
+    try {
+      const records = await getDeliveryLog({
+        channel: req.query.channel as string || undefined,
+        recipient: req.query.recipient as string || undefined,
+        messageType: req.query.messageType as string || undefined,
+        slotDate: req.query.slotDate as string || undefined,
+      });
+      return res.json(records);
+    } catch (error) {
+      console.error("Delivery log fetch error:", error);
+      res.status(500).json({ error: "Failed to fetch delivery log" });
+    }
+  });
+
+  // Every version of the care instructions, newest first
+  api.get("/admin/care-instructions/history", requireOwner, async (_req: Request, res: Response) => {
+    try {
+      return res.json(await getCareInstructionsHistory());
+    } catch (error) {
+      console.error("Care instructions history error:", error);
+      res.status(500).json({ error: "Failed to fetch care instruction history" });
+    }
+  });
+
+  // Save an edit of the care instructions as a new version
+  api.put("/admin/care-instructions", requireOwner, async (req: Request, res: Response) => {
+    try {
+      return res.json(await saveCareInstructions(req.body));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof CareInstructionsError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Care instructions save error:", error);
+      res.status(500).json({ error: "Failed to save care instructions" });
+    }
+  });
+
+  // Download the walk history as JSON, or one table of it as CSV;
+  // ?deliveries=true adds the delivery log with addresses masked
+  api.get("/export", requireOwner, async (req: Request, res: Response) => {
+    try {
+      const format = req.query.format as string || "json";
+      const table = (req.query.table as string || "slots") as ExportTable;
+      if (format !== "json" && format !== "csv") {
+        return res.status(400).json({ error: "Format must be json or csv" });
+      }
+      if (!EXPORT_TABLES.includes(table)) {
+        return res.status(400).json({ error: `Table must be one of ${EXPORT_TABLES.join(", ")}` });
+      }
+
+      const backup = await buildBackup(req.query.deliveries === "true" || table === "deliveries");
+      const fileName = `${currentHousehold().slug}-walks-${getCurrentDateET()}`;
+      if (format === "csv") {
+        res.attachment(`${fileName}-${table}.csv`);
+        res.type("text/csv; charset=utf-8");
+        return res.send(backupToCsv(backup, table));
+      }
+      res.attachment(`${fileName}.json`);
+      return res.json(backup);
+    } catch (error) {
+      console.error("Export error:", error);
+      res.status(500).json({ error: "Failed to export the walk history" });
+    }
+  });
+
+  // Restore a JSON backup or a CSV of slots or walkers, merging by default
+  api.post("/import", requireOwner, receiveBackup, async (req: Request, res: Response) => {
+    try {
+      const { mode, dryRun } = importOptionsSchema.parse(req.body || {});
+      if (!req.file) {
+        return res.status(400).json({ error: "A backup file is required" });
+      }
+
+      const rows = parseBackup(req.file.buffer.toString("utf8"));
+      const result = await importBackup(rows, mode, dryRun);
+      return res.json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      if (error instanceof ImportError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Import error:", error);
+      res.status(500).json({ error: "Failed to import the backup" });
+    }
+  });
+
+  // Inbound SMS commands from walkers, delivered by Twilio
+  api.post("/sms/inbound", requireTwilioSignature, async (req: Request, res: Response) => {
+    const twiml = new twilio.twiml.MessagingResponse();
+    try {
+      const reply = await handleSmsCommand(req.body.From || "", req.body.Body || "");
+      twiml.message(reply);
+    } catch (error) {
+      console.error("Inbound SMS error:", error);
+      twiml.message("Sorry, something went wrong. Please try again or use the website.");
+    }
+    res.type("text/xml");
+    return res.send(twiml.toString());
+  });
+
+  app.use("/api/h/:householdSlug", resolveHousehold, api);
+  app.use("/api", api);
+
   const httpServer = createServer(app);
   return httpServer;
 }
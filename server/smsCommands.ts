@@ -0,0 +1,308 @@
+import { Walker } from "@shared/schema";
+import { getSlotTimes } from "@shared/availability";
+import { formatTime } from "../client/src/lib/utils";
+import { storage } from "./storage";
+import { getCurrentDateET, addDays, getWeekday, formatDate, toDateTimeET } from "./dates";
+import { bookSlot, cancelSlot, getOpenTimes, BookingError } from "./bookings";
+import { getAvailability } from "./availability";
+import { setSmsSubscription } from "./smsConsent";
+import { confirmPhoneCode } from "./phoneVerification";
+import { currentHousehold } from "./householdContext";
+
+export type SmsCommand =
+  | { type: "book"; date: string; time: string }
+  | { type: "cancel"; date: string; time: string }
+  | { type: "my_walks" }
+  | { type: "open"; date: string }
+  | { type: "help" }
+  | { type: "stop" }
+  | { type: "start" }
+  | { type: "confirm"; code: string }
+  | { type: "invalid"; message: string };
+
+// How far ahead MY WALKS looks for upcoming bookings
+const MY_WALKS_DAYS = 60;
+
+// The app's name in texts, after the household's pet, e.g. FinnWalks
+function appName(): string {
+  return `${currentHousehold().petName.replace(/\s+/g, "")}Walks`;
+}
+
+function helpMessage(): string {
+  return `${appName()} commands: BOOK tue 7:30pm, CANCEL sat 9am, MY WALKS, OPEN tomorrow`;
+}
+
+// Carrier-required replies to the standard opt-out, opt-in and help keywords
+function keywordHelpMessage(): string {
+  const { petName } = currentHousehold();
+  return `${appName()}: texts about walking ${petName}. Msg frequency varies. Reply STOP to unsubscribe. ${helpMessage()}`;
+}
+function stopMessage(): string {
+  return `You're unsubscribed from ${appName()} and won't get any more texts. Reply START to resubscribe.`;
+}
+function startMessage(): string {
+  return `You're subscribed to ${appName()} texts again. Reply HELP for help, STOP to unsubscribe.`;
+}
+
+// Single-word replies carriers treat as opting out or back in
+const STOP_KEYWORDS = ["stop", "stopall", "unsubscribe", "cancel", "end", "quit"];
+const START_KEYWORDS = ["start", "unstop", "yes"];
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+/**
+ * Resolve a day word to a YYYY-MM-DD date
+ * Weekday names mean the next occurrence, counting today
+ * @param word "today", "tomorrow", a weekday name or a YYYY-MM-DD date
+ * @param today Today's date in ET
+ * @returns The date, or null if the word isn't a day
+ */
+export function parseDay(word: string, today: string): string | null {
+  const lower = word.toLowerCase();
+
+  if (lower === "today") return today;
+  if (lower === "tomorrow" || lower === "tmrw") return addDays(today, 1);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(lower)) return lower;
+
+  const weekday = WEEKDAYS[lower];
+  if (weekday === undefined) return null;
+
+  return addDays(today, (weekday - getWeekday(today) + 7) % 7);
+}
+
+/**
+ * Parse a time such as "7:30pm", "9am", "930am" or "19:30" to HHMM
+ * Walks happen in the daytime, so a bare 1-7 without am/pm means the evening
+ * @param word The time as typed
+ * @returns The time in HHMM format, or null if it can't be read
+ */
+export function parseTime(word: string): string | null {
+  const match = word.toLowerCase().match(/^(\d{1,2})(?::?(\d{2}))?\s*(am|pm|a|p)?$/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1]);
+  const minute = match[2] ? parseInt(match[2]) : 0;
+  const meridiem = match[3]?.charAt(0);
+
+  if (minute > 59) return null;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    if (meridiem === "p" && hour !== 12) hour += 12;
+    if (meridiem === "a" && hour === 12) hour = 0;
+  } else if (hour >= 1 && hour <= 7) {
+    hour += 12;
+  }
+
+  if (hour > 23) return null;
+
+  return hour.toString().padStart(2, "0") + minute.toString().padStart(2, "0");
+}
+
+// Parse the "<day> <time>" arguments shared by BOOK and CANCEL
+function parseDayAndTime(
+  type: "book" | "cancel",
+  args: string[],
+  today: string,
+): SmsCommand {
+  const usage = `Try: ${type.toUpperCase()} tue 7:30pm`;
+  if (args.length < 2) {
+    return { type: "invalid", message: usage };
+  }
+
+  const date = parseDay(args[0], today);
+  // Allow a space before am/pm, e.g. "7:30 pm"
+  const time = parseTime(args.slice(1).join(""));
+  if (!date) {
+    return { type: "invalid", message: `Couldn't read the day "${args[0]}". ${usage}` };
+  }
+  if (!time) {
+    return { type: "invalid", message: `Couldn't read the time "${args.slice(1).join(" ")}". ${usage}` };
+  }
+
+  return { type, date, time };
+}
+
+/**
+ * Parse the text of an inbound SMS into a command
+ * @param text The message body
+ * @param today Today's date in ET
+ * @returns The parsed command
+ */
+export function parseSmsCommand(text: string, today: string): SmsCommand {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const keyword = (words[0] || "").toLowerCase();
+  const args = words.slice(1);
+
+  // A bare keyword is a subscription change; CANCEL with a day and time still cancels a walk
+  if (args.length === 0 && STOP_KEYWORDS.includes(keyword)) {
+    return { type: "stop" };
+  }
+  if (args.length === 0 && START_KEYWORDS.includes(keyword)) {
+    return { type: "start" };
+  }
+  // The code texted to a number given with a booking
+  if (args.length === 0 && /^\d{6}$/.test(keyword)) {
+    return { type: "confirm", code: keyword };
+  }
+
+  switch (keyword) {
+    case "book":
+      return parseDayAndTime("book", args, today);
+    case "cancel":
+      return parseDayAndTime("cancel", args, today);
+    case "my":
+      if ((args[0] || "").toLowerCase() === "walks") {
+        return { type: "my_walks" };
+      }
+      break;
+    case "mywalks":
+      return { type: "my_walks" };
+    case "open": {
+      const date = parseDay(args[0] || "today", today);
+      if (!date) {
+        return { type: "invalid", message: `Couldn't read the day "${args[0]}". Try: OPEN tomorrow` };
+      }
+      return { type: "open", date };
+    }
+    case "help":
+    case "info":
+    case "?":
+      return { type: "help" };
+  }
+
+  return { type: "invalid", message: `Sorry, I didn't understand that. ${helpMessage()}` };
+}
+
+// Compare phone numbers by their last 10 digits so formatting doesn't matter
+function phonesMatch(a: string, b: string): boolean {
+  const digitsA = a.replace(/\D/g, "").slice(-10);
+  const digitsB = b.replace(/\D/g, "").slice(-10);
+  return digitsA.length === 10 && digitsA === digitsB;
+}
+
+/**
+ * Find the walker whose verified phone number sent a message. Numbers typed
+ * into the website aren't trusted until an owner sets them or the number
+ * texts back the code sent to it.
+ * @param phone The sender's phone number
+ * @returns The walker, or null if the number isn't a verified one
+ */
+export async function findWalkerByPhone(phone: string): Promise<Walker | null> {
+  const walkers = await storage.getAllWalkers();
+  return walkers.find((walker) => walker.phone && walker.phoneVerified && phonesMatch(walker.phone, phone)) || null;
+}
+
+// Describe a slot the way the reply messages do
+function describeSlot(date: string, time: string): string {
+  return `${formatDate(date)} at ${formatTime(time)}`;
+}
+
+/**
+ * Run an inbound SMS command and build the reply
+ * @param from The sender's phone number
+ * @param text The message body
+ * @returns The text to reply with
+ */
+export async function handleSmsCommand(from: string, text: string): Promise<string> {
+  const today = getCurrentDateET();
+  const command = parseSmsCommand(text, today);
+
+  // Subscription keywords work for every number, known walker or not
+  if (command.type === "stop") {
+    await setSmsSubscription(from, "unsubscribed", "sms_stop");
+    return stopMessage();
+  }
+  if (command.type === "start") {
+    await setSmsSubscription(from, "subscribed", "sms_start");
+    return startMessage();
+  }
+  if (command.type === "confirm") {
+    const confirmed = await confirmPhoneCode(from, command.code);
+    return confirmed
+      ? `Thanks ${confirmed.name}, you can now manage your walks by text. ${helpMessage()}`
+      : "That code doesn't match or has expired. Book a walk on the website with this number to get a new one.";
+  }
+  if (command.type === "help") {
+    return keywordHelpMessage();
+  }
+  if (command.type === "invalid") {
+    return command.message;
+  }
+
+  // OPEN doesn't need to know who is asking
+  if (command.type === "open") {
+    const times = getSlotTimes(getAvailability(), command.date);
+    if (times.length === 0) {
+      return `There are no walks on ${formatDate(command.date)}.`;
+    }
+
+    // Texted bookings are always the default length, so only list times one fits
+    const open = await getOpenTimes(command.date);
+    if (open.length === 0) {
+      return `${formatDate(command.date)} is fully booked.`;
+    }
+    return `Open on ${formatDate(command.date)}: ${open.map(formatTime).join(", ")}`;
+  }
+
+  const walker = await findWalkerByPhone(from);
+  if (!walker) {
+    return "We don't recognize this number. Book a walk on the website with your phone number and text back the code we send, then text commands will work.";
+  }
+
+  if (command.type === "my_walks") {
+    const slots = await storage.getSlotsBetween(today, addDays(today, MY_WALKS_DAYS));
+    const mine = slots.filter((slot) => slot.walkerId === walker.id);
+    if (mine.length === 0) {
+      return "You have no upcoming walks booked.";
+    }
+    return `Your walks: ${mine.map((slot) => describeSlot(slot.date, slot.time)).join("; ")}`;
+  }
+
+  // Walks that have already started can't be booked or canceled
+  const now = toDateTimeET(new Date());
+  if (`${command.date}${command.time}` <= `${now.date}${now.time}`) {
+    return `${describeSlot(command.date, command.time)} has already passed.`;
+  }
+
+  // Texted walks belong to no browser; the walker cancels them by text, or an owner does
+  if (command.type === "book") {
+    try {
+      await bookSlot({
+        date: command.date,
+        time: command.time,
+        name: walker.name,
+        phone: walker.phone || from,
+      });
+    } catch (error) {
+      if (error instanceof BookingError && error.status === 409) {
+        return `Sorry, ${describeSlot(command.date, command.time)} is already booked.`;
+      }
+      if (error instanceof BookingError) {
+        return `${describeSlot(command.date, command.time)} isn't a walk time. Text OPEN ${command.date} to see the open times.`;
+      }
+      throw error;
+    }
+    return `Booked ${describeSlot(command.date, command.time)}. Thanks for walking ${currentHousehold().petName}!`;
+  }
+
+  // CANCEL only works on the walker's own slots
+  const slot = await storage.getSlot(command.date, command.time);
+  if (!slot) {
+    return `Nothing is booked on ${describeSlot(command.date, command.time)}.`;
+  }
+  if (slot.walkerId !== walker.id) {
+    return `${describeSlot(command.date, command.time)} is booked by someone else.`;
+  }
+
+  await cancelSlot(slot);
+  return `Canceled your walk on ${describeSlot(command.date, command.time)}.`;
+}
@@ -0,0 +1,57 @@
+import { SmsSubscription, SmsSubscriptionStatus } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Normalize a phone number to E.164 so one number has one subscription,
+ * however it was typed. Ten-digit numbers are assumed to be US numbers.
+ * @param phone The phone number in any format
+ * @returns The number as + followed by digits
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length === 10 ? `+1${digits}` : `+${digits}`;
+}
+
+/**
+ * Get the subscription state of a phone number
+ * @param phone The phone number
+ * @returns The subscription, or null if the number has never been recorded
+ */
+export async function getSmsSubscription(phone: string): Promise<SmsSubscription | null> {
+  return storage.getSmsSubscription(normalizePhone(phone));
+}
+
+/**
+ * Subscribe or unsubscribe a phone number, replacing any earlier state
+ * @param phone The phone number
+ * @param status The new state
+ * @param source What changed it, e.g. sms_stop
+ */
+export async function setSmsSubscription(
+  phone: string,
+  status: SmsSubscriptionStatus,
+  source: string,
+): Promise<void> {
+  await storage.setSmsSubscription(normalizePhone(phone), status, source);
+}
+
+/**
+ * Record that a walker agreed to texts by giving their number, unless the
+ * number already has a state (so an earlier STOP still holds)
+ * @param phone The phone number
+ * @param source Where the number was given, e.g. booking
+ */
+export async function recordSmsConsent(phone: string, source: string): Promise<void> {
+  await storage.setSmsSubscription(normalizePhone(phone), "subscribed", source, true);
+}
+
+/**
+ * Check whether texts to a number must not be sent. Numbers without a
+ * record are allowed, since they were given to us to be texted.
+ * @param phone The phone number
+ * @returns The reason to suppress texts, or null if they may be sent
+ */
+export async function getSmsSuppressionReason(phone: string): Promise<string | null> {
+  const subscription = await getSmsSubscription(phone);
+  return subscription?.status === "unsubscribed" ? "unsubscribed" : null;
+}
@@ -1,101 +1,355 @@
 import Database from "@replit/database";
-import { WalkingSlot, InsertSlot } from "@shared/schema";
-import { eq, and, desc, asc, gte, lte } from 'drizzle-orm';
+import {
+  WalkingSlot,
+  InsertSlot,
+  Walker,
+  UpdateWalker,
+  RecurringSeries,
+  InsertSeries,
+  WaitlistEntry,
+  JoinWaitlist,
+  WalkReport,
+  EnergyLevel,
+  CareInstructions,
+  CareSection,
+  WalkPhoto,
+  LeaderboardEntry,
+  InsertDelivery,
+  DeliveryRecord,
+  DeliveryLogFilters,
+  SmsSubscription,
+  SmsSubscriptionStatus,
+  Household,
+  InsertHousehold,
+  DEFAULT_WALK_MINUTES,
+  toSeconds,
+  DEFAULT_HOUSEHOLD_ID,
+} from "@shared/schema";
+import { eq, and, or, desc, asc, gt, gte, lte, isNull, isNotNull, sql, type SQL, type Column } from 'drizzle-orm';
 import { db } from './db';
-import { walkingSlots, walkerColors } from '@shared/schema';
+import { addDays } from './dates';
+import { currentHousehold } from './householdContext';
+import { capitalizeFullName } from '../client/src/lib/utils';
+import {
+  walkingSlots,
+  walkers,
+  recurringSeries,
+  waitlist,
+  walkReports,
+  careInstructionVersions,
+  walkPhotos,
+  deliveryLog,
+  smsSubscriptions,
+  households,
+} from '@shared/schema';
 
-// Interface for storage operations
+// Booking details that aren't part of the client's slot data
+export type AddSlotOptions = {
+  ownerId?: string;   // Public id of the booking browser's walker token
+  seriesId?: number;  // Recurring series the slot belongs to
+  timestamp?: number; // When it was booked (seconds), when copying history; defaults to now
+};
+
+// Thrown by addSlot when the date and time are already booked
+export class SlotConflictError extends Error {
+  constructor(date: string, time: string) {
+    super(`Slot ${date} ${time} is already booked`);
+    this.name = "SlotConflictError";
+  }
+}
+
+// Interface for storage operations. Each instance holds one household's
+// data; see forHousehold.
 export interface IStorage {
+  // The same backend's view of another household. Households and SMS
+  // subscriptions are shared by every view.
+  forHousehold(householdId: number): IStorage;
+  getHouseholds(): Promise<Household[]>;
+  getHouseholdBySlug(slug: string): Promise<Household | null>;
+  addHousehold(household: InsertHousehold, ownerKeyHash: string): Promise<Household>;
+  
   getSchedule(startDate: string): Promise<Record<string, WalkingSlot[]>>;
   getSlot(date: string, time: string): Promise<WalkingSlot | null>;
-  addSlot(slot: InsertSlot): Promise<WalkingSlot>;
+  getSlotsBetween(startDate: string, endDate: string): Promise<WalkingSlot[]>;
+  addSlot(slot: InsertSlot, options?: AddSlotOptions): Promise<WalkingSlot>;
   removeSlot(date: string, time: string): Promise<boolean>;
   
-  // Methods for walker management
+  // Methods for walker management; names are matched after normalizeWalkerName,
+  // and slots are tied to walkers by id
+  getWalker(id: number): Promise<Walker | null>;
+  findWalker(name: string): Promise<Walker | null>;
+  // Creates the walker, with the next free color, if they don't exist yet
   getWalkerColorIndex(name: string): Promise<number>;
-  getAllWalkers(): Promise<{name: string, colorIndex: number, phone?: string}[]>;
-  searchWalkers(query: string): Promise<{name: string, colorIndex: number, phone?: string}[]>;
-  updateWalker(name: string, phone?: string): Promise<{name: string, colorIndex: number, phone?: string}>;
+  getAllWalkers(): Promise<Walker[]>;
+  searchWalkers(query: string): Promise<Walker[]>;
+  // Creates the walker if needed. Anyone can call this, so a phone number is
+  // only saved when the walker has none, and stays unverified.
+  updateWalker(name: string, phone?: string): Promise<Walker>;
   
   // Leaderboard methods
-  getLeaderboardAllTime(): Promise<Array<{name: string, totalWalks: number, colorIndex: number}>>;
-  getLeaderboardNextWeek(startDate: string): Promise<Array<{name: string, totalWalks: number, colorIndex: number}>>;
+  // completedOnly counts only walks that were checked out, instead of every booking
+  getLeaderboardAllTime(completedOnly?: boolean): Promise<LeaderboardEntry[]>;
+  getLeaderboardNextWeek(startDate: string, completedOnly?: boolean): Promise<LeaderboardEntry[]>;
+  
+  // Admin methods; changing the phone number here leaves it unverified
+  updateWalkerDetails(id: number, updates: UpdateWalker): Promise<Walker | null>;
+  // Save a phone number an owner set or the number confirmed by text, trusting it for text commands
+  verifyWalkerPhone(id: number, phone: string): Promise<Walker | null>;
+  reassignSlot(date: string, time: string, name: string, phone?: string): Promise<WalkingSlot | null>;
+  
+  // Cover (handoff) methods
+  setCoverRequest(date: string, time: string, requested: boolean): Promise<WalkingSlot | null>;
+  // Hands the slot over in one step, only while cover is requested, so it's never free in between
+  claimSlot(date: string, time: string, name: string, phone: string | undefined, ownerId: string): Promise<WalkingSlot | null>;
+  
+  // Check-in methods, each only succeeds once per walk; check-out needs a check-in first
+  checkInSlot(date: string, time: string, checkedInAt: number): Promise<WalkingSlot | null>;
+  checkOutSlot(date: string, time: string, checkedOutAt: number): Promise<WalkingSlot | null>;
+  
+  // Recurring series methods
+  addSeries(series: InsertSeries, ownerId?: string): Promise<RecurringSeries>;
+  getSeries(id: number): Promise<RecurringSeries | null>;
+  // Removes the series' walks after fromDate fromTime; walks that started or were checked in stay
+  endSeries(id: number, fromDate: string, fromTime: string): Promise<WalkingSlot[]>;
+  
+  // Waitlist methods, entries are listed in the order walkers joined
+  addWaitlistEntry(entry: Omit<JoinWaitlist, "ownerToken">, ownerId?: string): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: number): Promise<WaitlistEntry | null>;
+  getWaitlistBetween(startDate: string, endDate: string): Promise<WaitlistEntry[]>;
+  // Hold a freed time for the walker until the given time, or release the hold with null
+  setWaitlistHold(id: number, heldTime: string | null, holdExpiresAt?: number): Promise<WaitlistEntry | null>;
+  removeWaitlistEntry(id: number): Promise<boolean>;
+  
+  // Walk report methods, filing a report again replaces the walk's earlier one
+  saveWalkReport(report: WalkReport): Promise<WalkReport>;
+  getWalkReportsBetween(startDate: string, endDate: string): Promise<WalkReport[]>;
+  
+  // Care instruction methods; each save adds a version numbered one past the last
+  getCareInstructions(): Promise<CareInstructions | null>;
+  // Every saved version, newest first
+  getCareInstructionsHistory(): Promise<CareInstructions[]>;
+  // Saves version baseVersion + 1, or returns null if baseVersion isn't the latest
+  addCareInstructions(sections: CareSection[], updatedAt: number, baseVersion: number): Promise<CareInstructions | null>;
+  
+  // Walk photo methods, photos are listed in the order they were uploaded
+  addWalkPhoto(photo: Omit<WalkPhoto, "id">): Promise<WalkPhoto>;
+  getWalkPhoto(id: number): Promise<WalkPhoto | null>;
+  getWalkPhotos(date: string, time: string): Promise<WalkPhoto[]>;
+  getWalkPhotosByWalker(walkerId: number): Promise<WalkPhoto[]>;
+  
+  // Delivery log methods, for every notification sent or suppressed
+  addDelivery(record: InsertDelivery): Promise<void>;
+  // Whether a message with this hash was actually sent on the channel (suppressed ones don't count)
+  hasDelivery(channel: string, messageHash: string): Promise<boolean>;
+  getDeliveries(filters: DeliveryLogFilters, limit: number): Promise<DeliveryRecord[]>;
+  
+  // SMS subscription methods, keyed by normalized phone number
+  getSmsSubscription(phone: string): Promise<SmsSubscription | null>;
+  // Replaces any earlier state, unless onlyIfNew is set
+  setSmsSubscription(phone: string, status: SmsSubscriptionStatus, source: string, onlyIfNew?: boolean): Promise<void>;
+}
+
+/**
+ * Normalize a walker's name so "sam smith" and "Sam  Smith" are one walker
+ * @param name The name as typed
+ */
+export function normalizeWalkerName(name: string): string {
+  return capitalizeFullName(name.trim().replace(/\s+/g, ' '));
+}
+
+// Date range covering every walk, for all-time leaderboards
+const FIRST_DATE = '0000-01-01';
+const LAST_DATE = '9999-12-31';
+
+// The lowest color index no walker has yet, wrapping around once all are used
+function nextColorIndex(walkerList: Walker[], maxColors: number): number {
+  const used = new Set(walkerList.map(walker => walker.colorIndex));
+  for (let index = 0; index < maxColors; index++) {
+    if (!used.has(index)) {
+      return index;
+    }
+  }
+  return walkerList.length % maxColors;
+}
+
+/**
+ * Count walks per walker, most walks first. Slots from before walker ids
+ * are matched to their walker by name.
+ * @param slots The walks to count
+ * @param walkerList Every walker
+ */
+function rankWalkers(slots: WalkingSlot[], walkerList: Walker[]): LeaderboardEntry[] {
+  const byId = new Map(walkerList.map(walker => [walker.id, walker]));
+  const byName = new Map(walkerList.map(walker => [walker.name, walker]));
+  
+  const walkCounts = new Map<number, number>();
+  for (const slot of slots) {
+    const walker = (slot.walkerId && byId.get(slot.walkerId)) || byName.get(normalizeWalkerName(slot.name));
+    if (walker) {
+      walkCounts.set(walker.id, (walkCounts.get(walker.id) || 0) + 1);
+    }
+  }
+  
+  return Array.from(walkCounts.entries())
+    .map(([walkerId, totalWalks]) => {
+      const { name, colorIndex } = byId.get(walkerId)!;
+      return { walkerId, name, totalWalks, colorIndex };
+    })
+    .sort((a, b) => b.totalWalks - a.totalWalks);
+}
+
+// Whether a delivery record matches every filter given
+function matchesDeliveryFilters(record: DeliveryRecord, filters: DeliveryLogFilters): boolean {
+  return (!filters.channel || record.channel === filters.channel) &&
+    (!filters.recipient || record.recipient === filters.recipient) &&
+    (!filters.messageType || record.messageType === filters.messageType) &&
+    (!filters.slotDate || record.slotDate === filters.slotDate);
+}
+
+// Whether a walk starts after the given date and time and nobody checked in
+// yet, so ending its series can remove it
+function isUnstartedAfter(slot: WalkingSlot, date: string, time: string): boolean {
+  return `${slot.date}${slot.time}` > `${date}${time}` && !slot.checkedInAt;
+}
+
+// Waitlist entries in the order walkers joined
+function byPlaceInLine(a: WaitlistEntry, b: WaitlistEntry): number {
+  return a.timestamp - b.timestamp || a.id - b.id;
+}
+
+// Walk reports in the order the walks happened
+function byWalkTime(a: WalkReport, b: WalkReport): number {
+  return a.date.localeCompare(b.date) || a.time.localeCompare(b.time);
+}
+
+// Walk photos in the order they were uploaded
+function byUploadTime(a: WalkPhoto, b: WalkPhoto): number {
+  return a.timestamp - b.timestamp || a.id - b.id;
 }
 
+// What every household's MemStorage shares
+type MemSharedState = {
+  views: Map<number, MemStorage>;
+  households: Record<number, Household>;
+  nextHouseholdId: number;
+  // SMS subscriptions by phone number
+  smsSubscriptions: Record<string, SmsSubscription>;
+};
+
 // In-memory implementation for development
-class MemStorage implements IStorage {
+export class MemStorage implements IStorage {
   private slots: Record<string, WalkingSlot> = {};
-  // Track walkers and their color indices
-  private walkers: Record<string, number> = {};
+  // Walkers by id
+  private walkers: Record<number, Walker> = {};
+  private nextWalkerId = 1;
+  // Recurring series rules by id
+  private series: Record<number, RecurringSeries> = {};
+  private nextSeriesId = 1;
+  private waitlist: Record<number, WaitlistEntry> = {};
+  private nextWaitlistId = 1;
+  // Walk reports by slot key
+  private reports: Record<string, WalkReport> = {};
+  // Care instruction versions, oldest first
+  private careVersions: CareInstructions[] = [];
+  private photos: Record<number, WalkPhoto> = {};
+  private nextPhotoId = 1;
+  private deliveries: DeliveryRecord[] = [];
+  private nextDeliveryId = 1;
   // Total number of colors available in the app
   private readonly MAX_COLORS = 10;
 
+  constructor(
+    householdId = DEFAULT_HOUSEHOLD_ID,
+    private shared: MemSharedState = { views: new Map(), households: {}, nextHouseholdId: 1, smsSubscriptions: {} },
+  ) {
+    shared.views.set(householdId, this);
+  }
+
+  forHousehold(householdId: number): IStorage {
+    return this.shared.views.get(householdId) || new MemStorage(householdId, this.shared);
+  }
+
   private createSlotKey(date: string, time: string): string {
     return `${date}:${time}`;
   }
   
-  // Helper to create a consistent walker key
-  private createWalkerKey(name: string): string {
-    return `walker:${name}`;
+  // Find a walker by name, or create them with the next free color. Never
+  // awaits, so addSlot stays free of interleaving.
+  private resolveWalker(name: string): Walker {
+    const normalized = normalizeWalkerName(name);
+    const existing = Object.values(this.walkers).find(walker => walker.name === normalized);
+    if (existing) {
+      return existing;
+    }
+    
+    const walker: Walker = {
+      id: this.nextWalkerId++,
+      name: normalized,
+      colorIndex: nextColorIndex(Object.values(this.walkers), this.MAX_COLORS),
+      phoneVerified: false,
+      broadcastOptOut: false
+    };
+    this.walkers[walker.id] = walker;
+    return walker;
   }
 
   async getSchedule(startDate: string): Promise<Record<string, WalkingSlot[]>> {
     const result: Record<string, WalkingSlot[]> = {};
     
     // Generate dates for 7 days
-    const start = new Date(startDate);
-    const dates: string[] = [];
-    
     for (let i = 0; i < 7; i++) {
-      const date = new Date(start);
-      date.setDate(date.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-      dates.push(dateStr);
-      result[dateStr] = [];
-    }
-
-    // Group slots by date
-    for (const key in this.slots) {
-      const slot = this.slots[key];
-      const { date } = slot;
-      
-      if (dates.includes(date)) {
-        if (!result[date]) {
-          result[date] = [];
-        }
-        result[date].push(slot);
-      }
+      result[addDays(startDate, i)] = [];
     }
 
-    // Sort by time
-    for (const date in result) {
-      result[date].sort((a, b) => a.time.localeCompare(b.time));
+    // Group slots by date, in time order; the schedule is public, so no phones
+    for (const { phone, ...slot } of await this.getSlotsBetween(startDate, addDays(startDate, 6))) {
+      result[slot.date].push(slot);
     }
 
     return result;
   }
 
+  // Get specific slot, without the walker's phone number
   async getSlot(date: string, time: string): Promise<WalkingSlot | null> {
     const key = this.createSlotKey(date, time);
-    return this.slots[key] || null;
+    if (!this.slots[key]) {
+      return null;
+    }
+    
+    const { phone, ...slot } = this.slots[key];
+    return slot;
+  }
+
+  // Get all slots in an inclusive date range, ordered by date and time
+  async getSlotsBetween(startDate: string, endDate: string): Promise<WalkingSlot[]> {
+    return Object.values(this.slots)
+      .filter(slot => slot.date >= startDate && slot.date <= endDate)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
   }
 
-  async addSlot(slotData: InsertSlot): Promise<WalkingSlot> {
-    const { date, time, name, notes } = slotData;
+  async addSlot(slotData: InsertSlot, options: AddSlotOptions = {}): Promise<WalkingSlot> {
+    const { date, time, name, phone, notes, duration } = slotData;
     const key = this.createSlotKey(date, time);
     
-    // Check if slot exists
+    // Check if slot exists; nothing is awaited before the slot is stored,
+    // so concurrent bookings can't interleave
     if (this.slots[key]) {
-      throw new Error('Slot is already booked');
+      throw new SlotConflictError(date, time);
     }
 
     // Create new slot
+    const walker = this.resolveWalker(name);
     const newSlot: WalkingSlot = {
       date,
       time,
-      name,
+      name: walker.name,
+      walkerId: walker.id,
+      phone: phone || undefined,
       notes: notes || '',
-      timestamp: Date.now()
+      timestamp: options.timestamp ?? Math.floor(Date.now() / 1000),
+      duration: duration || DEFAULT_WALK_MINUTES,
+      ownerId: options.ownerId,
+      seriesId: options.seriesId
     };
 
     // Store it
@@ -116,37 +370,27 @@ class MemStorage implements IStorage {
     return true;
   }
   
+  async getWalker(id: number): Promise<Walker | null> {
+    return this.walkers[id] || null;
+  }
+  
+  async findWalker(name: string): Promise<Walker | null> {
+    const normalized = normalizeWalkerName(name);
+    return Object.values(this.walkers).find(walker => walker.name === normalized) || null;
+  }
+  
   // Get walker color index - creates a new entry if walker doesn't exist
   async getWalkerColorIndex(name: string): Promise<number> {
-    // If walker exists, return their color index
-    if (this.walkers[name] !== undefined) {
-      return this.walkers[name];
-    }
-    
-    // Get the next available color index by finding the lowest unused index
-    const existingIndices = Object.values(this.walkers);
-    let nextIndex = 0;
-    
-    // Find the lowest available index
-    while (existingIndices.includes(nextIndex)) {
-      nextIndex = (nextIndex + 1) % this.MAX_COLORS;
-    }
-    
-    // Assign and save the new color index
-    this.walkers[name] = nextIndex;
-    return nextIndex;
+    return this.resolveWalker(name).colorIndex;
   }
   
   // Get all walkers with their color indices
-  async getAllWalkers(): Promise<{name: string, colorIndex: number, phone?: string}[]> {
-    return Object.entries(this.walkers).map(([name, colorIndex]) => ({
-      name,
-      colorIndex
-    }));
+  async getAllWalkers(): Promise<Walker[]> {
+    return Object.values(this.walkers);
   }
   
   // Search walkers by partial name match
-  async searchWalkers(query: string): Promise<{name: string, colorIndex: number, phone?: string}[]> {
+  async searchWalkers(query: string): Promise<Walker[]> {
     if (!query) {
       return this.getAllWalkers();
     }
@@ -160,36 +404,408 @@ class MemStorage implements IStorage {
   }
   
   // Update walker information
-  async updateWalker(name: string, phone?: string): Promise<{name: string, colorIndex: number, phone?: string}> {
-    // Get or create the color index for this walker
-    const colorIndex = await this.getWalkerColorIndex(name);
+  async updateWalker(name: string, phone?: string): Promise<Walker> {
+    const walker = this.resolveWalker(name);
+    if (phone && !walker.phone) {
+      this.walkers[walker.id] = { ...walker, phone, phoneVerified: false };
+    }
+    return this.walkers[walker.id];
+  }
+  
+  // Rank walkers by their walks in an inclusive date range
+  private async rankWalkersBetween(startDate: string, endDate: string, completedOnly: boolean): Promise<LeaderboardEntry[]> {
+    const slots = (await this.getSlotsBetween(startDate, endDate))
+      .filter(slot => !completedOnly || slot.checkedOutAt);
+    return rankWalkers(slots, Object.values(this.walkers));
+  }
+  
+  // Get leaderboard of walkers with the most walks (all time)
+  async getLeaderboardAllTime(completedOnly = false): Promise<LeaderboardEntry[]> {
+    return this.rankWalkersBetween(FIRST_DATE, LAST_DATE, completedOnly);
+  }
+  
+  // Get leaderboard for the 7 days from a date
+  async getLeaderboardNextWeek(startDate: string, completedOnly = false): Promise<LeaderboardEntry[]> {
+    return this.rankWalkersBetween(startDate, addDays(startDate, 6), completedOnly);
+  }
+
+  // Edit a walker's name, phone and color (renaming also moves their slots and photos)
+  async updateWalkerDetails(id: number, updates: UpdateWalker): Promise<Walker | null> {
+    const walker = this.walkers[id];
+    if (!walker) {
+      return null;
+    }
     
-    // Return the updated walker info (note: in-memory implementation doesn't store phone numbers)
-    return {
+    const updated: Walker = {
+      id,
+      name: updates.name ? normalizeWalkerName(updates.name) : walker.name,
+      colorIndex: updates.colorIndex ?? walker.colorIndex,
+      phone: updates.phone !== undefined ? updates.phone || undefined : walker.phone,
+      phoneVerified: updates.phone !== undefined && (updates.phone || undefined) !== walker.phone
+        ? false
+        : walker.phoneVerified,
+      broadcastOptOut: updates.broadcastOptOut ?? walker.broadcastOptOut
+    };
+    this.walkers[id] = updated;
+    
+    if (updated.name !== walker.name) {
+      for (const key in this.slots) {
+        if (this.slots[key].walkerId === id) {
+          this.slots[key] = { ...this.slots[key], name: updated.name };
+        }
+      }
+      for (const photo of Object.values(this.photos)) {
+        if (photo.walkerId === id) {
+          this.photos[photo.id] = { ...photo, name: updated.name };
+        }
+      }
+    }
+    
+    return updated;
+  }
+  
+  // Save a trusted phone number for a walker
+  async verifyWalkerPhone(id: number, phone: string): Promise<Walker | null> {
+    const walker = this.walkers[id];
+    if (!walker) {
+      return null;
+    }
+    
+    this.walkers[id] = { ...walker, phone, phoneVerified: true };
+    return this.walkers[id];
+  }
+  
+  // Hand a booked slot to another walker
+  async reassignSlot(date: string, time: string, name: string, phone?: string): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    if (!this.slots[key]) {
+      return null;
+    }
+    
+    // The new walker doesn't hold the original booker's token, and the walk
+    // leaves their series so ending it won't remove it
+    const walker = this.resolveWalker(name);
+    this.slots[key] = {
+      ...this.slots[key],
+      name: walker.name,
+      walkerId: walker.id,
+      phone,
+      ownerId: undefined,
+      seriesId: undefined,
+      coverRequestedAt: undefined
+    };
+    return this.slots[key];
+  }
+  
+  // Mark a slot as looking for cover, or take the request back
+  async setCoverRequest(date: string, time: string, requested: boolean): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    if (!this.slots[key]) {
+      return null;
+    }
+    
+    this.slots[key] = {
+      ...this.slots[key],
+      coverRequestedAt: requested ? Math.floor(Date.now() / 1000) : undefined
+    };
+    return this.slots[key];
+  }
+  
+  // Give a slot that's looking for cover to the walker taking it over
+  async claimSlot(date: string, time: string, name: string, phone: string | undefined, ownerId: string): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    if (!this.slots[key]?.coverRequestedAt) {
+      return null;
+    }
+    
+    // The walk leaves the original walker's series so ending it won't remove it
+    const walker = this.resolveWalker(name);
+    this.slots[key] = {
+      ...this.slots[key],
+      name: walker.name,
+      walkerId: walker.id,
+      phone,
+      ownerId,
+      seriesId: undefined,
+      coverRequestedAt: undefined
+    };
+    return this.slots[key];
+  }
+  
+  // Record when a walk actually started, unless it already has
+  async checkInSlot(date: string, time: string, checkedInAt: number): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    if (!this.slots[key] || this.slots[key].checkedInAt) {
+      return null;
+    }
+    
+    this.slots[key] = { ...this.slots[key], checkedInAt };
+    return this.slots[key];
+  }
+  
+  // Record when a started walk actually finished, unless it already has
+  async checkOutSlot(date: string, time: string, checkedOutAt: number): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    if (!this.slots[key]?.checkedInAt || this.slots[key].checkedOutAt) {
+      return null;
+    }
+    
+    this.slots[key] = { ...this.slots[key], checkedOutAt };
+    return this.slots[key];
+  }
+
+  // Record a recurring series rule
+  async addSeries(seriesData: InsertSeries, ownerId?: string): Promise<RecurringSeries> {
+    const { name, phone, notes, time, duration, weekdays, startDate, endDate, occurrences } = seriesData;
+    
+    const newSeries: RecurringSeries = {
+      id: this.nextSeriesId++,
       name,
-      colorIndex,
-      phone
+      phone,
+      notes: notes || '',
+      time,
+      duration: duration || DEFAULT_WALK_MINUTES,
+      weekdays,
+      startDate,
+      endDate,
+      occurrences,
+      ownerId,
+      timestamp: Math.floor(Date.now() / 1000)
+    };
+    
+    this.series[newSeries.id] = newSeries;
+    return newSeries;
+  }
+  
+  async getSeries(id: number): Promise<RecurringSeries | null> {
+    return this.series[id] || null;
+  }
+  
+  // Remove a series' walks that haven't started yet and end the rule the day before
+  async endSeries(id: number, fromDate: string, fromTime: string): Promise<WalkingSlot[]> {
+    const removed: WalkingSlot[] = [];
+    
+    for (const key in this.slots) {
+      const slot = this.slots[key];
+      if (slot.seriesId === id && isUnstartedAfter(slot, fromDate, fromTime)) {
+        removed.push(slot);
+        delete this.slots[key];
+      }
+    }
+    
+    if (this.series[id]) {
+      this.series[id] = {
+        ...this.series[id],
+        endDate: addDays(fromDate, -1),
+        occurrences: undefined
+      };
+    }
+    
+    return removed.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Add a walker to the end of a day's waitlist
+  async addWaitlistEntry(entry: Omit<JoinWaitlist, "ownerToken">, ownerId?: string): Promise<WaitlistEntry> {
+    const newEntry: WaitlistEntry = {
+      id: this.nextWaitlistId++,
+      date: entry.date,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      name: entry.name,
+      phone: entry.phone,
+      ownerId,
+      timestamp: Math.floor(Date.now() / 1000)
+    };
+    
+    this.waitlist[newEntry.id] = newEntry;
+    return newEntry;
+  }
+  
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | null> {
+    return this.waitlist[id] || null;
+  }
+  
+  async getWaitlistBetween(startDate: string, endDate: string): Promise<WaitlistEntry[]> {
+    return Object.values(this.waitlist)
+      .filter(entry => entry.date >= startDate && entry.date <= endDate)
+      .sort(byPlaceInLine);
+  }
+  
+  async setWaitlistHold(id: number, heldTime: string | null, holdExpiresAt?: number): Promise<WaitlistEntry | null> {
+    if (!this.waitlist[id]) {
+      return null;
+    }
+    
+    this.waitlist[id] = {
+      ...this.waitlist[id],
+      heldTime: heldTime || undefined,
+      holdExpiresAt: heldTime ? holdExpiresAt : undefined
+    };
+    return this.waitlist[id];
+  }
+  
+  async removeWaitlistEntry(id: number): Promise<boolean> {
+    if (!this.waitlist[id]) {
+      return false;
+    }
+    delete this.waitlist[id];
+    return true;
+  }
+  
+  async saveWalkReport(report: WalkReport): Promise<WalkReport> {
+    this.reports[this.createSlotKey(report.date, report.time)] = report;
+    return report;
+  }
+  
+  async getWalkReportsBetween(startDate: string, endDate: string): Promise<WalkReport[]> {
+    return Object.values(this.reports)
+      .filter(report => report.date >= startDate && report.date <= endDate)
+      .sort(byWalkTime);
+  }
+  
+  async getCareInstructions(): Promise<CareInstructions | null> {
+    return this.careVersions[this.careVersions.length - 1] || null;
+  }
+  
+  async getCareInstructionsHistory(): Promise<CareInstructions[]> {
+    return [...this.careVersions].reverse();
+  }
+  
+  async addCareInstructions(sections: CareSection[], updatedAt: number, baseVersion: number): Promise<CareInstructions | null> {
+    if (baseVersion !== this.careVersions.length) {
+      return null;
+    }
+    const saved: CareInstructions = { version: baseVersion + 1, sections, updatedAt };
+    this.careVersions.push(saved);
+    return saved;
+  }
+  
+  async addWalkPhoto(photo: Omit<WalkPhoto, "id">): Promise<WalkPhoto> {
+    const newPhoto: WalkPhoto = { ...photo, id: this.nextPhotoId++ };
+    this.photos[newPhoto.id] = newPhoto;
+    return newPhoto;
+  }
+  
+  async getWalkPhoto(id: number): Promise<WalkPhoto | null> {
+    return this.photos[id] || null;
+  }
+  
+  async getWalkPhotos(date: string, time: string): Promise<WalkPhoto[]> {
+    return Object.values(this.photos)
+      .filter(photo => photo.date === date && photo.time === time)
+      .sort(byUploadTime);
+  }
+  
+  async getWalkPhotosByWalker(walkerId: number): Promise<WalkPhoto[]> {
+    return Object.values(this.photos)
+      .filter(photo => photo.walkerId === walkerId)
+      .sort(byUploadTime);
+  }
+  
+  async addDelivery(record: InsertDelivery): Promise<void> {
+    this.deliveries.push({ ...record, id: this.nextDeliveryId++, sentAt: new Date() });
+  }
+  
+  async hasDelivery(channel: string, messageHash: string): Promise<boolean> {
+    return this.deliveries.some(record =>
+      record.channel === channel && record.messageHash === messageHash && !record.suppressedReason
+    );
+  }
+  
+  async getDeliveries(filters: DeliveryLogFilters, limit: number): Promise<DeliveryRecord[]> {
+    return this.deliveries
+      .filter(record => matchesDeliveryFilters(record, filters))
+      .reverse()
+      .slice(0, limit);
+  }
+  
+  async getSmsSubscription(phone: string): Promise<SmsSubscription | null> {
+    return this.shared.smsSubscriptions[phone] || null;
+  }
+  
+  async setSmsSubscription(phone: string, status: SmsSubscriptionStatus, source: string, onlyIfNew = false): Promise<void> {
+    if (onlyIfNew && this.shared.smsSubscriptions[phone]) {
+      return;
+    }
+    this.shared.smsSubscriptions[phone] = { phone, status, source, updatedAt: new Date() };
+  }
+  
+  async getHouseholds(): Promise<Household[]> {
+    return Object.values(this.shared.households);
+  }
+  
+  async getHouseholdBySlug(slug: string): Promise<Household | null> {
+    return Object.values(this.shared.households).find(household => household.slug === slug) || null;
+  }
+  
+  async addHousehold(household: InsertHousehold, ownerKeyHash: string): Promise<Household> {
+    const newHousehold: Household = {
+      ...household,
+      id: this.shared.nextHouseholdId++,
+      ownerKeyHash,
+      timestamp: Math.floor(Date.now() / 1000)
     };
+    this.shared.households[newHousehold.id] = newHousehold;
+    return newHousehold;
   }
 }
 
 // Helper types for database values
 type WalkerData = {
+  id?: number;   // Walkers stored before ids existed have none
   colorIndex: number;
+  phone?: string;
+  phoneVerified?: boolean;
+  broadcastOptOut?: boolean;
 };
 
-type SlotData = {
-  name: string;
-  notes: string;
-  timestamp: number;
-};
+// A slot as saved under its slots:DATE:TIME key; slots saved by older
+// versions may be missing fields
+type SlotData = Partial<Omit<WalkingSlot, 'date' | 'time'>>;
+
+// Dates come back from the store as ISO strings
+type Stored<T, K extends keyof T> = Omit<T, K> & { [P in K]: string };
+
+/**
+ * Wrap a Replit Database client so every key gets a prefix, keeping a
+ * household's keys apart from the default household's unprefixed ones
+ * @param client The shared client
+ * @param prefix The household's key prefix
+ */
+function scopeReplitClient(client: Database, prefix: string): Database {
+  const scoped = {
+    get: (key: string) => client.get(prefix + key),
+    set: (key: string, value: unknown) => client.set(prefix + key, value),
+    delete: (key: string) => client.delete(prefix + key),
+    async list(keyPrefix = '') {
+      const result = await client.list(prefix + keyPrefix);
+      return result.ok ? { ok: true, value: result.value.map(key => key.slice(prefix.length)) } : result;
+    },
+  };
+  return scoped as unknown as Database;
+}
 
 // Replit Database implementation
 export class ReplitStorage implements IStorage {
+  // The household's keys
   private db: Database;
+  // Keys every household shares: households and SMS subscriptions
+  private root: Database;
+
+  // Takes a client so tests can pass an in-process stand-in
+  constructor(
+    client: Database = new Database(),
+    householdId = DEFAULT_HOUSEHOLD_ID,
+    private views = new Map<number, ReplitStorage>(),
+  ) {
+    this.root = client;
+    this.db = householdId === DEFAULT_HOUSEHOLD_ID ? client : scopeReplitClient(client, `h${householdId}:`);
+    views.set(householdId, this);
+  }
 
-  constructor() {
-    this.db = new Database();
+  // One view per household, so slot locks are shared by every booking
+  forHousehold(householdId: number): IStorage {
+    return this.views.get(householdId) || new ReplitStorage(this.root, householdId, this.views);
   }
 
   // Helper to create consistent slot keys
@@ -205,72 +821,61 @@ export class ReplitStorage implements IStorage {
   // Total number of colors available in the app
   private readonly MAX_COLORS = 10;
 
+  // Read a value saved as T, unwrapping the client's result type (null if missing)
+  private async getValue<T = unknown>(key: string, client = this.db): Promise<T | null> {
+    const result = await client.get(key);
+    return result.ok ? (result.value as T) : null;
+  }
+  
+  // List keys starting with a prefix
+  private async listKeys(prefix: string, client = this.db): Promise<string[]> {
+    const result = await client.list(prefix);
+    return result.ok ? result.value : [];
+  }
+  
+  // Convert a stored slot value to the shared type
+  private toSlot(date: string, time: string, value: SlotData): WalkingSlot {
+    return {
+      date,
+      time,
+      name: value.name || 'Unknown',
+      walkerId: value.walkerId,
+      phone: value.phone || undefined,
+      notes: value.notes || '',
+      timestamp: toSeconds(value.timestamp || 0),
+      duration: value.duration || DEFAULT_WALK_MINUTES,
+      ownerId: value.ownerId,
+      seriesId: value.seriesId,
+      coverRequestedAt: value.coverRequestedAt,
+      checkedInAt: value.checkedInAt,
+      checkedOutAt: value.checkedOutAt
+    };
+  }
+  
+  // Read a stored slot by its key, converted like toSlot
+  private async readSlot(key: string): Promise<WalkingSlot | null> {
+    const value = await this.getValue<SlotData>(key);
+    if (!value) {
+      return null;
+    }
+    // Keys are slots:DATE:TIME
+    const [, date, time] = key.split(':');
+    return this.toSlot(date, time, value);
+  }
+
   // Get schedule for a week
   async getSchedule(startDate: string): Promise<Record<string, WalkingSlot[]>> {
     const schedule: Record<string, WalkingSlot[]> = {};
     
     // Generate 7 days from start date
-    const dates: string[] = [];
-    const start = new Date(startDate);
-    
     for (let i = 0; i < 7; i++) {
-      const date = new Date(start);
-      date.setDate(date.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-      dates.push(dateStr);
-      schedule[dateStr] = [];
+      schedule[addDays(startDate, i)] = [];
     }
 
     try {
-      // Get all keys using non-filter approach since filter may not work reliably
-      const allKeys = await this.db.list();
-      const keyArray = typeof allKeys === 'object' && !Array.isArray(allKeys) 
-        ? Object.keys(allKeys) 
-        : allKeys;
-        
-      // Manual filtering to find relevant keys
-      const relevantKeys: string[] = [];
-      if (Array.isArray(keyArray)) {
-        for (const key of keyArray) {
-          for (const date of dates) {
-            if (key.indexOf(`slots:${date}:`) === 0) {
-              relevantKeys.push(key);
-              break;
-            }
-          }
-        }
-      }
-      
-      // Fetch all slots and organize by date
-      for (const key of relevantKeys) {
-        try {
-          const value = await this.db.get(key);
-          if (value) {
-            const parts = key.split(':');
-            if (parts.length === 3) {
-              const date = parts[1];
-              if (schedule[date]) {
-                // Convert to expected type
-                const slot = {
-                  date: parts[1], 
-                  time: parts[2],
-                  name: value.name || 'Unknown',
-                  notes: value.notes || '',
-                  timestamp: value.timestamp || Date.now()
-                } as WalkingSlot;
-                
-                schedule[date].push(slot);
-              }
-            }
-          }
-        } catch (e) {
-          console.error('Error fetching slot:', key, e);
-        }
-      }
-
-      // Sort slots by time
-      for (const date in schedule) {
-        schedule[date].sort((a, b) => a.time.localeCompare(b.time));
+      // Slots come back in date and time order; the schedule is public, so no phones
+      for (const { phone, ...slot } of await this.getSlotsBetween(startDate, addDays(startDate, 6))) {
+        schedule[slot.date].push(slot);
       }
     } catch (error) {
       console.error('Schedule fetch error:', error);
@@ -279,50 +884,88 @@ export class ReplitStorage implements IStorage {
     return schedule;
   }
 
-  // Get specific slot
+  // Get specific slot, without the walker's phone number
   async getSlot(date: string, time: string): Promise<WalkingSlot | null> {
     const key = this.createSlotKey(date, time);
     try {
-      const value = await this.db.get(key);
+      const value = await this.getValue<SlotData>(key);
       if (!value) return null;
       
-      // Convert to expected type
-      return {
-        date,
-        time,
-        name: value.name || 'Unknown',
-        notes: value.notes || '',
-        timestamp: value.timestamp || Date.now()
-      } as WalkingSlot;
+      const { phone, ...slot } = this.toSlot(date, time, value);
+      return slot;
     } catch (error) {
       console.error('Error getting slot:', error);
       return null;
     }
   }
 
-  // Add a new slot
-  async addSlot(slotData: InsertSlot): Promise<WalkingSlot> {
-    const { date, time, name, notes } = slotData;
-    const key = this.createSlotKey(date, time);
+  // Get all slots in an inclusive date range, ordered by date and time
+  async getSlotsBetween(startDate: string, endDate: string): Promise<WalkingSlot[]> {
+    const slots: WalkingSlot[] = [];
     
-    // Check if slot already exists
-    const existingSlot = await this.getSlot(date, time);
-    if (existingSlot) {
-      throw new Error('Slot is already booked');
+    for (const key of await this.listKeys('slots:')) {
+      // Keys are slots:DATE:TIME, so the date can be checked before fetching
+      const [, date, time] = key.split(':');
+      if (date >= startDate && date <= endDate) {
+        const value = await this.getValue<SlotData>(key);
+        if (value) {
+          slots.push(this.toSlot(date, time, value));
+        }
+      }
     }
+    
+    return slots.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+  }
 
-    // Create the new slot
-    const newSlot: WalkingSlot = {
-      date,
-      time,
-      name,
-      notes: notes || '',
-      timestamp: Date.now()
-    };
-
-    // Save to database
-    await this.db.set(key, newSlot);
-    return newSlot;
+  // Add a new slot
+  async addSlot(slotData: InsertSlot, options: AddSlotOptions = {}): Promise<WalkingSlot> {
+    const { date, time, name, phone, notes, duration } = slotData;
+    const key = this.createSlotKey(date, time);
+    const walker = await this.resolveWalker(name);
+
+    return this.withSlotLock(key, async () => {
+      // Check if slot already exists
+      const existingSlot = await this.getSlot(date, time);
+      if (existingSlot) {
+        throw new SlotConflictError(date, time);
+      }
+
+      // Create the new slot
+      const newSlot: WalkingSlot = {
+        date,
+        time,
+        name: walker.name,
+        walkerId: walker.id,
+        phone: phone || undefined,
+        notes: notes || '',
+        timestamp: options.timestamp ?? Math.floor(Date.now() / 1000),
+        duration: duration || DEFAULT_WALK_MINUTES,
+        ownerId: options.ownerId,
+        seriesId: options.seriesId
+      };
+
+      // Save to database
+      await this.db.set(key, newSlot);
+      return newSlot;
+    });
+  }
+
+  // Bookings in progress, by slot key
+  private slotLocks = new Map<string, Promise<unknown>>();
+
+  // Replit Database has no conditional writes, so bookings of the same slot
+  // are run one after another. This only holds within a single server process.
+  private async withSlotLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.slotLocks.get(key) || Promise.resolve();
+    const current = previous.catch(() => {}).then(fn);
+    this.slotLocks.set(key, current);
+    try {
+      return await current;
+    } finally {
+      if (this.slotLocks.get(key) === current) {
+        this.slotLocks.delete(key);
+      }
+    }
   }
 
   // Remove a slot
@@ -340,80 +983,103 @@ export class ReplitStorage implements IStorage {
     return true;
   }
   
-  // Get walker color index - creates a new entry if walker doesn't exist
-  async getWalkerColorIndex(name: string): Promise<number> {
-    try {
-      const walkerKey = this.createWalkerKey(name);
-      
-      // Check if walker exists in database
-      const colorData = await this.db.get(walkerKey);
-      if (colorData && typeof colorData.colorIndex === 'number') {
-        return colorData.colorIndex;
-      }
-      
-      // Walker doesn't exist, need to assign a new color
-      
-      // Get all walkers to find the next available color index
+  // Walkers being created, by normalized name, so concurrent bookings by a
+  // new walker create them once. Like the slot locks, this only holds
+  // within a single server process.
+  private pendingWalkers = new Map<string, Promise<Walker>>();
+  
+  // Find a walker by name, or create them with the next free color
+  private async resolveWalker(name: string): Promise<Walker> {
+    const normalized = normalizeWalkerName(name);
+    const pending = this.pendingWalkers.get(normalized);
+    if (pending) {
+      return pending;
+    }
+    
+    const created = (async () => {
       const walkers = await this.getAllWalkers();
-      const existingIndices = walkers.map(walker => walker.colorIndex);
-      
-      // Find next available color index
-      let nextIndex = 0;
-      while (existingIndices.includes(nextIndex)) {
-        nextIndex = (nextIndex + 1) % this.MAX_COLORS;
+      const existing = walkers.find(walker => walker.name === normalized);
+      if (existing) {
+        return existing;
       }
       
-      // Save the new walker with assigned color
-      await this.db.set(walkerKey, { colorIndex: nextIndex });
-      
-      return nextIndex;
-    } catch (error) {
-      console.error('Error getting walker color:', error);
-      // Return a default value in case of error
-      return 0;
+      const walker: Walker = {
+        id: await this.nextWalkerId(),
+        name: normalized,
+        colorIndex: nextColorIndex(walkers, this.MAX_COLORS),
+        phoneVerified: false,
+        broadcastOptOut: false
+      };
+      await this.saveWalker(walker);
+      return walker;
+    })();
+    
+    this.pendingWalkers.set(normalized, created);
+    try {
+      return await created;
+    } finally {
+      this.pendingWalkers.delete(normalized);
     }
   }
   
-  // Get all walkers with their color indices
-  async getAllWalkers(): Promise<{name: string, colorIndex: number, phone?: string}[]> {
-    const walkers: {name: string, colorIndex: number, phone?: string}[] = [];
+  // Allocate the next walker id from a counter key
+  private async nextWalkerId(): Promise<number> {
+    const id = ((await this.getValue<number>('walker_counter')) || 0) + 1;
+    await this.db.set('walker_counter', id);
+    return id;
+  }
+  
+  // Store a walker under their name; the id is kept in the value
+  private async saveWalker({ name, ...walkerData }: Walker): Promise<void> {
+    await this.db.set(this.createWalkerKey(name), walkerData);
+  }
+  
+  async getWalker(id: number): Promise<Walker | null> {
+    const walkers = await this.getAllWalkers();
+    return walkers.find(walker => walker.id === id) || null;
+  }
+  
+  async findWalker(name: string): Promise<Walker | null> {
+    const normalized = normalizeWalkerName(name);
+    const walkers = await this.getAllWalkers();
+    return walkers.find(walker => walker.name === normalized) || null;
+  }
+  
+  // Get walker color index - creates a new entry if walker doesn't exist
+  async getWalkerColorIndex(name: string): Promise<number> {
+    return (await this.resolveWalker(name)).colorIndex;
+  }
+  
+  // Get all walkers with their color indices. Walkers stored before ids
+  // existed are given one the first time they're read.
+  async getAllWalkers(): Promise<Walker[]> {
+    const walkers: Walker[] = [];
     
-    try {
-      // Get all keys from database
-      const allKeys = await this.db.list();
-      const keyArray = typeof allKeys === 'object' && !Array.isArray(allKeys) 
-        ? Object.keys(allKeys) 
-        : allKeys;
-        
-      // Filter for walker keys and extract data
-      if (Array.isArray(keyArray)) {
-        const walkerKeys = keyArray.filter(key => key.startsWith('walker:'));
-        
-        for (const key of walkerKeys) {
-          try {
-            const value = await this.db.get(key);
-            if (value && typeof value.colorIndex === 'number') {
-              const name = key.substring(7); // Remove 'walker:' prefix
-              walkers.push({
-                name,
-                colorIndex: value.colorIndex,
-                phone: value.phone
-              });
-            }
-          } catch (e) {
-            console.error('Error fetching walker data:', key, e);
-          }
-        }
+    for (const key of await this.listKeys('walker:')) {
+      const value = await this.getValue<WalkerData>(key);
+      if (!value || typeof value.colorIndex !== 'number') {
+        continue;
       }
-    } catch (error) {
-      console.error('Error fetching walkers:', error);
+      
+      const walker: Walker = {
+        id: value.id ?? await this.nextWalkerId(),
+        name: key.substring('walker:'.length),
+        colorIndex: value.colorIndex,
+        phone: value.phone,
+        phoneVerified: !!value.phoneVerified,
+        broadcastOptOut: !!value.broadcastOptOut
+      };
+      if (typeof value.id !== 'number') {
+        await this.saveWalker(walker);
+      }
+      walkers.push(walker);
     }
     
-    return walkers;
+    return walkers.sort((a, b) => a.id - b.id);
   }
   
   // Search walkers by partial name match
-  async searchWalkers(query: string): Promise<{name: string, colorIndex: number, phone?: string}[]> {
+  async searchWalkers(query: string): Promise<Walker[]> {
     if (!query) {
       return this.getAllWalkers();
     }
@@ -427,32 +1093,503 @@ export class ReplitStorage implements IStorage {
   }
   
   // Update walker information
-  async updateWalker(name: string, phone?: string): Promise<{name: string, colorIndex: number, phone?: string}> {
-    try {
-      const walkerKey = this.createWalkerKey(name);
+  async updateWalker(name: string, phone?: string): Promise<Walker> {
+    const walker = await this.resolveWalker(name);
+    if (!phone || walker.phone) {
+      return walker;
+    }
+    
+    const updated = { ...walker, phone, phoneVerified: false };
+    await this.saveWalker(updated);
+    return updated;
+  }
+  
+  // Rank walkers by their walks in an inclusive date range
+  private async rankWalkersBetween(startDate: string, endDate: string, completedOnly: boolean): Promise<LeaderboardEntry[]> {
+    const slots = (await this.getSlotsBetween(startDate, endDate))
+      .filter(slot => !completedOnly || slot.checkedOutAt);
+    return rankWalkers(slots, await this.getAllWalkers());
+  }
+  
+  // Get leaderboard of walkers with the most walks (all time)
+  async getLeaderboardAllTime(completedOnly = false): Promise<LeaderboardEntry[]> {
+    return this.rankWalkersBetween(FIRST_DATE, LAST_DATE, completedOnly);
+  }
+  
+  // Get leaderboard for the 7 days from a date
+  async getLeaderboardNextWeek(startDate: string, completedOnly = false): Promise<LeaderboardEntry[]> {
+    return this.rankWalkersBetween(startDate, addDays(startDate, 6), completedOnly);
+  }
+
+  // Edit a walker's name, phone and color (renaming also moves their slots and photos)
+  async updateWalkerDetails(id: number, updates: UpdateWalker): Promise<Walker | null> {
+    const walker = await this.getWalker(id);
+    if (!walker) {
+      return null;
+    }
+    
+    const updated: Walker = {
+      id,
+      name: updates.name ? normalizeWalkerName(updates.name) : walker.name,
+      colorIndex: updates.colorIndex ?? walker.colorIndex,
+      phone: updates.phone !== undefined ? updates.phone || undefined : walker.phone,
+      phoneVerified: updates.phone !== undefined && (updates.phone || undefined) !== walker.phone
+        ? false
+        : walker.phoneVerified,
+      broadcastOptOut: updates.broadcastOptOut ?? walker.broadcastOptOut
+    };
+    
+    if (updated.name !== walker.name) {
+      await this.db.delete(this.createWalkerKey(walker.name));
       
-      // Get the current color index or generate a new one
-      const colorIndex = await this.getWalkerColorIndex(name);
+      // Move the walker's slots and photos to the new name
+      for (const key of await this.listKeys('slots:')) {
+        const slot = await this.readSlot(key);
+        if (slot && slot.walkerId === id) {
+          await this.db.set(key, { ...slot, name: updated.name });
+        }
+      }
+      for (const photo of await this.findWalkPhotos(photo => photo.walkerId === id)) {
+        await this.db.set(this.createPhotoKey(photo.id), { ...photo, name: updated.name });
+      }
+    }
+    
+    await this.saveWalker(updated);
+    return updated;
+  }
+  
+  // Save a trusted phone number for a walker
+  async verifyWalkerPhone(id: number, phone: string): Promise<Walker | null> {
+    const walker = await this.getWalker(id);
+    if (!walker) {
+      return null;
+    }
+    
+    const updated = { ...walker, phone, phoneVerified: true };
+    await this.saveWalker(updated);
+    return updated;
+  }
+  
+  // Hand a booked slot to another walker
+  async reassignSlot(date: string, time: string, name: string, phone?: string): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    const slot = await this.readSlot(key);
+    if (!slot) {
+      return null;
+    }
+    
+    // The new walker doesn't hold the original booker's token, and the walk
+    // leaves their series so ending it won't remove it
+    const walker = await this.resolveWalker(name);
+    const updatedSlot: WalkingSlot = {
+      ...slot,
+      date,
+      time,
+      name: walker.name,
+      walkerId: walker.id,
+      phone,
+      ownerId: undefined,
+      seriesId: undefined,
+      coverRequestedAt: undefined
+    };
+    await this.db.set(key, updatedSlot);
+    return updatedSlot;
+  }
+  
+  // Mark a slot as looking for cover, or take the request back
+  async setCoverRequest(date: string, time: string, requested: boolean): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    
+    return this.withSlotLock(key, async () => {
+      const slot = await this.readSlot(key);
+      if (!slot) {
+        return null;
+      }
       
-      // Update the walker data with the phone number
-      await this.db.set(walkerKey, { 
-        colorIndex,
-        phone: phone || undefined
-      });
+      const updatedSlot: WalkingSlot = {
+        ...slot,
+        date,
+        time,
+        coverRequestedAt: requested ? Math.floor(Date.now() / 1000) : undefined
+      };
+      await this.db.set(key, updatedSlot);
+      return updatedSlot;
+    });
+  }
+  
+  // Give a slot that's looking for cover to the walker taking it over; the
+  // slot lock stops two walkers claiming it at once
+  async claimSlot(date: string, time: string, name: string, phone: string | undefined, ownerId: string): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    const walker = await this.resolveWalker(name);
+    
+    return this.withSlotLock(key, async () => {
+      const slot = await this.readSlot(key);
+      if (!slot || !slot.coverRequestedAt) {
+        return null;
+      }
       
-      return {
-        name,
-        colorIndex,
-        phone
+      // The walk leaves the original walker's series so ending it won't remove it
+      const updatedSlot: WalkingSlot = {
+        ...slot,
+        date,
+        time,
+        name: walker.name,
+        walkerId: walker.id,
+        phone,
+        ownerId,
+        seriesId: undefined,
+        coverRequestedAt: undefined
       };
-    } catch (error) {
-      console.error('Error updating walker:', error);
-      return {
-        name,
-        colorIndex: 0,
-        phone
+      await this.db.set(key, updatedSlot);
+      return updatedSlot;
+    });
+  }
+  
+  // Record when a walk actually started, unless it already has
+  async checkInSlot(date: string, time: string, checkedInAt: number): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    
+    return this.withSlotLock(key, async () => {
+      const slot = await this.readSlot(key);
+      if (!slot || slot.checkedInAt) {
+        return null;
+      }
+      
+      const updatedSlot: WalkingSlot = { ...slot, date, time, checkedInAt };
+      await this.db.set(key, updatedSlot);
+      return updatedSlot;
+    });
+  }
+  
+  // Record when a started walk actually finished, unless it already has
+  async checkOutSlot(date: string, time: string, checkedOutAt: number): Promise<WalkingSlot | null> {
+    const key = this.createSlotKey(date, time);
+    
+    return this.withSlotLock(key, async () => {
+      const slot = await this.readSlot(key);
+      if (!slot || !slot.checkedInAt || slot.checkedOutAt) {
+        return null;
+      }
+      
+      const updatedSlot: WalkingSlot = { ...slot, date, time, checkedOutAt };
+      await this.db.set(key, updatedSlot);
+      return updatedSlot;
+    });
+  }
+
+  // Helper to create consistent series keys
+  private createSeriesKey(id: number): string {
+    return `series:${id}`;
+  }
+  
+  // Record a recurring series rule
+  async addSeries(seriesData: InsertSeries, ownerId?: string): Promise<RecurringSeries> {
+    const { name, phone, notes, time, duration, weekdays, startDate, endDate, occurrences } = seriesData;
+    
+    // Allocate the next series id from a counter key
+    const id = ((await this.getValue<number>('series_counter')) || 0) + 1;
+    await this.db.set('series_counter', id);
+    
+    const newSeries: RecurringSeries = {
+      id,
+      name,
+      phone,
+      notes: notes || '',
+      time,
+      duration: duration || DEFAULT_WALK_MINUTES,
+      weekdays,
+      startDate,
+      endDate,
+      occurrences,
+      ownerId,
+      timestamp: Math.floor(Date.now() / 1000)
+    };
+    
+    await this.db.set(this.createSeriesKey(id), newSeries);
+    return newSeries;
+  }
+  
+  async getSeries(id: number): Promise<RecurringSeries | null> {
+    const series = await this.getValue<Omit<RecurringSeries, 'duration'> & { duration?: number }>(this.createSeriesKey(id));
+    // Series stored before walks had a duration use the default
+    return series ? { duration: DEFAULT_WALK_MINUTES, ...series } : null;
+  }
+  
+  // Remove a series' walks that haven't started yet and end the rule the day before
+  async endSeries(id: number, fromDate: string, fromTime: string): Promise<WalkingSlot[]> {
+    const removed: WalkingSlot[] = [];
+    
+    for (const key of await this.listKeys('slots:')) {
+      const slot = await this.readSlot(key);
+      if (slot && slot.seriesId === id && isUnstartedAfter(slot, fromDate, fromTime)) {
+        removed.push(slot);
+        await this.db.delete(key);
+      }
+    }
+    
+    const series = await this.getSeries(id);
+    if (series) {
+      await this.db.set(this.createSeriesKey(id), {
+        ...series,
+        endDate: addDays(fromDate, -1),
+        occurrences: undefined
+      });
+    }
+    
+    return removed.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Helper to create consistent waitlist keys
+  private createWaitlistKey(id: number): string {
+    return `waitlist:${id}`;
+  }
+  
+  // Add a walker to the end of a day's waitlist
+  async addWaitlistEntry(entry: Omit<JoinWaitlist, "ownerToken">, ownerId?: string): Promise<WaitlistEntry> {
+    // Allocate the next waitlist id from a counter key
+    const id = ((await this.getValue<number>('waitlist_counter')) || 0) + 1;
+    await this.db.set('waitlist_counter', id);
+    
+    const newEntry: WaitlistEntry = {
+      id,
+      date: entry.date,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      name: entry.name,
+      phone: entry.phone,
+      ownerId,
+      timestamp: Math.floor(Date.now() / 1000)
+    };
+    
+    await this.db.set(this.createWaitlistKey(id), newEntry);
+    return newEntry;
+  }
+  
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | null> {
+    return (await this.getValue<WaitlistEntry>(this.createWaitlistKey(id))) || null;
+  }
+  
+  async getWaitlistBetween(startDate: string, endDate: string): Promise<WaitlistEntry[]> {
+    const entries: WaitlistEntry[] = [];
+    
+    for (const key of await this.listKeys('waitlist:')) {
+      const entry = await this.getValue<WaitlistEntry>(key);
+      if (entry && entry.date >= startDate && entry.date <= endDate) {
+        entries.push(entry);
+      }
+    }
+    
+    return entries.sort(byPlaceInLine);
+  }
+  
+  async setWaitlistHold(id: number, heldTime: string | null, holdExpiresAt?: number): Promise<WaitlistEntry | null> {
+    const key = this.createWaitlistKey(id);
+    return this.withSlotLock(key, async () => {
+      const entry = await this.getValue<WaitlistEntry>(key);
+      if (!entry) {
+        return null;
+      }
+      
+      const updatedEntry: WaitlistEntry = {
+        ...entry,
+        heldTime: heldTime || undefined,
+        holdExpiresAt: heldTime ? holdExpiresAt : undefined
       };
+      await this.db.set(key, updatedEntry);
+      return updatedEntry;
+    });
+  }
+  
+  async removeWaitlistEntry(id: number): Promise<boolean> {
+    const key = this.createWaitlistKey(id);
+    if (!(await this.getValue(key))) {
+      return false;
+    }
+    await this.db.delete(key);
+    return true;
+  }
+  
+  // Helper to create consistent walk report keys
+  private createReportKey(date: string, time: string): string {
+    return `reports:${date}:${time}`;
+  }
+  
+  async saveWalkReport(report: WalkReport): Promise<WalkReport> {
+    await this.db.set(this.createReportKey(report.date, report.time), report);
+    return report;
+  }
+  
+  async getWalkReportsBetween(startDate: string, endDate: string): Promise<WalkReport[]> {
+    const reports: WalkReport[] = [];
+    
+    for (const key of await this.listKeys('reports:')) {
+      const report = await this.getValue<WalkReport>(key);
+      if (report && report.date >= startDate && report.date <= endDate) {
+        reports.push(report);
+      }
+    }
+    
+    return reports.sort(byWalkTime);
+  }
+  
+  async getCareInstructions(): Promise<CareInstructions | null> {
+    const [latest] = await this.getCareInstructionsHistory();
+    return latest || null;
+  }
+  
+  async getCareInstructionsHistory(): Promise<CareInstructions[]> {
+    const versions: CareInstructions[] = [];
+    for (const key of await this.listKeys('care:')) {
+      const saved = await this.getValue<CareInstructions>(key);
+      if (saved) {
+        versions.push(saved);
+      }
     }
+    return versions.sort((a, b) => b.version - a.version);
+  }
+  
+  // Saves are run one after another like bookings, so two saves from the
+  // same version can't both write the next one
+  async addCareInstructions(sections: CareSection[], updatedAt: number, baseVersion: number): Promise<CareInstructions | null> {
+    return this.withSlotLock('care', async () => {
+      const baseMissing = baseVersion > 0 && !(await this.getValue(`care:${baseVersion}`));
+      if (baseMissing || await this.getValue(`care:${baseVersion + 1}`)) {
+        return null;
+      }
+      const saved: CareInstructions = { version: baseVersion + 1, sections, updatedAt };
+      await this.db.set(`care:${saved.version}`, saved);
+      return saved;
+    });
+  }
+  
+  // Helper to create consistent walk photo keys
+  private createPhotoKey(id: number): string {
+    return `photos:${id}`;
+  }
+  
+  // All stored photos matching a filter, in upload order
+  private async findWalkPhotos(matches: (photo: WalkPhoto) => boolean): Promise<WalkPhoto[]> {
+    const photos: WalkPhoto[] = [];
+    
+    for (const key of await this.listKeys('photos:')) {
+      const photo = await this.getValue<WalkPhoto>(key);
+      if (photo && matches(photo)) {
+        photos.push(photo);
+      }
+    }
+    
+    return photos.sort(byUploadTime);
+  }
+  
+  async addWalkPhoto(photo: Omit<WalkPhoto, "id">): Promise<WalkPhoto> {
+    // Allocate the next photo id from a counter key
+    const id = ((await this.getValue<number>('photos_counter')) || 0) + 1;
+    await this.db.set('photos_counter', id);
+    
+    const newPhoto: WalkPhoto = { ...photo, id };
+    await this.db.set(this.createPhotoKey(id), newPhoto);
+    return newPhoto;
+  }
+  
+  async getWalkPhoto(id: number): Promise<WalkPhoto | null> {
+    return (await this.getValue<WalkPhoto>(this.createPhotoKey(id))) || null;
+  }
+  
+  async getWalkPhotos(date: string, time: string): Promise<WalkPhoto[]> {
+    return this.findWalkPhotos(photo => photo.date === date && photo.time === time);
+  }
+  
+  async getWalkPhotosByWalker(walkerId: number): Promise<WalkPhoto[]> {
+    return this.findWalkPhotos(photo => photo.walkerId === walkerId);
+  }
+  
+  // Helper to create consistent delivery log keys
+  private createDeliveryKey(id: number): string {
+    return `deliveries:${id}`;
+  }
+  
+  async addDelivery(record: InsertDelivery): Promise<void> {
+    // Allocate the next delivery id from a counter key
+    const id = ((await this.getValue<number>('deliveries_counter')) || 0) + 1;
+    await this.db.set('deliveries_counter', id);
+    await this.db.set(this.createDeliveryKey(id), { ...record, id, sentAt: new Date().toISOString() });
+  }
+  
+  // Every delivery record, newest first
+  private async getAllDeliveries(): Promise<DeliveryRecord[]> {
+    const records: DeliveryRecord[] = [];
+    
+    for (const key of await this.listKeys('deliveries:')) {
+      const record = await this.getValue<Stored<DeliveryRecord, 'sentAt'>>(key);
+      if (record) {
+        records.push({ ...record, sentAt: new Date(record.sentAt) });
+      }
+    }
+    
+    return records.sort((a, b) => b.id - a.id);
+  }
+  
+  async hasDelivery(channel: string, messageHash: string): Promise<boolean> {
+    const records = await this.getAllDeliveries();
+    return records.some(record =>
+      record.channel === channel && record.messageHash === messageHash && !record.suppressedReason
+    );
+  }
+  
+  async getDeliveries(filters: DeliveryLogFilters, limit: number): Promise<DeliveryRecord[]> {
+    const records = await this.getAllDeliveries();
+    return records
+      .filter(record => matchesDeliveryFilters(record, filters))
+      .slice(0, limit);
+  }
+  
+  // Helper to create consistent SMS subscription keys
+  private createSmsSubscriptionKey(phone: string): string {
+    return `sms_subscription:${phone}`;
+  }
+  
+  async getSmsSubscription(phone: string): Promise<SmsSubscription | null> {
+    const subscription = await this.getValue<Stored<SmsSubscription, 'updatedAt'>>(this.createSmsSubscriptionKey(phone), this.root);
+    return subscription ? { ...subscription, updatedAt: new Date(subscription.updatedAt) } : null;
+  }
+  
+  async setSmsSubscription(phone: string, status: SmsSubscriptionStatus, source: string, onlyIfNew = false): Promise<void> {
+    if (onlyIfNew && await this.getSmsSubscription(phone)) {
+      return;
+    }
+    await this.root.set(this.createSmsSubscriptionKey(phone), {
+      phone,
+      status,
+      source,
+      updatedAt: new Date().toISOString()
+    });
+  }
+  
+  async getHouseholds(): Promise<Household[]> {
+    const found: Household[] = [];
+    for (const key of await this.listKeys('household:', this.root)) {
+      const household = await this.getValue<Household>(key, this.root);
+      if (household) {
+        found.push(household);
+      }
+    }
+    return found.sort((a, b) => a.id - b.id);
+  }
+  
+  async getHouseholdBySlug(slug: string): Promise<Household | null> {
+    const found = await this.getHouseholds();
+    return found.find(household => household.slug === slug) || null;
+  }
+  
+  async addHousehold(household: InsertHousehold, ownerKeyHash: string): Promise<Household> {
+    // Allocate the next household id from a counter key
+    const id = ((await this.getValue<number>('household_counter', this.root)) || 0) + 1;
+    await this.root.set('household_counter', id);
+    
+    const newHousehold: Household = { ...household, id, ownerKeyHash, timestamp: Math.floor(Date.now() / 1000) };
+    await this.root.set(`household:${id}`, newHousehold);
+    return newHousehold;
   }
 }
 
@@ -461,27 +1598,38 @@ export class DatabaseStorage implements IStorage {
   // Total number of colors available in the app
   private readonly MAX_COLORS = 10;
 
+  // Views share a cache of each other, so forHousehold hands out one per household
+  constructor(
+    private householdId = DEFAULT_HOUSEHOLD_ID,
+    private views = new Map<number, DatabaseStorage>(),
+  ) {
+    views.set(householdId, this);
+  }
+
+  forHousehold(householdId: number): IStorage {
+    return this.views.get(householdId) || new DatabaseStorage(householdId, this.views);
+  }
+
+  // Only rows belonging to this view's household
+  private inHousehold(table: { householdId: Column }): SQL {
+    return eq(table.householdId, this.householdId);
+  }
+
   // Get schedule for a week
   async getSchedule(startDate: string): Promise<Record<string, WalkingSlot[]>> {
     const schedule: Record<string, WalkingSlot[]> = {};
     
     // Generate 7 days from start date
-    const dates: string[] = [];
-    const start = new Date(startDate);
-    
     for (let i = 0; i < 7; i++) {
-      const date = new Date(start);
-      date.setDate(date.getDate() + i);
-      const dateStr = date.toISOString().split('T')[0];
-      dates.push(dateStr);
-      schedule[dateStr] = [];
+      schedule[addDays(startDate, i)] = [];
     }
 
     try {
       // Get all slots for the date range
-      const endDate = dates[dates.length - 1];
+      const endDate = addDays(startDate, 6);
       const slots = await db.select().from(walkingSlots)
         .where(and(
+          this.inHousehold(walkingSlots),
           gte(walkingSlots.date, startDate),
           lte(walkingSlots.date, endDate)
         ))
@@ -494,8 +1642,15 @@ export class DatabaseStorage implements IStorage {
             date: slot.date,
             time: slot.time,
             name: slot.name,
+            walkerId: slot.walkerId || undefined,
             notes: slot.notes || '',
-            timestamp: slot.timestamp
+            timestamp: slot.timestamp,
+            duration: slot.duration,
+            ownerId: slot.ownerId || undefined,
+            seriesId: slot.seriesId || undefined,
+            coverRequestedAt: slot.coverRequestedAt || undefined,
+            checkedInAt: slot.checkedInAt || undefined,
+            checkedOutAt: slot.checkedOutAt || undefined
           });
         }
       }
@@ -511,6 +1666,7 @@ export class DatabaseStorage implements IStorage {
     try {
       const [slot] = await db.select().from(walkingSlots)
         .where(and(
+          this.inHousehold(walkingSlots),
           eq(walkingSlots.date, date),
           eq(walkingSlots.time, time)
         ));
@@ -521,8 +1677,15 @@ export class DatabaseStorage implements IStorage {
         date: slot.date,
         time: slot.time,
         name: slot.name,
+        walkerId: slot.walkerId || undefined,
         notes: slot.notes || '',
-        timestamp: slot.timestamp
+        timestamp: slot.timestamp,
+        duration: slot.duration,
+        ownerId: slot.ownerId || undefined,
+        seriesId: slot.seriesId || undefined,
+        coverRequestedAt: slot.coverRequestedAt || undefined,
+        checkedInAt: slot.checkedInAt || undefined,
+        checkedOutAt: slot.checkedOutAt || undefined
       };
     } catch (error) {
       console.error('Error getting slot:', error);
@@ -530,28 +1693,47 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Add a new slot
-  async addSlot(slotData: InsertSlot): Promise<WalkingSlot> {
-    const { date, time, name, phone, notes } = slotData;
+  // Get all slots in an inclusive date range, ordered by date and time
+  async getSlotsBetween(startDate: string, endDate: string): Promise<WalkingSlot[]> {
+    const slots = await db.select().from(walkingSlots)
+      .where(and(
+        this.inHousehold(walkingSlots),
+        gte(walkingSlots.date, startDate),
+        lte(walkingSlots.date, endDate)
+      ))
+      .orderBy(asc(walkingSlots.date), asc(walkingSlots.time));
     
-    // Check if slot already exists
-    const existingSlot = await this.getSlot(date, time);
-    if (existingSlot) {
-      throw new Error('Slot is already booked');
-    }
+    return slots.map(slot => this.toSlot(slot));
+  }
+
+  // Add a new slot
+  async addSlot(slotData: InsertSlot, options: AddSlotOptions = {}): Promise<WalkingSlot> {
+    const { date, time, name, phone, notes, duration } = slotData;
+    const walker = await this.resolveWalker(name);
 
     // Create the new slot
     const newSlot = {
       date,
       time,
-      name,
+      name: walker.name,
+      walkerId: walker.id,
       phone: phone || undefined,
       notes: notes || '',
-      timestamp: Math.floor(Date.now() / 1000)
+      timestamp: options.timestamp ?? Math.floor(Date.now() / 1000),
+      duration: duration || DEFAULT_WALK_MINUTES,
+      ownerId: options.ownerId,
+      seriesId: options.seriesId
     };
 
-    // Insert into database
-    await db.insert(walkingSlots).values(newSlot);
+    // Insert into database; the unique (date, time) constraint decides
+    // which of several concurrent bookings wins
+    const inserted = await db.insert(walkingSlots)
+      .values({ ...newSlot, householdId: this.householdId })
+      .onConflictDoNothing({ target: [walkingSlots.householdId, walkingSlots.date, walkingSlots.time] })
+      .returning({ id: walkingSlots.id });
+    if (inserted.length === 0) {
+      throw new SlotConflictError(date, time);
+    }
     
     return newSlot;
   }
@@ -567,6 +1749,7 @@ export class DatabaseStorage implements IStorage {
     // Delete the slot
     await db.delete(walkingSlots)
       .where(and(
+        this.inHousehold(walkingSlots),
         eq(walkingSlots.date, date),
         eq(walkingSlots.time, time)
       ));
@@ -574,195 +1757,667 @@ export class DatabaseStorage implements IStorage {
     return true;
   }
   
+  // Find a walker by name, or create them with the next free color. The
+  // unique name decides which of several concurrent creations wins.
+  private async resolveWalker(name: string): Promise<Walker> {
+    const existing = await this.findWalker(name);
+    if (existing) {
+      return existing;
+    }
+    
+    const [created] = await db.insert(walkers)
+      .values({
+        householdId: this.householdId,
+        name: normalizeWalkerName(name),
+        colorIndex: nextColorIndex(await this.getAllWalkers(), this.MAX_COLORS)
+      })
+      .onConflictDoNothing({ target: [walkers.householdId, walkers.name] })
+      .returning();
+    
+    return created ? this.toWalker(created) : (await this.findWalker(name))!;
+  }
+  
+  // Convert a walker row to the shared type
+  private toWalker(row: typeof walkers.$inferSelect): Walker {
+    return {
+      id: row.id,
+      name: row.name,
+      colorIndex: row.colorIndex,
+      phone: row.phone || undefined,
+      phoneVerified: row.phoneVerified,
+      broadcastOptOut: row.broadcastOptOut
+    };
+  }
+  
+  async getWalker(id: number): Promise<Walker | null> {
+    const [walker] = await db.select().from(walkers)
+      .where(and(this.inHousehold(walkers), eq(walkers.id, id)));
+    return walker ? this.toWalker(walker) : null;
+  }
+  
+  async findWalker(name: string): Promise<Walker | null> {
+    const [walker] = await db.select().from(walkers)
+      .where(and(this.inHousehold(walkers), eq(walkers.name, normalizeWalkerName(name))));
+    return walker ? this.toWalker(walker) : null;
+  }
+  
   // Get walker color index - creates a new entry if walker doesn't exist
   async getWalkerColorIndex(name: string): Promise<number> {
-    try {
-      // Check if walker exists in database
-      const [walker] = await db.select().from(walkerColors)
-        .where(eq(walkerColors.name, name));
-      
-      if (walker) {
-        return walker.colorIndex;
-      }
-      
-      // Walker doesn't exist, need to assign a new color
-      
-      // Get all walkers to find the next available color index
-      const walkers = await this.getAllWalkers();
-      const existingIndices = walkers.map(walker => walker.colorIndex);
-      
-      // Find next available color index
-      let nextIndex = 0;
-      while (existingIndices.includes(nextIndex)) {
-        nextIndex = (nextIndex + 1) % this.MAX_COLORS;
-      }
-      
-      // Save the new walker with assigned color
-      await db.insert(walkerColors).values({
-        name,
-        colorIndex: nextIndex
-      });
-      
-      return nextIndex;
-    } catch (error) {
-      console.error('Error getting walker color:', error);
-      // Return a default value in case of error
-      return 0;
-    }
+    return (await this.resolveWalker(name)).colorIndex;
   }
   
   // Get all walkers with their color indices and phone numbers
-  async getAllWalkers(): Promise<{name: string, colorIndex: number, phone?: string}[]> {
-    try {
-      const walkers = await db.select().from(walkerColors);
-      return walkers.map(walker => ({
-        name: walker.name,
-        colorIndex: walker.colorIndex,
-        phone: walker.phone
-      }));
-    } catch (error) {
-      console.error('Error fetching walkers:', error);
-      return [];
-    }
+  async getAllWalkers(): Promise<Walker[]> {
+    const rows = await db.select().from(walkers)
+      .where(this.inHousehold(walkers))
+      .orderBy(asc(walkers.id));
+    return rows.map(row => this.toWalker(row));
   }
   
   // Search walkers by partial name match
-  async searchWalkers(query: string): Promise<{name: string, colorIndex: number, phone?: string}[]> {
-    try {
-      if (!query || query.trim() === '') {
-        return this.getAllWalkers();
-      }
-      
-      // Get all walkers and filter by name (case-insensitive)
-      const allWalkers = await this.getAllWalkers();
-      const lowerQuery = query.toLowerCase();
-      
-      return allWalkers.filter(walker => 
-        walker.name.toLowerCase().includes(lowerQuery)
-      );
-    } catch (error) {
-      console.error('Error searching walkers:', error);
-      return [];
+  async searchWalkers(query: string): Promise<Walker[]> {
+    if (!query || query.trim() === '') {
+      return this.getAllWalkers();
     }
+    
+    // Get all walkers and filter by name (case-insensitive)
+    const allWalkers = await this.getAllWalkers();
+    const lowerQuery = query.toLowerCase();
+    
+    return allWalkers.filter(walker => 
+      walker.name.toLowerCase().includes(lowerQuery)
+    );
   }
   
   // Update or create a walker with phone number
-  async updateWalker(name: string, phone?: string): Promise<{name: string, colorIndex: number, phone?: string}> {
-    try {
-      // Check if walker exists
-      const [walker] = await db.select().from(walkerColors)
-        .where(eq(walkerColors.name, name));
-      
-      if (walker) {
-        // Update existing walker
-        await db.update(walkerColors)
-          .set({ phone })
-          .where(eq(walkerColors.name, name));
-        
-        return {
-          name,
-          colorIndex: walker.colorIndex,
-          phone
-        };
-      } else {
-        // Create new walker with a color index
-        const colorIndex = await this.getWalkerColorIndex(name);
-        
-        // Update with phone number
-        await db.update(walkerColors)
-          .set({ phone })
-          .where(eq(walkerColors.name, name));
-        
-        return {
-          name,
-          colorIndex,
-          phone
-        };
-      }
-    } catch (error) {
-      console.error('Error updating walker:', error);
-      // Return a default value in case of error
-      return {
-        name,
-        colorIndex: 0,
-        phone
-      };
+  async updateWalker(name: string, phone?: string): Promise<Walker> {
+    const walker = await this.resolveWalker(name);
+    if (!phone || walker.phone) {
+      return walker;
     }
+    
+    // Only fills in a missing number, even if another request saved one meanwhile
+    const [updated] = await db.update(walkers)
+      .set({ phone, phoneVerified: false })
+      .where(and(eq(walkers.id, walker.id), isNull(walkers.phone)))
+      .returning();
+    return updated ? this.toWalker(updated) : (await this.getWalker(walker.id))!;
+  }
+  
+  // Rank walkers by their walks, optionally only those matching a condition
+  private async rankWalkersWhere(condition: SQL | undefined, completedOnly: boolean): Promise<LeaderboardEntry[]> {
+    const slots = await db.select().from(walkingSlots)
+      .where(and(
+        this.inHousehold(walkingSlots),
+        condition,
+        completedOnly ? isNotNull(walkingSlots.checkedOutAt) : undefined
+      ));
+    return rankWalkers(slots.map(slot => this.toSlot(slot)), await this.getAllWalkers());
   }
   
   // Get leaderboard of walkers with the most walks (all time)
-  async getLeaderboardAllTime(): Promise<Array<{name: string, totalWalks: number, colorIndex: number}>> {
-    try {
-      // Get all slots from the database
-      const slots = await db.select().from(walkingSlots);
+  async getLeaderboardAllTime(completedOnly = false): Promise<LeaderboardEntry[]> {
+    return this.rankWalkersWhere(undefined, completedOnly);
+  }
+  
+  // Get leaderboard for the 7 days from a date
+  async getLeaderboardNextWeek(startDate: string, completedOnly = false): Promise<LeaderboardEntry[]> {
+    return this.rankWalkersWhere(and(
+      gte(walkingSlots.date, startDate),
+      lte(walkingSlots.date, addDays(startDate, 6))
+    ), completedOnly);
+  }
+
+  // Edit a walker's name, phone and color (renaming also moves their slots and photos)
+  async updateWalkerDetails(id: number, updates: UpdateWalker): Promise<Walker | null> {
+    const walker = await this.getWalker(id);
+    if (!walker) {
+      return null;
+    }
+    
+    const name = updates.name ? normalizeWalkerName(updates.name) : walker.name;
+    const colorIndex = updates.colorIndex ?? walker.colorIndex;
+    const phone = updates.phone !== undefined ? updates.phone || null : walker.phone || null;
+    const phoneVerified = phone !== (walker.phone || null) ? false : !!walker.phoneVerified;
+    const broadcastOptOut = updates.broadcastOptOut ?? !!walker.broadcastOptOut;
+    
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(walkers)
+        .set({ name, colorIndex, phone, phoneVerified, broadcastOptOut })
+        .where(eq(walkers.id, id))
+        .returning();
       
-      // Count walks per walker
-      const walkCounts: Record<string, number> = {};
-      for (const slot of slots) {
-        const walkerName = slot.name;
-        walkCounts[walkerName] = (walkCounts[walkerName] || 0) + 1;
+      if (name !== walker.name) {
+        // Keep the denormalized names on the walker's history in step
+        await tx.update(walkingSlots)
+          .set({ name })
+          .where(eq(walkingSlots.walkerId, id));
+        await tx.update(walkPhotos)
+          .set({ name })
+          .where(eq(walkPhotos.walkerId, id));
       }
       
-      // Convert to array and sort by count (descending)
-      const leaderboard = await Promise.all(
-        Object.entries(walkCounts).map(async ([name, totalWalks]) => {
-          // Get color index for each walker
-          const colorIndex = await this.getWalkerColorIndex(name);
-          return { name, totalWalks, colorIndex };
-        })
-      );
-      
-      // Sort by total walks (descending)
-      return leaderboard.sort((a, b) => b.totalWalks - a.totalWalks);
-    } catch (error) {
-      console.error("Error fetching all-time leaderboard:", error);
-      return [];
+      return this.toWalker(updated);
+    });
+  }
+  
+  // Save a trusted phone number for a walker
+  async verifyWalkerPhone(id: number, phone: string): Promise<Walker | null> {
+    const [updated] = await db.update(walkers)
+      .set({ phone, phoneVerified: true })
+      .where(and(this.inHousehold(walkers), eq(walkers.id, id)))
+      .returning();
+    return updated ? this.toWalker(updated) : null;
+  }
+  
+  // Hand a booked slot to another walker
+  async reassignSlot(date: string, time: string, name: string, phone?: string): Promise<WalkingSlot | null> {
+    // The new walker doesn't hold the original booker's token, and the walk
+    // leaves their series so ending it won't remove it
+    const walker = await this.resolveWalker(name);
+    const [slot] = await db.update(walkingSlots)
+      .set({ name: walker.name, walkerId: walker.id, phone: phone || null, ownerId: null, seriesId: null, coverRequestedAt: null })
+      .where(and(
+        this.inHousehold(walkingSlots),
+        eq(walkingSlots.date, date),
+        eq(walkingSlots.time, time)
+      ))
+      .returning();
+    
+    return slot ? this.toSlot(slot) : null;
+  }
+  
+  // Mark a slot as looking for cover, or take the request back
+  async setCoverRequest(date: string, time: string, requested: boolean): Promise<WalkingSlot | null> {
+    const [slot] = await db.update(walkingSlots)
+      .set({ coverRequestedAt: requested ? Math.floor(Date.now() / 1000) : null })
+      .where(and(
+        this.inHousehold(walkingSlots),
+        eq(walkingSlots.date, date),
+        eq(walkingSlots.time, time)
+      ))
+      .returning();
+    
+    return slot ? this.toSlot(slot) : null;
+  }
+  
+  // Give a slot that's looking for cover to the walker taking it over. A
+  // single conditional update, so the slot is never free and only one claim wins.
+  async claimSlot(date: string, time: string, name: string, phone: string | undefined, ownerId: string): Promise<WalkingSlot | null> {
+    // The walk leaves the original walker's series so ending it won't remove it
+    const walker = await this.resolveWalker(name);
+    const [slot] = await db.update(walkingSlots)
+      .set({ name: walker.name, walkerId: walker.id, phone: phone || null, ownerId, seriesId: null, coverRequestedAt: null })
+      .where(and(
+        this.inHousehold(walkingSlots),
+        eq(walkingSlots.date, date),
+        eq(walkingSlots.time, time),
+        isNotNull(walkingSlots.coverRequestedAt)
+      ))
+      .returning();
+    
+    return slot ? this.toSlot(slot) : null;
+  }
+  
+  // Record when a walk actually started; conditional, so it only succeeds once
+  async checkInSlot(date: string, time: string, checkedInAt: number): Promise<WalkingSlot | null> {
+    const [slot] = await db.update(walkingSlots)
+      .set({ checkedInAt })
+      .where(and(
+        this.inHousehold(walkingSlots),
+        eq(walkingSlots.date, date),
+        eq(walkingSlots.time, time),
+        isNull(walkingSlots.checkedInAt)
+      ))
+      .returning();
+    
+    return slot ? this.toSlot(slot) : null;
+  }
+  
+  // Record when a started walk actually finished; conditional, so it only succeeds once
+  async checkOutSlot(date: string, time: string, checkedOutAt: number): Promise<WalkingSlot | null> {
+    const [slot] = await db.update(walkingSlots)
+      .set({ checkedOutAt })
+      .where(and(
+        this.inHousehold(walkingSlots),
+        eq(walkingSlots.date, date),
+        eq(walkingSlots.time, time),
+        isNotNull(walkingSlots.checkedInAt),
+        isNull(walkingSlots.checkedOutAt)
+      ))
+      .returning();
+    
+    return slot ? this.toSlot(slot) : null;
+  }
+  
+  // Convert a slot row to the shared type
+  private toSlot(slot: typeof walkingSlots.$inferSelect): WalkingSlot {
+    return {
+      date: slot.date,
+      time: slot.time,
+      name: slot.name,
+      walkerId: slot.walkerId || undefined,
+      phone: slot.phone || undefined,
+      notes: slot.notes || '',
+      timestamp: slot.timestamp,
+      duration: slot.duration,
+      ownerId: slot.ownerId || undefined,
+      seriesId: slot.seriesId || undefined,
+      coverRequestedAt: slot.coverRequestedAt || undefined,
+      checkedInAt: slot.checkedInAt || undefined,
+      checkedOutAt: slot.checkedOutAt || undefined
+    };
+  }
+
+  // Convert a series row to the shared type
+  private toSeries(row: typeof recurringSeries.$inferSelect): RecurringSeries {
+    return {
+      id: row.id,
+      name: row.name,
+      phone: row.phone || undefined,
+      notes: row.notes || '',
+      time: row.time,
+      duration: row.duration,
+      weekdays: row.weekdays.split(',').map(day => parseInt(day)),
+      startDate: row.startDate,
+      endDate: row.endDate || undefined,
+      occurrences: row.occurrences || undefined,
+      ownerId: row.ownerId || undefined,
+      timestamp: row.timestamp
+    };
+  }
+  
+  // Record a recurring series rule
+  async addSeries(seriesData: InsertSeries, ownerId?: string): Promise<RecurringSeries> {
+    const { name, phone, notes, time, duration, weekdays, startDate, endDate, occurrences } = seriesData;
+    
+    const [row] = await db.insert(recurringSeries).values({
+      householdId: this.householdId,
+      name,
+      phone: phone || null,
+      notes: notes || '',
+      time,
+      duration: duration || DEFAULT_WALK_MINUTES,
+      weekdays: weekdays.join(','),
+      startDate,
+      endDate: endDate || null,
+      occurrences: occurrences || null,
+      ownerId: ownerId || null,
+      timestamp: Math.floor(Date.now() / 1000)
+    }).returning();
+    
+    return this.toSeries(row);
+  }
+  
+  async getSeries(id: number): Promise<RecurringSeries | null> {
+    const [row] = await db.select().from(recurringSeries)
+      .where(and(this.inHousehold(recurringSeries), eq(recurringSeries.id, id)));
+    
+    return row ? this.toSeries(row) : null;
+  }
+  
+  // Remove a series' walks that haven't started yet and end the rule the day before
+  async endSeries(id: number, fromDate: string, fromTime: string): Promise<WalkingSlot[]> {
+    const removed = await db.delete(walkingSlots)
+      .where(and(
+        this.inHousehold(walkingSlots),
+        eq(walkingSlots.seriesId, id),
+        or(
+          gt(walkingSlots.date, fromDate),
+          and(eq(walkingSlots.date, fromDate), gt(walkingSlots.time, fromTime))
+        ),
+        isNull(walkingSlots.checkedInAt)
+      ))
+      .returning();
+    
+    await db.update(recurringSeries)
+      .set({ endDate: addDays(fromDate, -1), occurrences: null })
+      .where(and(this.inHousehold(recurringSeries), eq(recurringSeries.id, id)));
+    
+    return removed
+      .map(slot => this.toSlot(slot))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Convert a waitlist row to the shared type
+  private toWaitlistEntry(row: typeof waitlist.$inferSelect): WaitlistEntry {
+    return {
+      id: row.id,
+      date: row.date,
+      startTime: row.startTime || undefined,
+      endTime: row.endTime || undefined,
+      name: row.name,
+      phone: row.phone,
+      ownerId: row.ownerId || undefined,
+      heldTime: row.heldTime || undefined,
+      holdExpiresAt: row.holdExpiresAt || undefined,
+      timestamp: row.timestamp
+    };
+  }
+  
+  // Add a walker to the end of a day's waitlist
+  async addWaitlistEntry(entry: Omit<JoinWaitlist, "ownerToken">, ownerId?: string): Promise<WaitlistEntry> {
+    const [row] = await db.insert(waitlist).values({
+      householdId: this.householdId,
+      date: entry.date,
+      startTime: entry.startTime || null,
+      endTime: entry.endTime || null,
+      name: entry.name,
+      phone: entry.phone,
+      ownerId: ownerId || null,
+      timestamp: Math.floor(Date.now() / 1000)
+    }).returning();
+    
+    return this.toWaitlistEntry(row);
+  }
+  
+  async getWaitlistEntry(id: number): Promise<WaitlistEntry | null> {
+    const [row] = await db.select().from(waitlist)
+      .where(and(this.inHousehold(waitlist), eq(waitlist.id, id)));
+    
+    return row ? this.toWaitlistEntry(row) : null;
+  }
+  
+  async getWaitlistBetween(startDate: string, endDate: string): Promise<WaitlistEntry[]> {
+    const rows = await db.select().from(waitlist)
+      .where(and(
+        this.inHousehold(waitlist),
+        gte(waitlist.date, startDate),
+        lte(waitlist.date, endDate)
+      ))
+      .orderBy(asc(waitlist.timestamp), asc(waitlist.id));
+    
+    return rows.map(row => this.toWaitlistEntry(row));
+  }
+  
+  async setWaitlistHold(id: number, heldTime: string | null, holdExpiresAt?: number): Promise<WaitlistEntry | null> {
+    const [row] = await db.update(waitlist)
+      .set({
+        heldTime,
+        holdExpiresAt: heldTime ? holdExpiresAt ?? null : null
+      })
+      .where(and(this.inHousehold(waitlist), eq(waitlist.id, id)))
+      .returning();
+    
+    return row ? this.toWaitlistEntry(row) : null;
+  }
+  
+  async removeWaitlistEntry(id: number): Promise<boolean> {
+    const removed = await db.delete(waitlist)
+      .where(and(this.inHousehold(waitlist), eq(waitlist.id, id)))
+      .returning();
+    
+    return removed.length > 0;
+  }
+  
+  // Convert a walk report row to the shared type
+  private toWalkReport(row: typeof walkReports.$inferSelect): WalkReport {
+    return {
+      date: row.date,
+      time: row.time,
+      name: row.name,
+      peed: row.peed,
+      pooped: row.pooped,
+      energy: row.energy as EnergyLevel,
+      route: row.route || undefined,
+      distanceMiles: row.distanceMiles ?? undefined,
+      incidents: row.incidents || undefined,
+      timestamp: row.timestamp
+    };
+  }
+  
+  async saveWalkReport(report: WalkReport): Promise<WalkReport> {
+    const values = {
+      name: report.name,
+      peed: report.peed,
+      pooped: report.pooped,
+      energy: report.energy,
+      route: report.route || null,
+      distanceMiles: report.distanceMiles ?? null,
+      incidents: report.incidents || null,
+      timestamp: report.timestamp
+    };
+    
+    const [row] = await db.insert(walkReports)
+      .values({ householdId: this.householdId, date: report.date, time: report.time, ...values })
+      .onConflictDoUpdate({
+        target: [walkReports.householdId, walkReports.date, walkReports.time],
+        set: values
+      })
+      .returning();
+    
+    return this.toWalkReport(row);
+  }
+  
+  async getWalkReportsBetween(startDate: string, endDate: string): Promise<WalkReport[]> {
+    const rows = await db.select().from(walkReports)
+      .where(and(
+        this.inHousehold(walkReports),
+        gte(walkReports.date, startDate),
+        lte(walkReports.date, endDate)
+      ))
+      .orderBy(asc(walkReports.date), asc(walkReports.time));
+    
+    return rows.map(row => this.toWalkReport(row));
+  }
+  
+  // Convert a care instructions row to the shared type
+  private toCareInstructions(row: typeof careInstructionVersions.$inferSelect): CareInstructions {
+    return { version: row.version, sections: JSON.parse(row.sections), updatedAt: row.updatedAt };
+  }
+  
+  async getCareInstructions(): Promise<CareInstructions | null> {
+    const [row] = await db.select().from(careInstructionVersions)
+      .where(this.inHousehold(careInstructionVersions))
+      .orderBy(desc(careInstructionVersions.version))
+      .limit(1);
+    return row ? this.toCareInstructions(row) : null;
+  }
+  
+  async getCareInstructionsHistory(): Promise<CareInstructions[]> {
+    const rows = await db.select().from(careInstructionVersions)
+      .where(this.inHousehold(careInstructionVersions))
+      .orderBy(desc(careInstructionVersions.version));
+    return rows.map(row => this.toCareInstructions(row));
+  }
+  
+  // Two saves from the same version can't both take the next one; the
+  // primary key turns the later one away
+  async addCareInstructions(sections: CareSection[], updatedAt: number, baseVersion: number): Promise<CareInstructions | null> {
+    const latest = await this.getCareInstructions();
+    if ((latest?.version || 0) !== baseVersion) {
+      return null;
     }
+    const [row] = await db.insert(careInstructionVersions)
+      .values({
+        householdId: this.householdId,
+        version: baseVersion + 1,
+        sections: JSON.stringify(sections),
+        updatedAt
+      })
+      .onConflictDoNothing({ target: [careInstructionVersions.householdId, careInstructionVersions.version] })
+      .returning();
+    return row ? this.toCareInstructions(row) : null;
   }
   
-  // Get leaderboard for the next 7 days
-  async getLeaderboardNextWeek(startDate: string): Promise<Array<{name: string, totalWalks: number, colorIndex: number}>> {
-    try {
-      // Calculate the date range
-      const startDateObj = new Date(startDate);
-      const endDateObj = new Date(startDate);
-      endDateObj.setDate(endDateObj.getDate() + 6);
-      
-      // Convert to ISO date strings for comparison
-      const startDateStr = startDateObj.toISOString().split('T')[0];
-      const endDateStr = endDateObj.toISOString().split('T')[0];
-      
-      // Get slots for the date range
-      const slots = await db.select().from(walkingSlots)
-        .where(and(
-          gte(walkingSlots.date, startDateStr),
-          lte(walkingSlots.date, endDateStr)
-        ));
-      
-      // Count walks per walker for this week
-      const walkCounts: Record<string, number> = {};
-      for (const slot of slots) {
-        const walkerName = slot.name;
-        walkCounts[walkerName] = (walkCounts[walkerName] || 0) + 1;
-      }
-      
-      // Convert to array and get color indices
-      const leaderboard = await Promise.all(
-        Object.entries(walkCounts).map(async ([name, totalWalks]) => {
-          // Get color index for each walker
-          const colorIndex = await this.getWalkerColorIndex(name);
-          return { name, totalWalks, colorIndex };
-        })
-      );
-      
-      // Sort by total walks (descending)
-      return leaderboard.sort((a, b) => b.totalWalks - a.totalWalks);
-    } catch (error) {
-      console.error("Error fetching next week leaderboard:", error);
-      return [];
+  // Convert a walk photo row to the shared type
+  private toWalkPhoto({ walkerId, householdId, ...row }: typeof walkPhotos.$inferSelect): WalkPhoto {
+    return { ...row, walkerId: walkerId || undefined };
+  }
+  
+  async addWalkPhoto(photo: Omit<WalkPhoto, "id">): Promise<WalkPhoto> {
+    const [row] = await db.insert(walkPhotos)
+      .values({ ...photo, householdId: this.householdId })
+      .returning();
+    return this.toWalkPhoto(row);
+  }
+  
+  async getWalkPhoto(id: number): Promise<WalkPhoto | null> {
+    const [row] = await db.select().from(walkPhotos)
+      .where(and(this.inHousehold(walkPhotos), eq(walkPhotos.id, id)));
+    
+    return row ? this.toWalkPhoto(row) : null;
+  }
+  
+  async getWalkPhotos(date: string, time: string): Promise<WalkPhoto[]> {
+    const rows = await db.select().from(walkPhotos)
+      .where(and(
+        this.inHousehold(walkPhotos),
+        eq(walkPhotos.date, date),
+        eq(walkPhotos.time, time)
+      ))
+      .orderBy(asc(walkPhotos.timestamp), asc(walkPhotos.id));
+    
+    return rows.map(row => this.toWalkPhoto(row));
+  }
+  
+  async getWalkPhotosByWalker(walkerId: number): Promise<WalkPhoto[]> {
+    const rows = await db.select().from(walkPhotos)
+      .where(and(this.inHousehold(walkPhotos), eq(walkPhotos.walkerId, walkerId)))
+      .orderBy(asc(walkPhotos.timestamp), asc(walkPhotos.id));
+    
+    return rows.map(row => this.toWalkPhoto(row));
+  }
+  
+  async addDelivery(record: InsertDelivery): Promise<void> {
+    await db.insert(deliveryLog).values({ ...record, householdId: this.householdId });
+  }
+  
+  async hasDelivery(channel: string, messageHash: string): Promise<boolean> {
+    const existing = await db.select({ id: deliveryLog.id }).from(deliveryLog)
+      .where(and(
+        this.inHousehold(deliveryLog),
+        eq(deliveryLog.channel, channel),
+        eq(deliveryLog.messageHash, messageHash),
+        isNull(deliveryLog.suppressedReason)
+      ))
+      .limit(1);
+    
+    return existing.length > 0;
+  }
+  
+  async getDeliveries(filters: DeliveryLogFilters, limit: number): Promise<DeliveryRecord[]> {
+    const conditions: SQL[] = [this.inHousehold(deliveryLog)];
+    if (filters.channel) {
+      conditions.push(eq(deliveryLog.channel, filters.channel));
+    }
+    if (filters.recipient) {
+      conditions.push(eq(deliveryLog.recipient, filters.recipient));
+    }
+    if (filters.messageType) {
+      conditions.push(eq(deliveryLog.messageType, filters.messageType));
     }
+    if (filters.slotDate) {
+      conditions.push(eq(deliveryLog.slotDate, filters.slotDate));
+    }
+    
+    const records = await db.select().from(deliveryLog)
+      .where(and(...conditions))
+      .orderBy(desc(deliveryLog.sentAt), desc(deliveryLog.id))
+      .limit(limit);
+    
+    return records.map(({ householdId, ...record }) => ({
+      ...record,
+      slotDate: record.slotDate || undefined,
+      slotTime: record.slotTime || undefined,
+      suppressedReason: record.suppressedReason || undefined
+    }));
+  }
+  
+  async getSmsSubscription(phone: string): Promise<SmsSubscription | null> {
+    const [subscription] = await db.select().from(smsSubscriptions)
+      .where(eq(smsSubscriptions.phone, phone));
+    
+    if (!subscription) {
+      return null;
+    }
+    return { ...subscription, status: subscription.status as SmsSubscriptionStatus };
+  }
+  
+  async setSmsSubscription(phone: string, status: SmsSubscriptionStatus, source: string, onlyIfNew = false): Promise<void> {
+    const insert = db.insert(smsSubscriptions).values({ phone, status, source });
+    if (onlyIfNew) {
+      await insert.onConflictDoNothing({ target: smsSubscriptions.phone });
+    } else {
+      await insert.onConflictDoUpdate({
+        target: smsSubscriptions.phone,
+        set: { status, source, updatedAt: sql`now()` }
+      });
+    }
+  }
+  
+  // Convert a household row to the shared type
+  private toHousehold(row: typeof households.$inferSelect): Household {
+    return {
+      id: row.id,
+      slug: row.slug,
+      petName: row.petName,
+      petPhotoUrl: row.petPhotoUrl || undefined,
+      careInstructions: row.careInstructions || undefined,
+      notifyRecipients: row.notifyRecipients ? JSON.parse(row.notifyRecipients) : undefined,
+      smsFrom: row.smsFrom || undefined,
+      ownerKeyHash: row.ownerKeyHash,
+      timestamp: row.timestamp
+    };
+  }
+  
+  async getHouseholds(): Promise<Household[]> {
+    const rows = await db.select().from(households).orderBy(asc(households.id));
+    return rows.map(row => this.toHousehold(row));
+  }
+  
+  async getHouseholdBySlug(slug: string): Promise<Household | null> {
+    const [row] = await db.select().from(households).where(eq(households.slug, slug));
+    return row ? this.toHousehold(row) : null;
+  }
+  
+  async addHousehold(household: InsertHousehold, ownerKeyHash: string): Promise<Household> {
+    const [row] = await db.insert(households).values({
+      slug: household.slug,
+      petName: household.petName,
+      petPhotoUrl: household.petPhotoUrl || null,
+      careInstructions: household.careInstructions || null,
+      notifyRecipients: household.notifyRecipients ? JSON.stringify(household.notifyRecipients) : null,
+      smsFrom: household.smsFrom || null,
+      ownerKeyHash,
+      timestamp: Math.floor(Date.now() / 1000)
+    }).returning();
+    
+    return this.toHousehold(row);
   }
 }
 
-// Create and export a database storage instance
-export const storage = new DatabaseStorage();
+/**
+ * Create the storage backend chosen by STORAGE_BACKEND: memory, postgres or
+ * replit. Without it, Postgres is used when DATABASE_URL is set and memory
+ * otherwise, so the app runs offline with nothing to configure.
+ * @throws Error if STORAGE_BACKEND names an unknown backend
+ */
+export function createStorage(backend = process.env.STORAGE_BACKEND): IStorage {
+  switch (backend || (process.env.DATABASE_URL ? 'postgres' : 'memory')) {
+    case 'memory':
+      if (!backend) {
+        console.log('DATABASE_URL is not set, so bookings are kept in memory until the server stops.');
+      }
+      return new MemStorage();
+    case 'postgres':
+      return new DatabaseStorage();
+    case 'replit':
+      return new ReplitStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use memory, postgres or replit.`);
+  }
+}
+
+// The backend chosen at startup, holding the default household's data
+const backend = createStorage();
+
+// The storage of the household being acted on (see runInHousehold), so
+// callers never pass a household around
+export const storage = new Proxy({} as IStorage, {
+  get(_target, property) {
+    const view = backend.forHousehold(currentHousehold().id);
+    const value = Reflect.get(view, property);
+    return typeof value === 'function' ? value.bind(view) : value;
+  },
+});
@@ -0,0 +1,111 @@
+import { toSeconds } from "@shared/schema";
+import { IStorage, normalizeWalkerName } from "./storage";
+
+// Date range covering every walk
+const FIRST_DATE = "0000-01-01";
+const LAST_DATE = "9999-12-31";
+
+// What a copy between backends did, or would do on a dry run
+export type StorageCopyReport = {
+  walkersCopied: number;
+  slotsCopied: number;
+  // Already in the target exactly as in the source, e.g. from an earlier run
+  walkersSkipped: number;
+  slotsSkipped: number;
+  // Differences left for a person to resolve; the target's version is kept
+  conflicts: string[];
+};
+
+/**
+ * Copy walkers and slots from one storage backend to another, keeping color
+ * indices, phone numbers, booking timestamps and check-in times. Anything
+ * already in the target is left alone, so running it again copies nothing
+ * new; a booked slot or walker color that differs is reported as a conflict.
+ * Only the default household is copied; other households are added again
+ * with npm run add-household.
+ * @param from The backend to read from
+ * @param to The backend to write to
+ * @param dryRun True to only report what would be copied
+ */
+export async function copyStorage(
+  from: IStorage,
+  to: IStorage,
+  dryRun = false,
+): Promise<StorageCopyReport> {
+  const report: StorageCopyReport = {
+    walkersCopied: 0,
+    slotsCopied: 0,
+    walkersSkipped: 0,
+    slotsSkipped: 0,
+    conflicts: [],
+  };
+
+  for (const walker of await from.getAllWalkers()) {
+    const existing = await to.findWalker(walker.name);
+    if (existing) {
+      if (existing.colorIndex !== walker.colorIndex) {
+        report.conflicts.push(
+          `Walker ${existing.name} has color ${existing.colorIndex}, not ${walker.colorIndex}`,
+        );
+      } else {
+        report.walkersSkipped++;
+      }
+      continue;
+    }
+
+    report.walkersCopied++;
+    if (!dryRun) {
+      const created = await to.updateWalker(walker.name, walker.phone);
+      await to.updateWalkerDetails(created.id, {
+        colorIndex: walker.colorIndex,
+        broadcastOptOut: !!walker.broadcastOptOut,
+      });
+      if (walker.phone && walker.phoneVerified) {
+        await to.verifyWalkerPhone(created.id, walker.phone);
+      }
+    }
+  }
+
+  for (const slot of await from.getSlotsBetween(FIRST_DATE, LAST_DATE)) {
+    const existing = await to.getSlot(slot.date, slot.time);
+    if (existing) {
+      if (normalizeWalkerName(existing.name) !== normalizeWalkerName(slot.name)) {
+        report.conflicts.push(
+          `${slot.date} ${slot.time} is booked by ${existing.name}, not ${slot.name}`,
+        );
+      } else {
+        report.slotsSkipped++;
+      }
+      continue;
+    }
+
+    report.slotsCopied++;
+    if (dryRun) {
+      continue;
+    }
+
+    // Series aren't copied, so the slot becomes a single walk
+    await to.addSlot(
+      {
+        date: slot.date,
+        time: slot.time,
+        name: slot.name,
+        phone: slot.phone,
+        notes: slot.notes,
+        duration: slot.duration,
+      },
+      {
+        ownerId: slot.ownerId,
+        timestamp: toSeconds(slot.timestamp),
+      },
+    );
+    if (slot.checkedInAt) {
+      await to.checkInSlot(slot.date, slot.time, slot.checkedInAt);
+    }
+    if (slot.checkedOutAt) {
+      await to.checkOutSlot(slot.date, slot.time, slot.checkedOutAt);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,248 @@
+import {
+  JoinWaitlist,
+  WaitlistEntry,
+  WalkingSlot,
+  DEFAULT_WALK_MINUTES,
+  WAITLIST_HOLD_MINUTES,
+} from "@shared/schema";
+import { findOverlap, getSlotTimes, isBookableTime } from "@shared/availability";
+import { storage } from "./storage";
+import { notifyWaitlistHold } from "./notifications";
+import { recordSmsConsent, normalizePhone } from "./smsConsent";
+import { getAvailability } from "./availability";
+import { addDays, getCurrentDateET, toDateTimeET } from "./dates";
+import { systemClock, Clock } from "./reminders";
+import { forEachHousehold } from "./households";
+
+// A waitlist request that can't be fulfilled, with the HTTP status to report
+export class WaitlistError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "WaitlistError";
+  }
+}
+
+// Upper bound when listing every waitlist entry
+const LAST_DATE = "9999-12-31";
+
+function toSeconds(instant: Date): number {
+  return Math.floor(instant.getTime() / 1000);
+}
+
+/**
+ * Check whether a walk time suits a waitlisted walker
+ * @param entry The waitlist entry
+ * @param time HHMM walk time
+ * @returns True if the time is inside the entry's window, or it has none
+ */
+export function isInWindow(entry: Pick<WaitlistEntry, "startTime" | "endTime">, time: string): boolean {
+  return (!entry.startTime || time >= entry.startTime) && (!entry.endTime || time <= entry.endTime);
+}
+
+// Whether an entry holds a walk that hasn't lapsed yet
+function isHeld(entry: WaitlistEntry, now: number): boolean {
+  return !!entry.heldTime && !!entry.holdExpiresAt && entry.holdExpiresAt > now;
+}
+
+// Whether a booking comes from the walker an entry belongs to, by browser or by phone
+function isEntryFor(entry: WaitlistEntry, ownerId?: string, phone?: string): boolean {
+  if (entry.ownerId && entry.ownerId === ownerId) {
+    return true;
+  }
+  return !!phone && !!entry.phone && normalizePhone(phone) === normalizePhone(entry.phone);
+}
+
+/**
+ * List the walks currently held for waitlisted walkers, as walks the
+ * overlap check can compare against
+ * @param startDate First date, YYYY-MM-DD
+ * @param endDate Last date, inclusive
+ * @param ownerId Public id of the booking walker's token; their own holds are left out
+ * @param phone The booking walker's phone number; their own holds are left out
+ * @param now The current time
+ * @returns One default-length walk per active hold
+ */
+export async function getHeldWalks(
+  startDate: string,
+  endDate: string,
+  ownerId?: string,
+  phone?: string,
+  now: Date = systemClock.now(),
+): Promise<Array<Pick<WalkingSlot, "date" | "time" | "duration" | "name">>> {
+  const entries = await storage.getWaitlistBetween(startDate, endDate);
+  return entries
+    .filter((entry) => isHeld(entry, toSeconds(now)) && !isEntryFor(entry, ownerId, phone))
+    .map((entry) => ({
+      date: entry.date,
+      time: entry.heldTime!,
+      duration: DEFAULT_WALK_MINUTES,
+      name: entry.name,
+    }));
+}
+
+/**
+ * Add a walker to the end of a day's waitlist. Walkers are saved like a
+ * booking would save them, so they can answer the hold text with BOOK.
+ * @param entry The day, optional time window and walker
+ * @param ownerId Public id of the joining browser's walker token
+ * @returns The new entry
+ * @throws WaitlistError if the day can't be waited on or the walker is already waiting
+ */
+export async function joinWaitlist(
+  entry: Omit<JoinWaitlist, "ownerToken">,
+  ownerId: string,
+): Promise<WaitlistEntry> {
+  if (entry.date < getCurrentDateET()) {
+    throw new WaitlistError("That day has already passed", 400);
+  }
+  const times = getSlotTimes(getAvailability(), entry.date).filter((time) => isInWindow(entry, time));
+  if (times.length === 0) {
+    throw new WaitlistError("There are no walk times in that window", 400);
+  }
+
+  const waiting = await storage.getWaitlistBetween(entry.date, entry.date);
+  if (waiting.some((existing) => isEntryFor(existing, ownerId, entry.phone))) {
+    throw new WaitlistError("You're already on the waitlist for that day", 409);
+  }
+
+  const added = await storage.addWaitlistEntry(entry, ownerId);
+
+  await storage.updateWalker(entry.name, entry.phone);
+  recordSmsConsent(entry.phone, "waitlist")
+    .catch(err => console.error('SMS consent error:', err));
+
+  return added;
+}
+
+/**
+ * Take a walker off a waitlist. A walk held for them goes to the next in line.
+ * @param entry The entry to remove
+ */
+export async function leaveWaitlist(entry: WaitlistEntry): Promise<void> {
+  await storage.removeWaitlistEntry(entry.id);
+
+  if (entry.heldTime) {
+    await offerFreedWalk(entry.date, entry.heldTime);
+  }
+}
+
+/**
+ * Drop the booking walker's waitlist entries for a day now that they have a
+ * walk. A walk held for them that they didn't book goes to the next in line.
+ * @param slot The slot just booked
+ */
+export async function removeBookedFromWaitlist(slot: WalkingSlot): Promise<void> {
+  const entries = await storage.getWaitlistBetween(slot.date, slot.date);
+  for (const entry of entries) {
+    if (!isEntryFor(entry, slot.ownerId, slot.phone)) {
+      continue;
+    }
+
+    await storage.removeWaitlistEntry(entry.id);
+    if (entry.heldTime && entry.heldTime !== slot.time) {
+      await offerFreedWalk(entry.date, entry.heldTime);
+    }
+  }
+}
+
+/**
+ * Hold a freed walk for the first waitlisted walker whose window it suits,
+ * and text them. Nothing happens if the walk is in the past, was booked
+ * again or is already held.
+ * @param date The date of the freed walk
+ * @param time HHMM time of the freed walk
+ * @param now The current time
+ * @returns The entry now holding the walk, or null if nobody was waiting for it
+ */
+export async function offerFreedWalk(
+  date: string,
+  time: string,
+  now: Date = systemClock.now(),
+): Promise<WaitlistEntry | null> {
+  const current = toDateTimeET(now);
+  if (`${date}${time}` <= `${current.date}${current.time}` || !isBookableTime(getAvailability(), date, time)) {
+    return null;
+  }
+
+  // A held walk overlaps itself, so this also skips walks already on hold
+  const walk = { date, time, duration: DEFAULT_WALK_MINUTES };
+  const nearby = await storage.getSlotsBetween(addDays(date, -1), addDays(date, 1));
+  const held = await getHeldWalks(addDays(date, -1), addDays(date, 1), undefined, undefined, now);
+  if (findOverlap([...nearby, ...held], walk)) {
+    return null;
+  }
+
+  // Walkers whose hold lapsed have had their turn
+  const entries = await storage.getWaitlistBetween(date, date);
+  const next = entries.find((entry) => !entry.heldTime && isInWindow(entry, time));
+  if (!next) {
+    return null;
+  }
+
+  const entry = await storage.setWaitlistHold(next.id, time, toSeconds(now) + WAITLIST_HOLD_MINUTES * 60);
+  if (entry) {
+    notifyWaitlistHold(entry, process.env.PUBLIC_BASE_URL?.replace(/\/$/, ""))
+      .catch(err => console.error('Notification error:', err));
+  }
+  return entry;
+}
+
+/**
+ * Drop waitlist entries whose hold lapsed or whose day has passed, passing
+ * each lapsed hold on to the next walker in line
+ * @param now The current time
+ * @returns How many holds were passed on
+ */
+export async function expireWaitlistHolds(now: Date = systemClock.now()): Promise<number> {
+  const today = toDateTimeET(now).date;
+  const entries = await storage.getWaitlistBetween("0000-01-01", LAST_DATE);
+
+  let passedOn = 0;
+  for (const entry of entries) {
+    if (entry.date < today) {
+      await storage.removeWaitlistEntry(entry.id);
+      continue;
+    }
+    if (!entry.heldTime || isHeld(entry, toSeconds(now))) {
+      continue;
+    }
+
+    await storage.removeWaitlistEntry(entry.id);
+    if (await offerFreedWalk(entry.date, entry.heldTime, now)) {
+      passedOn++;
+    }
+  }
+
+  return passedOn;
+}
+
+/**
+ * Check every household for lapsed holds every minute
+ * @param clock Source of the current time
+ * @returns A function that stops the checks
+ */
+export function startWaitlistScheduler(clock: Clock = systemClock): () => void {
+  let running = false;
+
+  // Skip a tick if the previous pass is still running
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let passedOn = 0;
+      await forEachHousehold(async () => {
+        passedOn += await expireWaitlistHolds(clock.now());
+      });
+      if (passedOn > 0) {
+        console.log(`Passed ${passedOn} lapsed waitlist hold(s) to the next walker`);
+      }
+    } catch (error) {
+      console.error("Waitlist scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, 60 * 1000);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,111 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { walkers, walkerColors, walkingSlots, walkPhotos, DEFAULT_HOUSEHOLD_ID } from "@shared/schema";
+import { db } from "./db";
+import { normalizeWalkerName } from "./storage";
+
+// Total number of colors available in the app
+const MAX_COLORS = 10;
+
+// What a migration run changed
+export type WalkerMigrationReport = {
+  walkersCreated: number;
+  // Walkers whose history was under more than one spelling of their name
+  merged: { name: string; from: string[] }[];
+  slotsLinked: number;
+  photosLinked: number;
+};
+
+/**
+ * Give every walker a row in `walkers` and link their slots and photos to it
+ * by id. Names that normalize the same with capitalizeFullName, like
+ * "sam smith" and "Sam Smith", become one walker. From the old walker_colors
+ * rows, the color of the already-normalized spelling wins, the first phone
+ * number found is kept, and opting out of help texts under any spelling
+ * carries over. Safe to run again: only unlinked slots and photos are touched,
+ * and existing walkers are reused. walker_colors predates households, so
+ * only the default household is migrated.
+ */
+export async function mergeWalkersByName(): Promise<WalkerMigrationReport> {
+  return db.transaction(async (tx) => {
+    const legacyRows = await tx.select().from(walkerColors);
+    const unlinkedSlots = await tx.selectDistinct({ name: walkingSlots.name })
+      .from(walkingSlots)
+      .where(and(eq(walkingSlots.householdId, DEFAULT_HOUSEHOLD_ID), isNull(walkingSlots.walkerId)));
+    const unlinkedPhotos = await tx.selectDistinct({ name: walkPhotos.name })
+      .from(walkPhotos)
+      .where(and(eq(walkPhotos.householdId, DEFAULT_HOUSEHOLD_ID), isNull(walkPhotos.walkerId)));
+
+    // Every spelling of each walker's name, keyed by the normalized name
+    const spellings = new Map<string, Set<string>>();
+    const names = [
+      ...legacyRows.map((row) => row.name),
+      ...unlinkedSlots.map((slot) => slot.name),
+      ...unlinkedPhotos.map((photo) => photo.name),
+    ];
+    for (const name of names) {
+      const normalized = normalizeWalkerName(name);
+      spellings.set(normalized, (spellings.get(normalized) || new Set()).add(name));
+    }
+
+    const report: WalkerMigrationReport = { walkersCreated: 0, merged: [], slotsLinked: 0, photosLinked: 0 };
+    const defaultWalkers = eq(walkers.householdId, DEFAULT_HOUSEHOLD_ID);
+    const usedColors = new Set(
+      (await tx.select().from(walkers).where(defaultWalkers)).map((walker) => walker.colorIndex),
+    );
+
+    for (const [name, spellingSet] of Array.from(spellings.entries())) {
+      const from = Array.from(spellingSet);
+      let [walker] = await tx.select().from(walkers).where(and(defaultWalkers, eq(walkers.name, name)));
+
+      if (!walker) {
+        const rows = legacyRows.filter((row) => spellingSet.has(row.name));
+        const colorRow = rows.find((row) => row.name === name) || rows[0];
+
+        // Walkers only known from their slots get the next free color
+        let colorIndex = colorRow?.colorIndex;
+        if (colorIndex === undefined) {
+          colorIndex = 0;
+          while (usedColors.has(colorIndex) && colorIndex < MAX_COLORS - 1) {
+            colorIndex++;
+          }
+        }
+
+        [walker] = await tx.insert(walkers)
+          .values({
+            name,
+            colorIndex,
+            phone: rows.find((row) => row.phone)?.phone ?? null,
+            broadcastOptOut: rows.some((row) => row.broadcastOptOut),
+          })
+          .returning();
+        usedColors.add(colorIndex);
+        report.walkersCreated++;
+      }
+
+      if (from.length > 1 || from[0] !== name) {
+        report.merged.push({ name, from });
+      }
+
+      const slots = await tx.update(walkingSlots)
+        .set({ walkerId: walker.id, name })
+        .where(and(
+          eq(walkingSlots.householdId, DEFAULT_HOUSEHOLD_ID),
+          isNull(walkingSlots.walkerId),
+          inArray(walkingSlots.name, from),
+        ))
+        .returning({ id: walkingSlots.id });
+      const photos = await tx.update(walkPhotos)
+        .set({ walkerId: walker.id, name })
+        .where(and(
+          eq(walkPhotos.householdId, DEFAULT_HOUSEHOLD_ID),
+          isNull(walkPhotos.walkerId),
+          inArray(walkPhotos.name, from),
+        ))
+        .returning({ id: walkPhotos.id });
+      report.slotsLinked += slots.length;
+      report.photosLinked += photos.length;
+    }
+
+    return report;
+  });
+}
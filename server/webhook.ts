@@ -0,0 +1,35 @@
+import type { NotificationChannel } from "./notifications";
+
+// How long to wait for a webhook to answer before giving up on it
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * A notification channel that POSTs JSON to a chat webhook URL. The text is
+ * sent as both `text` (Slack, Google Chat) and `content` (Discord), with the
+ * structured details alongside for anything else.
+ */
+export function createWebhookChannel(): NotificationChannel {
+  return {
+    name: "webhook",
+    async send(url, message) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        body: JSON.stringify({
+          text: message.body,
+          content: message.body,
+          subject: message.subject,
+          messageType: message.messageType,
+          slot: message.slot
+            ? { date: message.slot.date, time: message.slot.time, name: message.slot.name }
+            : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
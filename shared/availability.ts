@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3])[0-5]\d$/, "Time must be in 24-hour HHMM format");
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Bookable times on one day: every `interval` minutes from `start` up to and including `end`
+export const dayWindowSchema = z.object({
+  start: timeSchema,
+  end: timeSchema,     // Last bookable start time
+  interval: z.number().int().min(5).max(720),
+}).refine((window) => window.end >= window.start, {
+  message: "end must not be before start",
+});
+
+export type DayWindow = z.infer<typeof dayWindowSchema>;
+
+// The original fixed window: 8:00 AM to 8:00 PM in 30-minute steps
+export const DEFAULT_DAY_WINDOW: DayWindow = { start: "0800", end: "2000", interval: 30 };
+
+/**
+ * Walking window configuration as written by the owners. Weekday overrides
+ * are keyed by day of the week (0 = Sunday); null means no walks that day.
+ */
+export const availabilityConfigSchema = z.object({
+  default: dayWindowSchema.default(DEFAULT_DAY_WINDOW),
+  weekdays: z.record(z.enum(["0", "1", "2", "3", "4", "5", "6"]), dayWindowSchema.nullable()).default({}),
+  blackoutDates: z.array(dateSchema).default([]),
+});
+
+export type AvailabilityConfig = z.infer<typeof availabilityConfigSchema>;
+
+// Resolved availability served by GET /api/config/availability
+export type Availability = {
+  days: Array<DayWindow | null>;   // Indexed by day of the week (0 = Sunday)
+  blackoutDates: string[];
+};
+
+/**
+ * Resolve a configuration into one window per day of the week
+ */
+export function resolveAvailability(config: AvailabilityConfig): Availability {
+  const days = Array.from({ length: 7 }, (_, day) => {
+    const override = config.weekdays[day.toString() as keyof typeof config.weekdays];
+    return override === undefined ? config.default : override;
+  });
+  return { days, blackoutDates: config.blackoutDates };
+}
+
+// Convert between HHMM and minutes since midnight
+export function toMinutes(time: string): number {
+  return parseInt(time.substring(0, 2)) * 60 + parseInt(time.substring(2, 4));
+}
+
+export function fromMinutes(minutes: number): string {
+  const minuteOfDay = ((minutes % 1440) + 1440) % 1440;
+  return Math.floor(minuteOfDay / 60).toString().padStart(2, "0") + (minuteOfDay % 60).toString().padStart(2, "0");
+}
+
+/**
+ * Get the HHMM time a walk ends, wrapping past midnight
+ */
+export function getEndTime(time: string, duration: number): string {
+  return fromMinutes(toMinutes(time) + duration);
+}
+
+// The parts of a walk needed to tell whether it clashes with another
+export type TimedWalk = {
+  date: string;       // YYYY-MM-DD
+  time: string;       // HHMM start time
+  duration: number;   // Minutes
+};
+
+// Minutes from midnight of a reference date to the start of a walk
+function minutesFrom(referenceDate: string, walk: TimedWalk): number {
+  const days = Math.round(
+    (Date.parse(`${walk.date}T00:00:00Z`) - Date.parse(`${referenceDate}T00:00:00Z`)) / 86400000,
+  );
+  return days * 1440 + toMinutes(walk.time);
+}
+
+/**
+ * Find an existing walk that overlaps a new one. Walks that merely touch
+ * (one ends as the next starts) don't overlap.
+ * @param walks Existing walks, including the days either side for walks across midnight
+ * @param walk The walk being booked
+ * @returns The first overlapping walk, or undefined if there's none
+ */
+export function findOverlap<T extends TimedWalk>(walks: T[], walk: TimedWalk): T | undefined {
+  const start = minutesFrom(walk.date, walk);
+  const end = start + walk.duration;
+
+  return walks.find((other) => {
+    const otherStart = minutesFrom(walk.date, other);
+    return otherStart < end && start < otherStart + other.duration;
+  });
+}
+
+/**
+ * List every bookable time on a date, ignoring existing bookings
+ * @param availability The resolved availability
+ * @param date The date in YYYY-MM-DD format
+ * @returns HHMM times in order, empty on blackout dates and days without walks
+ */
+export function getSlotTimes(availability: Availability, date: string): string[] {
+  if (availability.blackoutDates.includes(date)) {
+    return [];
+  }
+
+  // Parse as UTC so the weekday doesn't depend on the local timezone
+  const window = availability.days[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  if (!window) {
+    return [];
+  }
+
+  const times: string[] = [];
+  for (let minutes = toMinutes(window.start); minutes <= toMinutes(window.end); minutes += window.interval) {
+    times.push(fromMinutes(minutes));
+  }
+  return times;
+}
+
+/**
+ * Check whether a time can be booked on a date
+ */
+export function isBookableTime(availability: Availability, date: string, time: string): boolean {
+  return getSlotTimes(availability, date).includes(time);
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { DEFAULT_WALK_MINUTES, WalkingSlot } from "./schema";
+import { Availability, getSlotTimes, findOverlap } from "./availability";
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3])[0-5]\d$/, "Time must be in 24-hour HHMM format");
+
+/**
+ * One walk Finn needs every day, e.g. a morning walk. A booked walk covers
+ * the rule when it starts between `start` and `end`, inclusive.
+ */
+export const coverageRuleSchema = z.object({
+  label: z.string().min(1),   // Shown as "<label> walk still needed"
+  start: timeSchema,
+  end: timeSchema,
+  walks: z.number().int().min(1).max(10).default(1),
+}).refine((rule) => rule.end >= rule.start, {
+  message: "end must not be before start",
+});
+
+export type CoverageRule = z.infer<typeof coverageRuleSchema>;
+
+export const coverageRulesSchema = z.array(coverageRuleSchema);
+
+// Finn needs two walks a day: one in the morning and one in the evening
+export const DEFAULT_COVERAGE_RULES: CoverageRule[] = [
+  { label: "morning", start: "0600", end: "1130", walks: 1 },
+  { label: "evening", start: "1600", end: "2030", walks: 1 },
+];
+
+// A rule a day hasn't met yet, served by GET /api/coverage
+export type CoverageGap = {
+  date: string;
+  label: string;
+  start: string;
+  end: string;
+  missing: number;                // Walks still needed in the window
+  suggestedTime: string | null;   // First free bookable time in the window, if any
+};
+
+// Gaps for each day of a week, keyed by date
+export type WeekCoverage = Record<string, CoverageGap[]>;
+
+/**
+ * Find the coverage rules each day of a schedule doesn't meet yet. Days
+ * without walks (blackout dates, days with no walking window) need nothing.
+ * @param schedule Slots by date, as returned by getSchedule
+ * @param rules The daily coverage rules
+ * @param availability The resolved walking window
+ * @returns The gaps for every date in the schedule, empty when covered
+ */
+export function findCoverageGaps(
+  schedule: Record<string, WalkingSlot[]>,
+  rules: CoverageRule[],
+  availability: Availability,
+): WeekCoverage {
+  const coverage: WeekCoverage = {};
+
+  for (const [date, slots] of Object.entries(schedule)) {
+    const dayTimes = getSlotTimes(availability, date);
+    coverage[date] = [];
+    if (dayTimes.length === 0) {
+      continue;
+    }
+
+    for (const rule of rules) {
+      const covering = slots.filter((slot) => slot.time >= rule.start && slot.time <= rule.end);
+      if (covering.length >= rule.walks) {
+        continue;
+      }
+
+      // Offer the earliest time a default-length walk still fits
+      const suggestedTime = dayTimes.find((time) =>
+        time >= rule.start &&
+        time <= rule.end &&
+        !findOverlap(slots, { date, time, duration: DEFAULT_WALK_MINUTES }),
+      );
+
+      coverage[date].push({
+        date,
+        label: rule.label,
+        start: rule.start,
+        end: rule.end,
+        missing: rule.walks - covering.length,
+        suggestedTime: suggestedTime || null,
+      });
+    }
+  }
+
+  return coverage;
+}
@@ -1,63 +1,414 @@
-import { pgTable, text, varchar, serial, integer, primaryKey, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, boolean, real, primaryKey, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Timestamps above this are milliseconds, from before slots were stamped in seconds
+export const MAX_SECONDS = 1e11;
+
+/**
+ * Read a stored timestamp as seconds, converting one from before slots were
+ * stamped in seconds
+ * @param timestamp Seconds, or milliseconds on older records
+ */
+export function toSeconds(timestamp: number): number {
+  return timestamp > MAX_SECONDS ? Math.floor(timestamp / 1000) : timestamp;
+}
+
+// Length of a walk when none is given; existing slots were migrated to it
+export const DEFAULT_WALK_MINUTES = 30;
+
+// Walk lengths offered when booking, in minutes
+export const WALK_DURATIONS = [15, 30, 45, 60, 90, 120];
+
+// The household the app was built for. It has no row in households, so its
+// data from before households existed belongs to it as is.
+export const DEFAULT_HOUSEHOLD_ID = 0;
+
 // Define database tables
+
+// Households sharing the deployment, each with its own pet, schedule and walkers
+export const households = pgTable('households', {
+  id: serial('id').primaryKey(),
+  slug: text('slug').notNull().unique(),           // URL name, as in /h/:slug
+  petName: text('pet_name').notNull(),             // Name used in the app and in texts
+  petPhotoUrl: text('pet_photo_url'),              // Photo shown in the header, none if null
+  careInstructions: text('care_instructions'),     // Shown to walkers in the info dialog
+  notifyRecipients: text('notify_recipients'),     // JSON array of owners alerted about bookings, like NOTIFY_RECIPIENTS
+  smsFrom: text('sms_from'),                       // Twilio number texts are sent from, TWILIO_FROM if null
+  ownerKeyHash: text('owner_key_hash').notNull(),  // SHA-256 of the owners' admin key
+  timestamp: integer('timestamp').notNull(),       // When the household was added
+});
+
 export const walkingSlots = pgTable('walking_slots', {
   id: serial('id').primaryKey(),
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID), // Household whose schedule it's on
   date: varchar('date', { length: 10 }).notNull(), // YYYY-MM-DD format
   time: varchar('time', { length: 4 }).notNull(),  // HHMM format (24-hour)
-  name: text('name').notNull(),                    // Walker's name
+  duration: integer('duration').notNull().default(DEFAULT_WALK_MINUTES), // Length of the walk in minutes
+  name: text('name').notNull(),                    // Walker's name, kept in step with walkers.name
+  walkerId: integer('walker_id').references(() => walkers.id), // The walker; null only on slots from before walker ids
   phone: text('phone'),                            // Walker's phone number (E.164 format)
   notes: text('notes'),                            // Optional notes
   timestamp: integer('timestamp').notNull(),       // Timestamp for when the slot was booked
+  ownerId: text('owner_id'),                       // SHA-256 of the booking browser's walker token
+  seriesId: integer('series_id'),                  // Recurring series this slot was materialized from
+  coverRequestedAt: integer('cover_requested_at'), // When the walker asked for someone to take over, null if not
+  checkedInAt: integer('checked_in_at'),           // When the walker actually started the walk, null until then
+  checkedOutAt: integer('checked_out_at'),         // When the walker actually finished the walk, null until then
+}, (table) => [
+  // One walker per slot, enforced by the database so concurrent bookings can't both win
+  unique('walking_slots_household_date_time_unique').on(table.householdId, table.date, table.time),
+]);
+
+// Recurring booking rules; their occurrences are materialized into walking_slots
+export const recurringSeries = pgTable('recurring_series', {
+  id: serial('id').primaryKey(),
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID),
+  name: text('name').notNull(),                    // Walker's name
+  phone: text('phone'),                            // Walker's phone number (E.164 format)
+  notes: text('notes'),                            // Optional notes copied to every slot
+  time: varchar('time', { length: 4 }).notNull(),  // HHMM format (24-hour)
+  duration: integer('duration').notNull().default(DEFAULT_WALK_MINUTES), // Length of each walk in minutes
+  weekdays: text('weekdays').notNull(),            // Comma-separated days of the week (0 = Sunday)
+  startDate: varchar('start_date', { length: 10 }).notNull(), // First date of the rule (YYYY-MM-DD)
+  endDate: varchar('end_date', { length: 10 }),   // Last date of the rule, inclusive (YYYY-MM-DD)
+  occurrences: integer('occurrences'),             // Number of occurrences, used when no end date
+  ownerId: text('owner_id'),                       // SHA-256 of the booking browser's walker token
+  timestamp: integer('timestamp').notNull(),       // Timestamp for when the series was booked
 });
 
+// Walkers, with a stable id so renaming someone keeps their history
+export const walkers = pgTable('walkers', {
+  id: serial('id').primaryKey(),
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID), // Someone walking for two households is two walkers
+  name: text('name').notNull(),                    // Walker's name, normalized with capitalizeFullName
+  colorIndex: integer('color_index').notNull(),    // Color index (0-9)
+  phone: text('phone'),                            // Walker's phone number (E.164 format)
+  phoneVerified: boolean('phone_verified').notNull().default(false), // Phone set by an owner or confirmed by text; only then can it run text commands
+  broadcastOptOut: boolean('broadcast_opt_out').notNull().default(false), // Left out of "help needed" broadcasts
+}, (table) => [
+  unique('walkers_household_name_unique').on(table.householdId, table.name),
+]);
+
+// Walkers keyed by name, from before walkers had ids. Only read by
+// `npm run db:migrate-walkers`, which merges it into walkers.
 export const walkerColors = pgTable('walker_colors', {
   name: text('name').primaryKey(),                 // Walker's name
   colorIndex: integer('color_index').notNull(),    // Color index (0-9)
   phone: text('phone'),                            // Walker's phone number (E.164 format)
+  broadcastOptOut: boolean('broadcast_opt_out').notNull().default(false), // Left out of "help needed" broadcasts
 });
 
-// SMS audit table to prevent duplicate messages
-export const smsAuditLog = pgTable('sms_audit_log', {
+// Walkers waiting for a walk on a full day, in the order they joined
+export const waitlist = pgTable('waitlist', {
   id: serial('id').primaryKey(),
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID),
+  date: varchar('date', { length: 10 }).notNull(),  // YYYY-MM-DD format
+  startTime: varchar('start_time', { length: 4 }),  // Earliest acceptable walk time (HHMM), any if null
+  endTime: varchar('end_time', { length: 4 }),      // Latest acceptable walk time (HHMM), any if null
+  name: text('name').notNull(),                     // Walker's name
+  phone: text('phone').notNull(),                   // Walker's phone number (E.164 format), texted when a walk frees up
+  ownerId: text('owner_id'),                        // SHA-256 of the joining browser's walker token
+  heldTime: varchar('held_time', { length: 4 }),    // Freed walk time held for this walker (HHMM), null while waiting
+  holdExpiresAt: integer('hold_expires_at'),        // When the hold lapses, null while waiting
+  timestamp: integer('timestamp').notNull(),        // Timestamp for when the walker joined
+});
+
+// How each walk went, filed by its walker afterwards; one report per walk
+export const walkReports = pgTable('walk_reports', {
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID),
+  date: varchar('date', { length: 10 }).notNull(),  // Walk date (YYYY-MM-DD)
+  time: varchar('time', { length: 4 }).notNull(),   // Walk start time (HHMM)
+  name: text('name').notNull(),                     // Walker who filed the report
+  peed: boolean('peed').notNull().default(false),
+  pooped: boolean('pooped').notNull().default(false),
+  energy: text('energy').notNull(),                 // low, normal or high
+  route: text('route'),                             // Where the walk went
+  distanceMiles: real('distance_miles'),            // How far, if the walker knows
+  incidents: text('incidents'),                     // Anything the owners should know about, null if nothing
+  timestamp: integer('timestamp').notNull(),        // When the report was last filed
+}, (table) => [
+  primaryKey({ columns: [table.householdId, table.date, table.time] }),
+]);
+
+// Photos walkers took on their walks; the image files live in the photo store
+export const walkPhotos = pgTable('walk_photos', {
+  id: serial('id').primaryKey(),
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID),
+  date: varchar('date', { length: 10 }).notNull(),  // Walk date (YYYY-MM-DD)
+  time: varchar('time', { length: 4 }).notNull(),   // Walk start time (HHMM)
+  name: text('name').notNull(),                     // Walker whose walk it was
+  walkerId: integer('walker_id').references(() => walkers.id), // The walker; null only on photos from before walker ids
+  key: text('key').notNull(),                       // Photo store key of the resized image
+  thumbnailKey: text('thumbnail_key').notNull(),    // Photo store key of the thumbnail
+  timestamp: integer('timestamp').notNull(),        // When the photo was uploaded
+});
+
+// Every saved version of a household's care instructions; the highest version is current
+export const careInstructionVersions = pgTable('care_instruction_versions', {
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID),
+  version: integer('version').notNull(),            // 1 for the first edit, one more for each after
+  sections: text('sections').notNull(),             // JSON array of titled Markdown sections
+  updatedAt: integer('updated_at').notNull(),       // When this version was saved
+}, (table) => [
+  primaryKey({ columns: [table.householdId, table.version] }),
+]);
+
+// Log of every notification delivered, on any channel, to prevent duplicate messages
+// Keeps its original table name so the SMS history from before channels carries over
+export const deliveryLog = pgTable('sms_audit_log', {
+  id: serial('id').primaryKey(),
+  householdId: integer('household_id').notNull().default(DEFAULT_HOUSEHOLD_ID), // Household whose owners see it in their log
+  channel: text('channel').notNull().default('sms'), // Channel used (sms, email, webhook, console)
   messageHash: text('message_hash').notNull(),     // Hash of recipient + message content
-  recipient: text('recipient').notNull(),          // SMS recipient
+  recipient: text('recipient').notNull(),          // Phone number, email address or webhook URL
   messageType: text('message_type').notNull(),     // Type of message (booking, cancellation)
   messageContent: text('message_content').notNull(), // The actual message content
   slotDate: varchar('slot_date', { length: 10 }), // Related walking slot date
   slotTime: varchar('slot_time', { length: 4 }),  // Related walking slot time
-  sentAt: timestamp('sent_at').defaultNow().notNull(), // When the SMS was sent
+  suppressedReason: text('suppressed_reason'),     // Why the message wasn't sent (e.g. unsubscribed), null if it was
+  sentAt: timestamp('sent_at').defaultNow().notNull(), // When the message was sent
+});
+
+// Whether each phone number has agreed to receive texts, changed by STOP and
+// START replies. Shared by every household, since STOP applies to the number.
+export const smsSubscriptions = pgTable('sms_subscriptions', {
+  phone: text('phone').primaryKey(),               // Phone number (E.164 format)
+  status: text('status').notNull(),                // subscribed or unsubscribed
+  source: text('source').notNull(),                // What set the status (booking, sms_stop, sms_start)
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 // WalkingSlot type matches the database schema
 export type WalkingSlot = {
   date: string;       // YYYY-MM-DD format
   time: string;       // HHMM format (24-hour)
+  duration: number;   // Length of the walk in minutes
   name: string;       // Walker's name
+  walkerId?: number;  // The walker's stable id
   phone?: string;     // Walker's phone number (E.164 format)
   notes?: string;     // Optional notes
   timestamp: number;  // Timestamp for when the slot was booked
+  ownerId?: string;   // Public identifier of the walker token that booked the slot
+  seriesId?: number;  // Recurring series this slot belongs to
+  coverRequestedAt?: number;  // Set while the walker is looking for someone to take over
+  checkedInAt?: number;       // When the walk actually started (seconds)
+  checkedOutAt?: number;      // When the walk actually finished (seconds)
+};
+
+// A freshly booked slot also carries the secret walker token so the
+// browser can store it and prove ownership later
+export type BookedSlot = WalkingSlot & {
+  ownerToken: string;
 };
 
 // Zod schemas with validation
 export const insertSlotSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
   time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  duration: z.number().int().min(5).max(240).optional(), // Minutes, DEFAULT_WALK_MINUTES if omitted
   name: z.string().min(1, "Name is required"),
   phone: z.string().optional(),
   notes: z.string().optional(),
+  ownerToken: z.string().min(1).optional(), // Existing walker token, a new one is issued if omitted
 });
 
 export const deleteSlotSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
   time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
   name: z.string().min(1, "Name is required"),
+  ownerToken: z.string().optional(), // Walker token of the browser that booked the slot
+  ownerKey: z.string().optional(),   // Owner override key (OWNER_KEY)
+});
+
+// Maximum number of slots a single recurring series can create
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export const insertSeriesSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().optional(),
+  notes: z.string().optional(),
+  time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  duration: z.number().int().min(5).max(240).optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+  occurrences: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+  ownerToken: z.string().min(1).optional(),
+}).refine(
+  (series) => !!series.endDate !== !!series.occurrences,
+  "Provide either an end date or a number of occurrences",
+).refine(
+  (series) => !series.endDate || series.endDate >= series.startDate,
+  "End date must not be before the start date",
+);
+
+export const deleteSeriesSchema = z.object({
+  ownerToken: z.string().optional(),
+  ownerKey: z.string().optional(),
+});
+
+// Owner-only schemas used by the admin console
+export const updateWalkerSchema = z.object({
+  name: z.string().min(1, "Name is required").optional(),
+  phone: z.string().optional(), // Empty string clears the phone number
+  colorIndex: z.number().int().min(0).max(9).optional(),
+  broadcastOptOut: z.boolean().optional(),
+});
+
+export const reassignSlotSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().optional(),
+});
+
+// Text every walker that a day still needs walks, or just preview who would get it
+export const helpBroadcastSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  dryRun: z.boolean().optional(),
+});
+
+// Ask for someone to take over a walk, or take back the request
+export const coverRequestSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  ownerToken: z.string().optional(), // Walker token of the browser that booked the slot
+  ownerKey: z.string().optional(),   // Owner override key (OWNER_KEY)
+});
+
+// Check in at the start of a walk, or check out at its end
+export const walkCheckSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  ownerToken: z.string().optional(), // Walker token of the browser that booked the slot
+  ownerKey: z.string().optional(),   // Owner override key (OWNER_KEY)
+});
+
+// Take over a walk whose walker asked for cover
+export const claimSlotSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().optional(),
+  ownerToken: z.string().min(1).optional(), // Existing walker token, a new one is issued if omitted
+});
+
+// Energy levels a walker can pick in a walk report
+export const ENERGY_LEVELS = ["low", "normal", "high"] as const;
+export type EnergyLevel = typeof ENERGY_LEVELS[number];
+
+// File or update the report for a finished walk
+export const walkReportSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  time: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format"),
+  peed: z.boolean(),
+  pooped: z.boolean(),
+  energy: z.enum(ENERGY_LEVELS),
+  route: z.string().max(200).optional(),
+  distanceMiles: z.number().min(0).max(50).optional(),
+  incidents: z.string().max(1000).optional(),
+  ownerToken: z.string().optional(), // Walker token of the browser that booked the slot
+  ownerKey: z.string().optional(),   // Owner override key (OWNER_KEY)
+});
+
+// Largest photo file accepted, before resizing
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+
+// Most photos a single walk can have
+export const MAX_PHOTOS_PER_WALK = 12;
+
+// Add a photo to a finished walk; sent as form fields alongside the image
+export const uploadPhotoSchema = z.object({
+  ownerToken: z.string().optional(), // Walker token of the browser that booked the slot
+  ownerKey: z.string().optional(),   // Owner override key (OWNER_KEY)
+});
+
+// Save a new version of the care instructions. baseVersion is the version the
+// owner started editing, so an edit made meanwhile in another tab isn't lost.
+export const saveCareInstructionsSchema = z.object({
+  sections: z.array(z.object({
+    title: z.string().trim().min(1, "Section title is required").max(100),
+    body: z.string().max(10000),
+  })).min(1, "Add at least one section").max(30),
+  baseVersion: z.number().int().min(0),
+});
+
+// Largest timestamp the database's integer columns hold
+const MAX_STORED_SECONDS = 2147483647;
+
+// A timestamp in a backup, in seconds; millisecond ones from older exports are converted
+const importTimestampSchema = z.number().int().positive()
+  .transform(toSeconds)
+  .refine((seconds) => seconds <= MAX_STORED_SECONDS, "Timestamp is too far in the future");
+
+// A slot row in a backup being imported; timestamps are kept when given
+export const importSlotSchema = insertSlotSchema.omit({ ownerToken: true }).extend({
+  timestamp: importTimestampSchema.optional(),
+  checkedInAt: importTimestampSchema.optional(),
+  checkedOutAt: importTimestampSchema.optional(),
+});
+
+// A walker row in a backup being imported
+export const importWalkerSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  colorIndex: z.number().int().min(0).max(9),
+  phone: z.string().optional(),
+  broadcastOptOut: z.boolean().optional(),
+});
+
+// Merge adds what's missing; replace swaps every slot for the backup's
+export const IMPORT_MODES = ["merge", "replace"] as const;
+export type ImportMode = typeof IMPORT_MODES[number];
+
+// Form fields sent with an import file
+export const importOptionsSchema = z.object({
+  mode: z.enum(IMPORT_MODES).default("merge"),
+  dryRun: z.enum(["true", "false"]).optional().transform(value => value === "true"),
+});
+
+// Tables that can be exported as CSV
+export const EXPORT_TABLES = ["slots", "walkers", "deliveries"] as const;
+export type ExportTable = typeof EXPORT_TABLES[number];
+
+// How long a freed walk is held for the first walker on the waitlist
+export const WAITLIST_HOLD_MINUTES = 30;
+
+// Join the waitlist for a full day, optionally only for walks within a time window
+export const joinWaitlistSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  startTime: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format").optional(),
+  endTime: z.string().regex(/^\d{4}$/, "Time must be in 24-hour HHMM format").optional(),
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().min(1, "A phone number is needed to text you when a walk opens up"),
+  ownerToken: z.string().min(1).optional(), // Existing walker token, a new one is issued if omitted
+}).refine(
+  (entry) => !entry.startTime || !entry.endTime || entry.endTime >= entry.startTime,
+  "The window must not end before it starts",
+);
+
+export const leaveWaitlistSchema = z.object({
+  ownerToken: z.string().optional(), // Walker token of the browser that joined
+  ownerKey: z.string().optional(),   // Owner override key (OWNER_KEY)
 });
 
 export type InsertSlot = z.infer<typeof insertSlotSchema>;
 export type DeleteSlot = z.infer<typeof deleteSlotSchema>;
+export type UpdateWalker = z.infer<typeof updateWalkerSchema>;
+export type InsertSeries = z.infer<typeof insertSeriesSchema>;
+export type DeleteSeries = z.infer<typeof deleteSeriesSchema>;
+export type ReassignSlot = z.infer<typeof reassignSlotSchema>;
+export type HelpBroadcast = z.infer<typeof helpBroadcastSchema>;
+export type CoverRequest = z.infer<typeof coverRequestSchema>;
+export type ClaimSlot = z.infer<typeof claimSlotSchema>;
+export type WalkCheck = z.infer<typeof walkCheckSchema>;
+export type SubmitWalkReport = z.infer<typeof walkReportSchema>;
+export type SaveCareInstructions = z.infer<typeof saveCareInstructionsSchema>;
+export type UploadPhoto = z.infer<typeof uploadPhotoSchema>;
+export type JoinWaitlist = z.infer<typeof joinWaitlistSchema>;
+export type LeaveWaitlist = z.infer<typeof leaveWaitlistSchema>;
+export type ImportSlot = z.infer<typeof importSlotSchema>;
+export type ImportWalker = z.infer<typeof importWalkerSchema>;
 
 export type DaySchedule = {
   date: string;
@@ -68,32 +419,254 @@ export type WeekSchedule = {
   [date: string]: WalkingSlot[];
 };
 
+// Pushed to browsers over /api/events when a slot is booked, cancelled or
+// changed in place (e.g. its walker asked for cover)
+export type SlotEvent = {
+  type: "slot_booked" | "slot_cancelled" | "slot_updated";
+  slot: WalkingSlot;     // Without the walker's phone number
+  colorIndex: number;    // The walker's color, for leaderboard entries
+};
+
+// Recurring series type definition
+export type RecurringSeries = {
+  id: number;
+  name: string;
+  phone?: string;
+  notes?: string;
+  time: string;        // HHMM format (24-hour)
+  duration: number;    // Length of each walk in minutes
+  weekdays: number[];  // Days of the week (0 = Sunday)
+  startDate: string;   // YYYY-MM-DD format
+  endDate?: string;    // YYYY-MM-DD format, inclusive
+  occurrences?: number;
+  ownerId?: string;
+  timestamp: number;
+};
+
+// An occurrence of a series that wasn't booked, and why
+export type SkippedDate = {
+  date: string;    // YYYY-MM-DD format
+  reason: string;
+};
+
+// Result of booking a recurring series
+export type BookedSeries = {
+  series: RecurringSeries;
+  booked: WalkingSlot[];
+  skipped: SkippedDate[];
+  ownerToken: string;
+};
+
+// A walker waiting for a walk to free up on a full day
+export type WaitlistEntry = {
+  id: number;
+  date: string;          // YYYY-MM-DD format
+  startTime?: string;    // HHMM, walks from this time on
+  endTime?: string;      // HHMM, walks up to this time
+  name: string;
+  phone?: string;        // Left out when sent to browsers
+  ownerId?: string;      // Public identifier of the walker token that joined
+  heldTime?: string;     // HHMM of a freed walk held for this walker
+  holdExpiresAt?: number; // When the hold lapses (seconds)
+  timestamp: number;     // When the walker joined (seconds), their place in line
+};
+
+// A freshly joined waitlist entry carries the walker token like a booking does
+export type JoinedWaitlist = WaitlistEntry & {
+  ownerToken: string;
+};
+
+// How a walk went, as filed by its walker
+export type WalkReport = {
+  date: string;          // YYYY-MM-DD format
+  time: string;          // HHMM start time of the walk
+  name: string;          // Walker who filed the report
+  peed: boolean;
+  pooped: boolean;
+  energy: EnergyLevel;
+  route?: string;
+  distanceMiles?: number;
+  incidents?: string;
+  timestamp: number;     // When the report was last filed (seconds)
+};
+
+// A photo from a walk, as stored
+export type WalkPhoto = {
+  id: number;
+  date: string;          // YYYY-MM-DD format
+  time: string;          // HHMM start time of the walk
+  name: string;          // Walker whose walk it was
+  walkerId?: number;     // The walker's stable id
+  key: string;           // Photo store key of the resized image
+  thumbnailKey: string;  // Photo store key of the thumbnail
+  timestamp: number;     // When the photo was uploaded (seconds)
+};
+
+// One titled part of the care instructions, like Walking or Feeding
+export type CareSection = {
+  title: string;
+  body: string;          // Markdown
+};
+
+// A version of a household's care instructions. Version 0 is the text the
+// household started with, before any owner edited it.
+export type CareInstructions = {
+  version: number;
+  sections: CareSection[];
+  updatedAt: number;     // When the version was saved (seconds), 0 for version 0
+};
+
+// A walk photo as sent to browsers, with URLs in place of store keys
+export type SlotPhoto = Omit<WalkPhoto, "key" | "thumbnailKey"> & {
+  url: string;
+  thumbnailUrl: string;
+};
+
 // Walker type definition
 export type Walker = {
+  id: number;
   name: string;
   colorIndex: number;
   phone?: string;
+  phoneVerified?: boolean;     // Phone set by an owner or confirmed by text
+  broadcastOptOut?: boolean;   // Left out of "help needed" broadcasts
+};
+
+// A walker's place on a leaderboard
+export type LeaderboardEntry = {
+  walkerId: number;
+  name: string;
+  totalWalks: number;
+  colorIndex: number;
+};
+
+// Outcome of a "help needed" broadcast
+export type HelpBroadcastResult = {
+  date: string;
+  message: string;
+  recipients: Array<{ name: string; phone: string }>;
+  dryRun: boolean;
+  sent: number;
+  skipped: number;   // Already received this exact message
+  failed: number;
+};
+
+// A full backup, as exported and imported as JSON
+export type Backup = {
+  exportedAt: string;         // ISO date and time of the export
+  slots: ImportSlot[];
+  walkers: ImportWalker[];
+  deliveries?: DeliveryRecord[];  // Only when asked for, with addresses masked
+};
+
+// A row of an imported backup that was turned away
+export type ImportRowError = {
+  table: "slots" | "walkers";
+  row: number;        // 1 for the first row, not counting a CSV header
+  message: string;
+};
+
+// Outcome of an import, or what it would do on a dry run
+export type ImportResult = {
+  mode: ImportMode;
+  dryRun: boolean;
+  walkersImported: number;
+  walkersSkipped: number;   // Already there, left as they were
+  slotsImported: number;
+  slotsSkipped: number;     // Already booked by the same walker
+  slotsRemoved: number;     // Existing slots dropped by replace
+  errors: ImportRowError[];
 };
 
-// SMS Audit type definitions
-export type SmsAuditRecord = {
+// Delivery log type definitions
+export type DeliveryRecord = {
   id: number;
+  channel: string;
   messageHash: string;
   recipient: string;
   messageType: string;
   messageContent: string;
   slotDate?: string;
   slotTime?: string;
+  suppressedReason?: string;
   sentAt: Date;
 };
 
-export const insertSmsAuditSchema = z.object({
+export const insertDeliverySchema = z.object({
+  channel: z.string(),
   messageHash: z.string(),
   recipient: z.string(),
   messageType: z.string(),
   messageContent: z.string(),
   slotDate: z.string().optional(),
   slotTime: z.string().optional(),
+  suppressedReason: z.string().optional(),
+});
+
+export type InsertDelivery = z.infer<typeof insertDeliverySchema>;
+
+// Filters for browsing the delivery log
+export type DeliveryLogFilters = {
+  channel?: string;
+  recipient?: string;
+  messageType?: string;
+  slotDate?: string;
+};
+
+// SMS subscription state per phone number
+export const SMS_SUBSCRIPTION_STATUSES = ["subscribed", "unsubscribed"] as const;
+export type SmsSubscriptionStatus = typeof SMS_SUBSCRIPTION_STATUSES[number];
+
+export type SmsSubscription = {
+  phone: string;
+  status: SmsSubscriptionStatus;
+  source: string;
+  updatedAt: Date;
+};
+
+// Channels a notification can be delivered through
+export const NOTIFICATION_CHANNELS = ["sms", "email", "webhook", "console"] as const;
+export type NotificationChannelName = typeof NOTIFICATION_CHANNELS[number];
+
+// An owner who receives booking alerts, and how they want them
+export const notificationRecipientSchema = z.object({
+  name: z.string().optional(),
+  channel: z.enum(NOTIFICATION_CHANNELS),
+  address: z.string().min(1),                  // Phone number, email address or webhook URL
+  messageTypes: z.array(z.string()).optional(), // Only these message types, all if omitted
+});
+
+export type NotificationRecipient = z.infer<typeof notificationRecipientSchema>;
+
+// A household and its pet
+export type Household = {
+  id: number;
+  slug: string;
+  petName: string;
+  petPhotoUrl?: string;
+  careInstructions?: string;  // Care instructions until an owner edits them
+  notifyRecipients?: NotificationRecipient[]; // Owners alerted about bookings
+  smsFrom?: string;         // Twilio number texts are sent from, TWILIO_FROM if not set
+  ownerKeyHash: string;     // SHA-256 of the owners' admin key; empty for the default household, which uses OWNER_KEY
+  timestamp: number;
+};
+
+// What walkers' browsers are told about a household
+export type PublicHousehold = {
+  slug: string;
+  petName: string;
+  petPhotoUrl?: string;
+  isDefault: boolean;
+};
+
+// A household being added; slugs are lowercase letters, digits and dashes
+export const insertHouseholdSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{1,39}$/, "Slug must be 2-40 lowercase letters, digits or dashes"),
+  petName: z.string().min(1, "Pet name is required"),
+  petPhotoUrl: z.string().url().optional(),
+  careInstructions: z.string().optional(),  // Markdown, the first version of the care instructions
+  notifyRecipients: z.array(notificationRecipientSchema).optional(),
+  smsFrom: z.string().optional(),
 });
 
-export type InsertSmsAudit = z.infer<typeof insertSmsAuditSchema>;
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
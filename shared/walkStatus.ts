@@ -0,0 +1,68 @@
+import { WalkingSlot } from "./schema";
+import { toMinutes } from "./availability";
+
+// Where a booked walk stands, from its check-in and check-out times
+export type WalkStatus = "scheduled" | "in_progress" | "completed" | "missed";
+
+// How long before its start a walk can be checked in
+export const CHECK_IN_EARLY_MINUTES = 30;
+
+// An Eastern Time date and HHMM time, e.g. the current time
+export type DateTimeET = {
+  date: string;   // YYYY-MM-DD
+  time: string;   // HHMM
+};
+
+/**
+ * Minutes from one ET date and time to another
+ * @param from The earlier date and time
+ * @param to The later date and time
+ * @returns The difference, negative when `to` is before `from`
+ */
+export function minutesBetween(from: DateTimeET, to: DateTimeET): number {
+  const days = Math.round(
+    (Date.parse(`${to.date}T00:00:00Z`) - Date.parse(`${from.date}T00:00:00Z`)) / 86400000,
+  );
+  return days * 1440 + toMinutes(to.time) - toMinutes(from.time);
+}
+
+/**
+ * Work out whether a walk is still to come, under way, done or missed. A
+ * walk nobody checked in to by its booked end time counts as missed.
+ * @param slot The booked walk
+ * @param now The current ET date and time
+ */
+export function getWalkStatus(
+  slot: Pick<WalkingSlot, "date" | "time" | "duration" | "checkedInAt" | "checkedOutAt">,
+  now: DateTimeET,
+): WalkStatus {
+  if (slot.checkedOutAt) return "completed";
+  if (slot.checkedInAt) return "in_progress";
+  return minutesBetween(now, slot) + slot.duration <= 0 ? "missed" : "scheduled";
+}
+
+/**
+ * Check whether a walk can be checked in to now: from shortly before its
+ * start until its booked end
+ * @param slot The booked walk
+ * @param now The current ET date and time
+ */
+export function canCheckIn(
+  slot: Pick<WalkingSlot, "date" | "time" | "duration" | "checkedInAt" | "checkedOutAt">,
+  now: DateTimeET,
+): boolean {
+  return getWalkStatus(slot, now) === "scheduled" && minutesBetween(now, slot) <= CHECK_IN_EARLY_MINUTES;
+}
+
+/**
+ * Check whether a walk can be reported on now: once it's checked out or
+ * its booked end has passed
+ * @param slot The booked walk
+ * @param now The current ET date and time
+ */
+export function canReport(
+  slot: Pick<WalkingSlot, "date" | "time" | "duration" | "checkedOutAt">,
+  now: DateTimeET,
+): boolean {
+  return !!slot.checkedOutAt || minutesBetween(now, slot) + slot.duration <= 0;
+}
@@ -0,0 +1,34 @@
+import type Database from "@replit/database";
+
+/**
+ * Create an in-process stand-in for the Replit Database client. Values are
+ * kept as JSON text like the real service, so dates come back as strings and
+ * undefined fields are dropped, and every call answers with the same
+ * { ok, value } results.
+ */
+export function createFakeReplitDb(): Database {
+  const values = new Map<string, string>();
+
+  const fake = {
+    async get(key: string) {
+      const text = values.get(key);
+      if (text === undefined) {
+        return { ok: false, error: { message: "Not found", statusCode: 404 } };
+      }
+      return { ok: true, value: JSON.parse(text) };
+    },
+    async set(key: string, value: unknown) {
+      values.set(key, JSON.stringify(value));
+      return { ok: true, value: fake };
+    },
+    async delete(key: string) {
+      values.delete(key);
+      return { ok: true, value: fake };
+    },
+    async list(prefix = "") {
+      return { ok: true, value: Array.from(values.keys()).filter((key) => key.startsWith(prefix)) };
+    },
+  };
+
+  return fake as unknown as Database;
+}
@@ -0,0 +1,28 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+
+// The ESM build of drizzle-kit's API can't load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api",
+) as typeof import("drizzle-kit/api");
+
+/**
+ * Create an in-process Postgres database with the app's schema applied.
+ * Stands in for the Neon pool in server/db.ts during tests.
+ */
+export async function createTestDb() {
+  const client = new PGlite();
+
+  // Generate the same DDL `drizzle-kit push` would run against an empty database
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  return drizzle(client, { schema });
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { registerRoutes } from "../../server/routes";
+
+const MONDAY = "2030-06-03";
+const OWNER_KEY = "owner-secret";
+
+describe("owner key checks", () => {
+  let server: Server;
+  let baseUrl: string;
+  // Each test starts a day later, past any lockout left by the one before
+  let day = 0;
+
+  beforeAll(async () => {
+    process.env.OWNER_KEY = OWNER_KEY;
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.OWNER_KEY;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.parse("2030-01-01T12:00:00Z") + day++ * 24 * 60 * 60 * 1000);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function login(password: string) {
+    return fetch(`${baseUrl}/api/admin/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  function listWalkers(key?: string) {
+    return fetch(`${baseUrl}/api/admin/walkers`, { headers: key ? { "X-Owner-Key": key } : {} });
+  }
+
+  function cancelWithKey(ownerKey: string) {
+    return fetch(`${baseUrl}/api/slot`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ date: MONDAY, time: "0900", name: "Sam", ownerKey }),
+    });
+  }
+
+  it("logs in with the owner key and turns away a wrong one", async () => {
+    expect((await login("wrong")).status).toBe(401);
+    const res = await login(OWNER_KEY);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ success: true });
+  });
+
+  it("lets admin routes through only with the owner key header", async () => {
+    expect((await listWalkers()).status).toBe(401);
+    expect((await listWalkers("wrong")).status).toBe(401);
+    expect((await listWalkers(OWNER_KEY)).status).toBe(200);
+  });
+
+  it("locks an address out after five wrong keys sent to any route", async () => {
+    await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" }, { ownerId: "sam-owner" });
+
+    await login("wrong-1");
+    await listWalkers("wrong-2");
+    await listWalkers("wrong-3");
+    expect((await cancelWithKey("wrong-4")).status).toBe(403);
+    expect((await cancelWithKey("wrong-5")).status).toBe(403);
+
+    // Even the right key is refused everywhere until the lockout ends
+    const locked = await login(OWNER_KEY);
+    expect(locked.status).toBe(429);
+    expect(Number(locked.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect((await listWalkers(OWNER_KEY)).status).toBe(429);
+    expect((await cancelWithKey(OWNER_KEY)).status).toBe(403);
+    expect(await storage.getSlot(MONDAY, "0900")).not.toBeNull();
+
+    vi.setSystemTime(Date.now() + 15 * 60 * 1000);
+    expect((await listWalkers(OWNER_KEY)).status).toBe(200);
+    expect((await cancelWithKey(OWNER_KEY)).status).toBe(200);
+  });
+});
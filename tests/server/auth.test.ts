@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { getLoginRetryAfter, recordLoginAttempt } from "../../server/auth";
+
+const MINUTE = 60 * 1000;
+
+describe("admin login limit", () => {
+  it("makes an address wait after five wrong passwords", () => {
+    const start = Date.parse("2030-06-03T12:00:00Z");
+    for (let i = 0; i < 4; i++) {
+      recordLoginAttempt("10.0.0.1", false, start);
+    }
+    expect(getLoginRetryAfter("10.0.0.1", start)).toBe(0);
+
+    recordLoginAttempt("10.0.0.1", false, start);
+    expect(getLoginRetryAfter("10.0.0.1", start + MINUTE)).toBe(14 * 60);
+    // Other addresses can still try
+    expect(getLoginRetryAfter("10.0.0.2", start + MINUTE)).toBe(0);
+
+    expect(getLoginRetryAfter("10.0.0.1", start + 15 * MINUTE)).toBe(0);
+  });
+
+  it("forgets earlier failures after a successful login", () => {
+    const start = Date.parse("2030-06-03T12:00:00Z");
+    for (let i = 0; i < 4; i++) {
+      recordLoginAttempt("10.0.0.3", false, start);
+    }
+    recordLoginAttempt("10.0.0.3", true, start);
+    recordLoginAttempt("10.0.0.3", false, start);
+
+    expect(getLoginRetryAfter("10.0.0.3", start)).toBe(0);
+  });
+});
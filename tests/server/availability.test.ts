@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { registerRoutes } from "../../server/routes";
+
+const DEFAULT_DAY = { start: "0800", end: "2000", interval: 30 };
+
+describe("GET /api/config/availability", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    delete process.env.AVAILABILITY;
+  });
+
+  async function getAvailability() {
+    const res = await fetch(`${baseUrl}/api/config/availability`);
+    expect(res.status).toBe(200);
+    return res.json();
+  }
+
+  it("gives the default walking window every day without AVAILABILITY", async () => {
+    expect(await getAvailability()).toEqual({ days: Array(7).fill(DEFAULT_DAY), blackoutDates: [] });
+  });
+
+  it("applies weekday overrides and blackout dates", async () => {
+    process.env.AVAILABILITY = JSON.stringify({
+      weekdays: { "0": { start: "1000", end: "1600", interval: 60 }, "3": null },
+      blackoutDates: ["2030-12-25"],
+    });
+
+    const availability = await getAvailability();
+    expect(availability.days[0]).toEqual({ start: "1000", end: "1600", interval: 60 });
+    expect(availability.days[1]).toEqual(DEFAULT_DAY);
+    expect(availability.days[3]).toBeNull();
+    expect(availability.blackoutDates).toEqual(["2030-12-25"]);
+  });
+
+  it("falls back to the default for an invalid value and only logs the problem once", async () => {
+    const logError = vi.spyOn(console, "error").mockImplementation(() => {});
+    process.env.AVAILABILITY = "{ not json";
+
+    expect((await getAvailability()).days).toEqual(Array(7).fill(DEFAULT_DAY));
+    await getAvailability();
+    expect(logError).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkers } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { buildBackup, backupToCsv, parseBackup, importBackup, ImportError } from "../../server/backup";
+
+describe("backups", () => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+  });
+
+  async function bookHistory() {
+    await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Sam", phone: "+15550000001" });
+    await storage.addSlot({ date: "2030-06-03", time: "1700", name: "Alex", notes: "=HYPERLINK(\"x\"), \"quoted\"" });
+    await storage.checkInSlot("2030-06-03", "0900", 1900000000);
+  }
+
+  async function clearHistory() {
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+  }
+
+  it("restores a JSON export into an empty store", async () => {
+    await bookHistory();
+    const text = JSON.stringify(await buildBackup(false));
+    await clearHistory();
+
+    const result = await importBackup(parseBackup(text), "merge", false);
+
+    expect(result).toMatchObject({ walkersImported: 2, slotsImported: 2, errors: [] });
+    expect(await storage.getSlotsBetween("2030-06-03", "2030-06-03")).toEqual([
+      expect.objectContaining({ time: "0900", name: "Sam", phone: "+15550000001", checkedInAt: 1900000000 }),
+      expect.objectContaining({ time: "1700", name: "Alex" }),
+    ]);
+  });
+
+  it("round-trips slots through CSV, keeping quotes and defusing formulas", async () => {
+    await bookHistory();
+    const csv = backupToCsv(await buildBackup(false), "slots");
+    expect(csv).toContain("'=HYPERLINK");
+    await clearHistory();
+
+    await importBackup(parseBackup(csv), "merge", false);
+
+    expect(await storage.getSlot("2030-06-03", "1700"))
+      .toMatchObject({ name: "Alex", notes: "=HYPERLINK(\"x\"), \"quoted\"" });
+  });
+
+  it("reports invalid and conflicting rows by number, and a dry run changes nothing", async () => {
+    await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Jo" });
+    const csv = [
+      "date,time,name",
+      "2030-06-03,0900,Sam",
+      "2030-06-04,9am,Sam",
+      "2030-06-05,0900,Sam",
+    ].join("\n");
+
+    const result = await importBackup(parseBackup(csv), "merge", true);
+
+    expect(result.slotsImported).toBe(1);
+    expect(result.errors.map(({ row }) => row).sort()).toEqual([1, 2]);
+    expect(result.errors.find(({ row }) => row === 1)!.message).toContain("already booked by Jo");
+    expect(await storage.getSlot("2030-06-05", "0900")).toBeNull();
+  });
+
+  it("refuses merged walks that overlap a booked walk or an earlier row", async () => {
+    await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Jo", duration: 60 });
+    const rows = {
+      slots: [
+        { date: "2030-06-03", time: "0930", name: "Sam" },
+        { date: "2030-06-03", time: "2330", name: "Sam", duration: 60 },
+        { date: "2030-06-04", time: "0000", name: "Alex" },
+        { date: "2030-06-03", time: "1000", name: "Alex" },
+      ],
+      walkers: [],
+    };
+
+    for (const dryRun of [true, false]) {
+      const result = await importBackup(rows, "merge", dryRun);
+      expect(result.slotsImported).toBe(2);
+      expect(result.errors).toEqual([
+        { table: "slots", row: 1, message: "2030-06-03 0930 overlaps Jo's walk at 9:00 AM" },
+        { table: "slots", row: 3, message: "2030-06-04 0000 overlaps Sam's walk at 11:30 PM" },
+      ]);
+    }
+    expect(await storage.getSlotsBetween("2030-06-03", "2030-06-04")).toEqual([
+      expect.objectContaining({ time: "0900", name: "Jo" }),
+      expect.objectContaining({ time: "1000", name: "Alex" }),
+      expect.objectContaining({ time: "2330", name: "Sam" }),
+    ]);
+  });
+
+  it("replaces every slot, unless any row is invalid", async () => {
+    await bookHistory();
+    const rows = { slots: [{ date: "2030-07-01", time: "0900", name: "Kim" }], walkers: [] };
+
+    const refused = await importBackup({ ...rows, slots: [...rows.slots, { date: "bad" }] }, "replace", false);
+    expect(refused.slotsImported).toBe(0);
+    expect(await storage.getSlotsBetween("2030-06-03", "2030-06-03")).toHaveLength(2);
+
+    const result = await importBackup(rows, "replace", false);
+    expect(result).toMatchObject({ slotsRemoved: 2, slotsImported: 1, errors: [] });
+    expect(await storage.getSlotsBetween("2030-01-01", "2030-12-31")).toEqual([
+      expect.objectContaining({ date: "2030-07-01", name: "Kim" }),
+    ]);
+  });
+
+  it("converts millisecond timestamps from older exports and refuses ones too large to store", async () => {
+    const result = await importBackup({
+      slots: [
+        { date: "2030-07-01", time: "0900", name: "Kim", timestamp: 1900000000123 },
+        { date: "2030-07-02", time: "0900", name: "Kim", checkedInAt: 9e15 },
+      ],
+      walkers: [],
+    }, "merge", false);
+
+    expect(result.errors.map(({ row }) => row)).toEqual([2]);
+    expect(await storage.getSlot("2030-07-01", "0900")).toMatchObject({ timestamp: 1900000000 });
+  });
+
+  it("puts the removed walks and walker details back when a replace fails partway", async () => {
+    await bookHistory();
+    const sam = await storage.findWalker("Sam");
+    await storage.verifyWalkerPhone(sam!.id, "+15550000001");
+    const view = storage.forHousehold(0);
+    const addSlot = view.addSlot.bind(view);
+    vi.spyOn(view, "addSlot")
+      .mockImplementationOnce(addSlot)
+      .mockRejectedValueOnce(new Error("Connection lost"));
+    const rows = {
+      slots: [
+        { date: "2030-07-01", time: "0900", name: "Kim" },
+        { date: "2030-07-02", time: "0900", name: "Kim" },
+      ],
+      walkers: [{ name: "Sam", colorIndex: 5, phone: "+15550000009" }],
+    };
+
+    await expect(importBackup(rows, "replace", false)).rejects.toThrow("Connection lost");
+
+    expect(await storage.findWalker("Sam")).toMatchObject({ colorIndex: 0, phone: "+15550000001", phoneVerified: true });
+    expect(await storage.getSlotsBetween("2030-01-01", "2030-12-31")).toEqual([
+      expect.objectContaining({ date: "2030-06-03", time: "0900", name: "Sam", checkedInAt: 1900000000 }),
+      expect.objectContaining({ date: "2030-06-03", time: "1700", name: "Alex" }),
+    ]);
+    vi.restoreAllMocks();
+  });
+
+  it("turns away files that aren't backups", () => {
+    expect(() => parseBackup("{not json")).toThrow(ImportError);
+    expect(() => parseBackup("a,b\n1,2")).toThrow(ImportError);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkers, deliveryLog } from "@shared/schema";
+import { db } from "../../server/db";
+import { broadcastHelpNeeded, BroadcastError } from "../../server/broadcast";
+
+const DATE = "2030-06-05";
+
+describe("broadcastHelpNeeded", () => {
+  beforeEach(async () => {
+    process.env.NOTIFY_TEST_MODE = "true";
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+    await db.delete(deliveryLog);
+    await db.delete(walkers);
+    await db.insert(walkers).values([
+      { name: "Sam", colorIndex: 0, phone: "+15550000001" },
+      { name: "Alex", colorIndex: 1, phone: "+15550000002", broadcastOptOut: true },
+      { name: "Jo", colorIndex: 2 },
+    ]);
+  });
+
+  it("previews the message and opted-in walkers with phones on a dry run", async () => {
+    await db.insert(walkingSlots).values({ date: DATE, time: "0800", name: "Jo", timestamp: 0 });
+
+    const result = await broadcastHelpNeeded(DATE, "https://finn.example", true);
+
+    expect(result.recipients).toEqual([{ name: "Sam", phone: "+15550000001" }]);
+    expect(result.message).toContain(`https://finn.example/?date=${DATE}&time=0830`);
+    expect(result.sent).toBe(0);
+  });
+
+  it("rate limits a second broadcast for the same day", async () => {
+    const first = await broadcastHelpNeeded(DATE, "https://finn.example");
+    expect(first.sent).toBe(1);
+
+    await expect(broadcastHelpNeeded(DATE, "https://finn.example")).rejects.toMatchObject({
+      status: 429,
+    });
+    await expect(broadcastHelpNeeded(DATE, "https://finn.example")).rejects.toBeInstanceOf(
+      BroadcastError,
+    );
+  });
+});
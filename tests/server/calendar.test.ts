@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { WalkingSlot } from "@shared/schema";
+import { buildCalendar } from "../../server/calendar";
+
+const MONDAY = "2030-06-03";
+
+// A booked walk, with the fields the calendar doesn't read filled in
+function slot(fields: Partial<WalkingSlot>): WalkingSlot {
+  return { date: MONDAY, time: "0900", name: "Sam", notes: "", timestamp: 0, duration: 30, ...fields };
+}
+
+// The calendar's content lines, with folded lines joined back up
+function contentLines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("iCalendar feeds", () => {
+  it("writes an event per walk with its walker, times and notes", () => {
+    const calendar = buildCalendar(
+      [slot({ notes: "Leash is by the door" }), slot({ time: "1700", duration: 60 })],
+      "Finn Walks",
+      true,
+    );
+    const lines = contentLines(calendar);
+
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(lines).toContain("X-WR-CALNAME:Finn Walks");
+    expect(lines).toContain(`UID:walk-${MONDAY}-0900@finnwalks.com`);
+    expect(lines).toContain("SUMMARY:Sam walks Finn");
+    expect(lines).toContain("DESCRIPTION:Leash is by the door");
+    expect(lines).toContain("DTEND;TZID=America/New_York:20300603T180000");
+    expect(lines.some((line) => line.startsWith("DTSTAMP:") && line.endsWith("Z"))).toBe(true);
+  });
+
+  it("leaves the walker out of titles on a walker's own feed", () => {
+    const lines = contentLines(buildCalendar([slot({})], "Finn Walks (Sam)", false));
+
+    expect(lines).toContain("SUMMARY:Walk Finn");
+    expect(lines.some((line) => line.startsWith("DESCRIPTION:"))).toBe(false);
+  });
+
+  it("escapes text and folds long lines", () => {
+    const notes = "Treats; water, towel\nDoor code is 12\\34. " + "Finn pulls toward squirrels. ".repeat(4);
+    const calendar = buildCalendar([slot({ notes })], "Finn Walks", true);
+
+    expect(calendar.endsWith("\r\n")).toBe(true);
+    expect(calendar.split("\r\n").every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(contentLines(calendar)).toContain(
+      "DESCRIPTION:Treats\\; water\\, towel\\nDoor code is 12\\\\34. " + "Finn pulls toward squirrels. ".repeat(4),
+    );
+  });
+
+  it("gives times in Eastern time, ending walks past midnight the next day", () => {
+    const lines = contentLines(buildCalendar([slot({ time: "2330", duration: 60 })], "Finn Walks", true));
+
+    expect(lines).toContain("X-WR-TIMEZONE:America/New_York");
+    expect(lines).toContain("TZID:America/New_York");
+    expect(lines).toContain("DTSTART;TZID=America/New_York:20300603T233000");
+    expect(lines).toContain("DTEND;TZID=America/New_York:20300604T003000");
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { careInstructionVersions } from "@shared/schema";
+import { db } from "../../server/db";
+import {
+  getCareInstructions,
+  getCareInstructionsHistory,
+  saveCareInstructions,
+  CareInstructionsError,
+} from "../../server/careInstructions";
+import { runInHousehold } from "../../server/householdContext";
+
+const maple = { id: 7, slug: "maple", petName: "Maple", careInstructions: "Loves *squirrels*", ownerKeyHash: "hash", timestamp: 0 };
+
+describe("care instructions", () => {
+  beforeEach(async () => {
+    await db.delete(careInstructionVersions);
+  });
+
+  it("starts from Finn's original text until an owner edits it", async () => {
+    const original = await getCareInstructions();
+
+    expect(original).toMatchObject({ version: 0, updatedAt: 0 });
+    expect(original.sections[0].body).toContain("30-minute walk twice a day");
+  });
+
+  it("saves edits as new versions and turns away edits of an old one", async () => {
+    const saved = await saveCareInstructions({ sections: [{ title: "Feeding", body: "One cup" }], baseVersion: 0 });
+    expect(saved).toMatchObject({ version: 1, sections: [{ title: "Feeding", body: "One cup" }] });
+    expect(saved.updatedAt).toBeGreaterThan(0);
+
+    const stale = saveCareInstructions({ sections: [{ title: "Walking", body: "Short walks" }], baseVersion: 0 });
+    await expect(stale).rejects.toThrow(CareInstructionsError);
+    await expect(stale).rejects.toMatchObject({ status: 409 });
+
+    expect((await getCareInstructionsHistory()).map(({ version }) => version)).toEqual([1, 0]);
+    expect(await getCareInstructions()).toEqual(saved);
+  });
+
+  it("turns away one of two owners saving from the same version at once", async () => {
+    const results = await Promise.allSettled(["Feeding", "Walking"].map((title) =>
+      saveCareInstructions({ sections: [{ title, body: "Changed" }], baseVersion: 0 }),
+    ));
+
+    expect(results.filter(({ status }) => status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find(({ status }) => status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(CareInstructionsError);
+    expect(rejected.reason.status).toBe(409);
+  });
+
+  it("keeps each household's instructions apart", async () => {
+    await saveCareInstructions({ sections: [{ title: "Feeding", body: "One cup" }], baseVersion: 0 });
+
+    const mapleInstructions = await runInHousehold(maple, getCareInstructions);
+    expect(mapleInstructions).toEqual({
+      version: 0,
+      sections: [{ title: "Walking", body: "Loves *squirrels*" }],
+      updatedAt: 0,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkers } from "@shared/schema";
+import { db } from "../../server/db";
+import { MemStorage, DatabaseStorage } from "../../server/storage";
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s check-in", (_name, createStorage) => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+  });
+
+  it("checks a walk in and out only once, in that order", async () => {
+    const storage = createStorage();
+    await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Sam" });
+
+    expect(await storage.checkOutSlot("2030-06-03", "0900", 200)).toBeNull();
+    expect(await storage.checkInSlot("2030-06-03", "0900", 100)).toMatchObject({ checkedInAt: 100 });
+    expect(await storage.checkInSlot("2030-06-03", "0900", 150)).toBeNull();
+    expect(await storage.checkOutSlot("2030-06-03", "0900", 200))
+      .toMatchObject({ checkedInAt: 100, checkedOutAt: 200 });
+    expect(await storage.checkOutSlot("2030-06-03", "0900", 250)).toBeNull();
+  });
+});
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s completed walks leaderboard", (_name, createStorage) => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+  });
+
+  it("counts only walks that were checked out", async () => {
+    const storage = createStorage();
+    await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Sam" });
+    await storage.addSlot({ date: "2030-06-03", time: "1700", name: "Sam" });
+    await storage.addSlot({ date: "2030-06-04", time: "0900", name: "Alex" });
+    await storage.checkInSlot("2030-06-03", "0900", 100);
+    await storage.checkOutSlot("2030-06-03", "0900", 200);
+
+    expect(await storage.getLeaderboardAllTime(true)).toEqual([
+      expect.objectContaining({ name: "Sam", totalWalks: 1 }),
+    ]);
+    expect(await storage.getLeaderboardAllTime()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots } from "@shared/schema";
+import { db } from "../../server/db";
+import { MemStorage, DatabaseStorage, storage } from "../../server/storage";
+import { claimCover, BookingError } from "../../server/bookings";
+
+const PARALLEL_CLAIMS = 5;
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s cover handoff", (_name, createStorage) => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+  });
+
+  it("only hands over slots whose walker asked for cover", async () => {
+    const storage = createStorage();
+    await storage.addSlot({ date: "2030-06-01", time: "0900", name: "Sam" }, { ownerId: "sam" });
+
+    expect(await storage.claimSlot("2030-06-01", "0900", "Alex", undefined, "alex")).toBeNull();
+  });
+
+  it("lets exactly one of several parallel claims win", async () => {
+    const storage = createStorage();
+    await storage.addSlot({ date: "2030-06-01", time: "0900", name: "Sam" }, { ownerId: "sam", seriesId: 3 });
+    await storage.setCoverRequest("2030-06-01", "0900", true);
+
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_CLAIMS }, (_, i) =>
+        storage.claimSlot("2030-06-01", "0900", `Walker ${i}`, undefined, `walker-${i}`),
+      ),
+    );
+
+    const winners = results.filter(Boolean);
+    expect(winners).toHaveLength(1);
+
+    // The slot went straight to the winner and left Sam's series
+    const slot = await storage.getSlot("2030-06-01", "0900");
+    expect(slot).toMatchObject({ name: winners[0]!.name, ownerId: winners[0]!.ownerId });
+    expect(slot?.seriesId).toBeUndefined();
+    expect(slot?.coverRequestedAt).toBeUndefined();
+  });
+});
+
+describe("claimCover", () => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("won't let walkers cover their own walk", async () => {
+    await storage.addSlot({ date: "2030-06-02", time: "1000", name: "Sam" }, { ownerId: "sam" });
+    await storage.setCoverRequest("2030-06-02", "1000", true);
+
+    await expect(
+      claimCover({ date: "2030-06-02", time: "1000", name: "Sam" }, "sam"),
+    ).rejects.toBeInstanceOf(BookingError);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { households, walkers, Household, SlotEvent, WalkingSlot } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { handleEventStream, publishSlotEvent } from "../../server/events";
+import { runInHousehold } from "../../server/householdContext";
+
+const slot: WalkingSlot = {
+  date: "2030-06-03",
+  time: "0900",
+  name: "Sam",
+  walkerId: 1,
+  phone: "+15550000001",
+  notes: "",
+  timestamp: 0,
+  duration: 30,
+};
+
+// A browser listening for live updates, recording what it's sent
+function connect() {
+  const req = new EventEmitter();
+  const res = { set: vi.fn(), flushHeaders: vi.fn(), write: vi.fn() };
+  handleEventStream(req as unknown as Request, res as unknown as Response);
+
+  return {
+    // The slot events received so far
+    events: (): SlotEvent[] => res.write.mock.calls
+      .map(([chunk]: [string]) => chunk.match(/^event: slot\ndata: (.*)\n\n$/))
+      .filter((match): match is RegExpMatchArray => !!match)
+      .map((match) => JSON.parse(match[1])),
+    close: () => req.emit("close"),
+  };
+}
+
+describe("live slot events", () => {
+  let maple: Household;
+  const browsers: Array<ReturnType<typeof connect>> = [];
+
+  beforeEach(async () => {
+    await db.delete(walkers);
+    await db.delete(households);
+    maple = await storage.addHousehold({ slug: "maple", petName: "Maple" }, "hash");
+  });
+
+  afterEach(() => {
+    browsers.splice(0).forEach((browser) => browser.close());
+  });
+
+  it("reaches every browser on the household's schedule, and only those", async () => {
+    const finnBrowsers = [connect(), connect()];
+    const mapleBrowser = runInHousehold(maple, connect);
+    browsers.push(...finnBrowsers, mapleBrowser);
+
+    await publishSlotEvent("slot_booked", slot);
+
+    for (const browser of finnBrowsers) {
+      expect(browser.events()).toEqual([
+        { type: "slot_booked", slot: expect.objectContaining({ date: slot.date, time: slot.time, walkerId: 1 }), colorIndex: 0 },
+      ]);
+    }
+    expect(mapleBrowser.events()).toEqual([]);
+
+    await runInHousehold(maple, () => publishSlotEvent("slot_cancelled", slot));
+    expect(mapleBrowser.events().map((event) => event.type)).toEqual(["slot_cancelled"]);
+    expect(finnBrowsers[0].events()).toHaveLength(1);
+  });
+
+  it("leaves phone numbers out and stops sending once a browser goes away", async () => {
+    const staying = connect();
+    const leaving = connect();
+    browsers.push(staying);
+    leaving.close();
+
+    await publishSlotEvent("slot_booked", slot);
+    await publishSlotEvent("slot_updated", slot);
+
+    expect(staying.events().map((event) => event.type)).toEqual(["slot_booked", "slot_updated"]);
+    expect(staying.events()[0].slot).not.toHaveProperty("phone");
+    expect(leaving.events()).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { households, smsSubscriptions, walkingSlots, walkers } from "@shared/schema";
+import { db } from "../../server/db";
+import { IStorage, MemStorage, ReplitStorage, DatabaseStorage, storage } from "../../server/storage";
+import { createHousehold, HouseholdError } from "../../server/households";
+import { runInHousehold } from "../../server/householdContext";
+import { isOwnerKey } from "../../server/auth";
+import { createFakeReplitDb } from "../helpers/fakeReplitDb";
+
+const MONDAY = "2030-06-03";
+
+const maple = { slug: "maple", petName: "Maple" };
+
+// Every backend keeps households' walks apart
+describe.each<[string, () => Promise<IStorage>]>([
+  ["MemStorage", async () => new MemStorage()],
+  ["ReplitStorage", async () => new ReplitStorage(createFakeReplitDb())],
+  ["DatabaseStorage", async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+    await db.delete(households);
+    await db.delete(smsSubscriptions);
+    return new DatabaseStorage();
+  }],
+])("%s households", (_name, createStorage) => {
+  let finn: IStorage;
+  let other: IStorage;
+
+  beforeEach(async () => {
+    finn = await createStorage();
+    const household = await finn.addHousehold(maple, "hash");
+    other = finn.forHousehold(household.id);
+  });
+
+  it("books the same slot in two households without a conflict", async () => {
+    await finn.addSlot({ date: MONDAY, time: "0900", name: "Sam" });
+    await other.addSlot({ date: MONDAY, time: "0900", name: "Sam" });
+
+    expect(await finn.getSlotsBetween(MONDAY, MONDAY)).toHaveLength(1);
+    expect(await other.getSlot(MONDAY, "0900")).toMatchObject({ name: "Sam" });
+    expect(await finn.getAllWalkers()).toHaveLength(1);
+    expect(await other.getAllWalkers()).toHaveLength(1);
+
+    await other.removeSlot(MONDAY, "0900");
+    expect(await finn.getSlot(MONDAY, "0900")).toMatchObject({ name: "Sam" });
+  });
+
+  it("shares households and SMS opt-outs between every household", async () => {
+    await other.setSmsSubscription("+15550000001", "unsubscribed", "STOP");
+
+    expect(await finn.getSmsSubscription("+15550000001")).toMatchObject({ status: "unsubscribed" });
+    expect(await other.getHouseholdBySlug("maple")).toMatchObject({ petName: "Maple", ownerKeyHash: "hash" });
+    expect(await other.getHouseholds()).toHaveLength(1);
+  });
+});
+
+describe("adding a household", () => {
+  const ownerKey = process.env.OWNER_KEY;
+
+  beforeEach(async () => {
+    process.env.OWNER_KEY = "finn-owner";
+    await db.delete(households);
+  });
+
+  afterEach(() => {
+    process.env.OWNER_KEY = ownerKey;
+  });
+
+  it("gives the household its own owner key", async () => {
+    const { household, ownerKey } = await createHousehold(maple);
+
+    runInHousehold(household, () => {
+      expect(isOwnerKey(ownerKey)).toBe(true);
+      expect(isOwnerKey("finn-owner")).toBe(false);
+    });
+    expect(isOwnerKey("finn-owner")).toBe(true);
+    expect(isOwnerKey(ownerKey)).toBe(false);
+  });
+
+  it("refuses a slug that's taken", async () => {
+    await createHousehold(maple);
+
+    await expect(createHousehold(maple)).rejects.toThrow(HouseholdError);
+    await expect(createHousehold({ slug: "finn", petName: "Finn" })).rejects.toMatchObject({ status: 409 });
+    expect(await storage.getHouseholds()).toHaveLength(1);
+  });
+});
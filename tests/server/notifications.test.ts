@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Run the delivery log against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+// Capture email instead of talking to an SMTP server
+const sendMail = vi.fn();
+vi.mock("nodemailer", () => ({
+  default: { createTransport: vi.fn(() => ({ sendMail })) },
+}));
+
+import nodemailer from "nodemailer";
+import { deliveryLog, smsSubscriptions } from "@shared/schema";
+import { db } from "../../server/db";
+import {
+  createConsoleChannel,
+  deliver,
+  getChannel,
+  getDeliveryLog,
+  notifyOwners,
+} from "../../server/notifications";
+import { createEmailChannel } from "../../server/email";
+import { createWebhookChannel } from "../../server/webhook";
+import { setSmsSubscription } from "../../server/smsConsent";
+
+const PHONE = "+15550000001";
+const WEBHOOK_URL = "https://hooks.example.com/services/T000/B000/secret-token";
+
+const message = {
+  messageType: "book",
+  subject: "Walk booked: Sam, Mon, Jun 3 at 9:00 AM",
+  body: "Sam booked Mon, Jun 3 at 9:00 AM. Notes: —",
+};
+
+describe("notification delivery", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await db.delete(deliveryLog);
+    await db.delete(smsSubscriptions);
+  });
+
+  it("sends a message once per recipient and channel", async () => {
+    const sms = createConsoleChannel("sms");
+    const email = createConsoleChannel("email");
+
+    expect(await deliver(sms, PHONE, message)).toBe(true);
+    expect(await deliver(sms, PHONE, message)).toBe(false);
+    expect(await deliver(sms, PHONE, { ...message, body: `${message.body} (updated)` })).toBe(true);
+    expect(await deliver(sms, "+15550000002", message)).toBe(true);
+    expect(await deliver(email, "owner@example.com", message)).toBe(true);
+
+    expect(sms.sent.map(({ to }) => to)).toEqual([PHONE, PHONE, "+15550000002"]);
+    expect(email.sent).toHaveLength(1);
+  });
+
+  it("only holds back texts from unsubscribed numbers", async () => {
+    const sms = createConsoleChannel("sms");
+    const webhook = createConsoleChannel("webhook");
+    await setSmsSubscription(PHONE, "unsubscribed", "sms");
+
+    expect(await deliver(sms, PHONE, message)).toBe(false);
+    expect(await deliver(webhook, WEBHOOK_URL, message)).toBe(true);
+    expect(sms.sent).toHaveLength(0);
+    expect(webhook.sent).toHaveLength(1);
+  });
+
+  it("keeps webhook secrets out of the delivery log", async () => {
+    await deliver(createConsoleChannel("webhook"), WEBHOOK_URL, message);
+
+    const [record] = await getDeliveryLog({ channel: "webhook" });
+    expect(record.recipient).toBe("https://hooks.example.com/***");
+    expect(JSON.stringify(record)).not.toContain("secret-token");
+  });
+
+  describe("owner recipients", () => {
+    beforeEach(() => {
+      process.env.NOTIFY_TEST_MODE = "true";
+      process.env.ALERT_TO = PHONE;
+      process.env.NOTIFY_RECIPIENTS = JSON.stringify([
+        { name: "Ankur", channel: "email", address: "owner@example.com", messageTypes: ["daily_digest"] },
+        { channel: "webhook", address: WEBHOOK_URL },
+      ]);
+    });
+
+    afterEach(() => {
+      delete process.env.NOTIFY_TEST_MODE;
+      delete process.env.ALERT_TO;
+      delete process.env.NOTIFY_RECIPIENTS;
+    });
+
+    // Who each test-mode channel has sent to so far
+    function sentTo(channel: "sms" | "email" | "webhook"): string[] {
+      return (getChannel(channel) as ReturnType<typeof createConsoleChannel>).sent.map(({ to }) => to);
+    }
+
+    it("sends each owner only the message types they asked for", async () => {
+      const before = { sms: sentTo("sms").length, email: sentTo("email").length, webhook: sentTo("webhook").length };
+
+      expect(await notifyOwners(message)).toBe(true);
+      expect(await notifyOwners({ messageType: "daily_digest", subject: "Finn's walks", body: "Finn's walks on Mon, Jun 3" })).toBe(true);
+
+      expect(sentTo("sms").slice(before.sms)).toEqual([PHONE, PHONE]);
+      expect(sentTo("email").slice(before.email)).toEqual(["owner@example.com"]);
+      expect(sentTo("webhook").slice(before.webhook)).toEqual([WEBHOOK_URL, WEBHOOK_URL]);
+    });
+
+    it("ignores an invalid NOTIFY_RECIPIENTS and still alerts ALERT_TO", async () => {
+      process.env.NOTIFY_RECIPIENTS = "[{\"channel\":\"pager\"}]";
+      const before = sentTo("sms").length;
+
+      expect(await notifyOwners(message)).toBe(true);
+      expect(sentTo("sms").slice(before)).toEqual([PHONE]);
+    });
+  });
+});
+
+describe("email channel", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    sendMail.mockReset().mockResolvedValue({ messageId: "<1@example.com>" });
+  });
+
+  it("sends plain text from the configured address, using TLS on port 465", async () => {
+    const channel = createEmailChannel({ host: "smtp.example.com", port: 465, user: "finn", pass: "pw", from: "walks@example.com" });
+    await channel.send("owner@example.com", message);
+
+    expect(nodemailer.createTransport).toHaveBeenLastCalledWith({
+      host: "smtp.example.com",
+      port: 465,
+      secure: true,
+      auth: { user: "finn", pass: "pw" },
+    });
+    expect(sendMail).toHaveBeenCalledWith({
+      from: "walks@example.com",
+      to: "owner@example.com",
+      subject: message.subject,
+      text: message.body,
+    });
+  });
+
+  it("passes on SMTP failures", async () => {
+    sendMail.mockRejectedValue(new Error("Connection refused"));
+    const channel = createEmailChannel({ host: "smtp.example.com", port: 587, from: "walks@example.com" });
+
+    await expect(channel.send("owner@example.com", message)).rejects.toThrow("Connection refused");
+  });
+});
+
+describe("webhook channel", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("posts the message as JSON with a time limit", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    const slot = { date: "2030-06-03", time: "0900", name: "Sam", phone: PHONE, notes: "", timestamp: 0, duration: 30 };
+
+    await createWebhookChannel().send(WEBHOOK_URL, { ...message, slot });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(WEBHOOK_URL);
+    expect(init.method).toBe("POST");
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+    expect(JSON.parse(init.body)).toEqual({
+      text: message.body,
+      content: message.body,
+      subject: message.subject,
+      messageType: "book",
+      slot: { date: "2030-06-03", time: "0900", name: "Sam" },
+    });
+  });
+
+  it("fails when the endpoint answers with an error", async () => {
+    fetchMock.mockResolvedValue(new Response("nope", { status: 500, statusText: "Server Error" }));
+
+    await expect(createWebhookChannel().send(WEBHOOK_URL, message)).rejects.toThrow("500 Server Error");
+  });
+});
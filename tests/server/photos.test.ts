@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkPhotos } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { addSlotPhoto, findPhoto, getPhotoImage, toSlotPhoto, PhotoError } from "../../server/photos";
+
+const PAST = "2020-06-03";
+
+describe("walk photos", () => {
+  let photoDir: string;
+
+  beforeAll(async () => {
+    photoDir = await fs.mkdtemp(path.join(os.tmpdir(), "finn-photos-"));
+    process.env.PHOTO_DIR = photoDir;
+  });
+
+  afterAll(async () => {
+    await fs.rm(photoDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkPhotos);
+  });
+
+  it("stores a resized photo and a square thumbnail", async () => {
+    const slot = await storage.addSlot({ date: PAST, time: "0900", name: "Sam" });
+    const image = await sharp({
+      create: { width: 3000, height: 2000, channels: 3, background: "orange" },
+    }).png().toBuffer();
+
+    const photo = await addSlotPhoto(slot, image);
+
+    const full = await sharp((await getPhotoImage(photo, false))!).metadata();
+    const thumbnail = await sharp((await getPhotoImage(photo, true))!).metadata();
+    expect(full).toMatchObject({ format: "jpeg", width: 1600, height: 1067 });
+    expect(thumbnail).toMatchObject({ format: "jpeg", width: 240, height: 240 });
+    expect(await storage.getWalkPhotosByWalker(slot.walkerId!)).toEqual([photo]);
+  });
+
+  it("serves photos only at URLs with their random token", async () => {
+    const slot = await storage.addSlot({ date: PAST, time: "0900", name: "Sam" });
+    const image = await sharp({
+      create: { width: 100, height: 100, channels: 3, background: "orange" },
+    }).png().toBuffer();
+    const photo = await addSlotPhoto(slot, image);
+
+    const { url, thumbnailUrl } = toSlotPhoto(photo);
+    const [, token] = url.match(new RegExp(`^/api/photos/${photo.id}/([0-9a-f-]{36})$`))!;
+    expect(thumbnailUrl).toBe(`${url}/thumbnail`);
+    expect(await findPhoto(photo.id, token)).toEqual(photo);
+    expect(await findPhoto(photo.id, "00000000-0000-0000-0000-000000000000")).toBeNull();
+  });
+
+  it("turns away photos of walks still to come and files that aren't images", async () => {
+    const upcoming = await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Sam" });
+    const past = await storage.addSlot({ date: PAST, time: "0900", name: "Sam" });
+
+    await expect(addSlotPhoto(upcoming, Buffer.from("x"))).rejects.toMatchObject({ status: 409 });
+    await expect(addSlotPhoto(past, Buffer.from("not an image"))).rejects.toBeInstanceOf(PhotoError);
+    expect(await storage.getWalkPhotos(PAST, "0900")).toEqual([]);
+  });
+});
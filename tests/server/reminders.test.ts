@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run the slots and delivery log against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { deliveryLog, smsSubscriptions, walkingSlots, walkers } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { getDeliveryLog } from "../../server/notifications";
+import { createSmsChannel, SmsClient } from "../../server/twilio";
+import { setSmsSubscription } from "../../server/smsConsent";
+import { createFakeClock, createReminderScheduler } from "../../server/reminders";
+
+const PHONE = "+15550000001";
+const OTHER_PHONE = "+15550000002";
+
+// A Twilio client that records the texts instead of sending them
+function createStubSmsClient() {
+  const create = vi.fn(async (_options: { body: string; from: string; to: string }) => ({ sid: "SM123" }));
+  const client: SmsClient = { messages: { create } };
+  return { client, create };
+}
+
+// A scheduler reminding 60 minutes ahead, with the clock at 8:00 AM Eastern
+function createScheduler() {
+  const clock = createFakeClock(new Date("2030-06-03T12:00:00Z"));
+  const { client, create } = createStubSmsClient();
+  const channel = createSmsChannel({ client, from: "+15550009999" });
+  const scheduler = createReminderScheduler({ leadMinutes: 60, intervalMs: 60 * 1000, clock, channel });
+  return { clock, scheduler, create };
+}
+
+describe("walk reminders", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+    await db.delete(deliveryLog);
+    await db.delete(smsSubscriptions);
+  });
+
+  it("texts a walker once their walk is within the lead time, and only once", async () => {
+    await storage.addSlot({ date: "2030-06-03", time: "0930", name: "Sam", phone: PHONE });
+    const { clock, scheduler, create } = createScheduler();
+
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+
+    clock.advance(45 * 60 * 1000);
+    expect(await scheduler.runOnce()).toBe(1);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ to: PHONE, body: expect.stringContaining("9:30 AM") }));
+
+    // Later passes inside the window are stopped by the delivery log
+    clock.advance(10 * 60 * 1000);
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("only reminds walkers whose walk starts within the lead time", async () => {
+    await storage.addSlot({ date: "2030-06-03", time: "0800", name: "Sam", phone: PHONE });
+    await storage.addSlot({ date: "2030-06-03", time: "0930", name: "Alex", phone: OTHER_PHONE });
+    const { scheduler, create } = createScheduler();
+
+    // The 8:00 walk is starting now and the 9:30 walk is still too far off
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("doesn't remind a walker about a walk that was cancelled", async () => {
+    await storage.addSlot({ date: "2030-06-03", time: "0830", name: "Sam", phone: PHONE });
+    await storage.removeSlot("2030-06-03", "0830");
+    const { scheduler, create } = createScheduler();
+
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("withholds reminders from walkers who replied STOP, and records why", async () => {
+    await storage.addSlot({ date: "2030-06-03", time: "0830", name: "Sam", phone: PHONE });
+    await setSmsSubscription(PHONE, "unsubscribed", "sms_stop");
+    const { scheduler, create } = createScheduler();
+
+    expect(await scheduler.runOnce()).toBe(0);
+    expect(create).not.toHaveBeenCalled();
+
+    const [record] = await getDeliveryLog({ messageType: "reminder" });
+    expect(record).toMatchObject({ recipient: PHONE, suppressedReason: "unsubscribed" });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, recurringSeries, waitlist } from "@shared/schema";
+import { db } from "../../server/db";
+import {
+  IStorage,
+  MemStorage,
+  DatabaseStorage,
+  SlotConflictError,
+  storage,
+} from "../../server/storage";
+import { bookSlot, BookingError } from "../../server/bookings";
+import { bookSeries } from "../../server/recurring";
+import { joinWaitlist } from "../../server/waitlist";
+
+const PARALLEL_BOOKINGS = 10;
+
+// Fire the same booking from several walkers at once
+function bookInParallel(storage: IStorage) {
+  return Promise.allSettled(
+    Array.from({ length: PARALLEL_BOOKINGS }, (_, i) =>
+      storage.addSlot({ date: "2030-06-01", time: "0900", name: `Walker ${i}` }),
+    ),
+  );
+}
+
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage()],
+])("%s concurrent booking", (_name, createStorage) => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+  });
+
+  it("lets exactly one of several parallel bookings win", async () => {
+    const storage = createStorage();
+    const results = await bookInParallel(storage);
+
+    const booked = results.filter((result) => result.status === "fulfilled");
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    expect(booked).toHaveLength(1);
+    expect(rejected).toHaveLength(PARALLEL_BOOKINGS - 1);
+    for (const result of rejected) {
+      expect(result.reason).toBeInstanceOf(SlotConflictError);
+    }
+
+    // The stored slot belongs to the winner
+    const winner = (booked[0] as PromiseFulfilledResult<{ name: string }>).value;
+    const slot = await storage.getSlot("2030-06-01", "0900");
+    expect(slot?.name).toBe(winner.name);
+  });
+
+  it("still books different slots in parallel", async () => {
+    const storage = createStorage();
+    const results = await Promise.allSettled(
+      ["0800", "0830", "0900"].map((time) =>
+        storage.addSlot({ date: "2030-06-01", time, name: "Sam" }),
+      ),
+    );
+
+    expect(results.every((result) => result.status === "fulfilled")).toBe(true);
+  });
+});
+
+describe("bookSlot", () => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("reports the losers of a race as 409 conflicts", async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_BOOKINGS }, (_, i) =>
+        bookSlot({ date: "2030-06-02", time: "1000", name: `Walker ${i}` }),
+      ),
+    );
+
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+    expect(rejected).toHaveLength(PARALLEL_BOOKINGS - 1);
+    for (const result of rejected) {
+      expect(result.reason).toBeInstanceOf(BookingError);
+      expect(result.reason.status).toBe(409);
+    }
+  });
+
+  it("rejects a walk that overlaps a longer one", async () => {
+    await bookSlot({ date: "2030-06-03", time: "0900", name: "Sam", duration: 60 });
+
+    await expect(
+      bookSlot({ date: "2030-06-03", time: "0930", name: "Alex" }),
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("books back-to-back walks that only touch", async () => {
+    await bookSlot({ date: "2030-06-03", time: "0900", name: "Sam", duration: 60 });
+
+    const slot = await bookSlot({ date: "2030-06-03", time: "1000", name: "Alex" });
+    expect(slot.duration).toBe(30);
+  });
+});
+
+describe("bookSeries", () => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(recurringSeries);
+    await db.delete(waitlist);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // No Wednesday walks, and none on one Monday
+    process.env.AVAILABILITY = JSON.stringify({ weekdays: { "3": null }, blackoutDates: ["2030-06-10"] });
+  });
+
+  afterEach(() => {
+    delete process.env.AVAILABILITY;
+  });
+
+  it("reports every occurrence it didn't book, with the reason", async () => {
+    await bookSlot({ date: "2030-06-04", time: "0900", name: "Alex" });
+
+    const result = await bookSeries(
+      { name: "Sam", time: "0900", duration: 30, weekdays: [1, 2, 3], startDate: "2030-06-03", occurrences: 6 },
+      "sam",
+    );
+
+    expect(result?.booked.map((slot) => slot.date)).toEqual(["2030-06-03", "2030-06-11"]);
+    expect(result?.skipped).toEqual([
+      { date: "2030-06-04", reason: "Slot already booked" },
+      { date: "2030-06-05", reason: "Outside the walking window" },
+      { date: "2030-06-10", reason: "No walks that day" },
+      { date: "2030-06-12", reason: "Outside the walking window" },
+    ]);
+  });
+
+  it("takes the walker off the waitlist for the days it books", async () => {
+    await joinWaitlist({ date: "2030-06-11", name: "Sam", phone: "+15555550101" }, "sam");
+
+    await bookSeries(
+      { name: "Sam", phone: "+15555550101", time: "0900", duration: 30, weekdays: [2], startDate: "2030-06-11", occurrences: 1 },
+      "sam",
+    );
+
+    await vi.waitFor(async () => {
+      expect(await storage.getWaitlistBetween("2030-06-11", "2030-06-11")).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { registerRoutes } from "../../server/routes";
+import { issueWalkerToken, getOwnerId } from "../../server/auth";
+
+const MONDAY = "2030-06-03";
+
+describe("DELETE /api/slot", () => {
+  let server: Server;
+  let baseUrl: string;
+  const bookingToken = issueWalkerToken();
+
+  beforeAll(async () => {
+    process.env.OWNER_KEY = "owner-secret";
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    delete process.env.OWNER_KEY;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+    await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" }, { ownerId: getOwnerId(bookingToken) });
+  });
+
+  // Ask the API to cancel Monday's 9 AM walk
+  function cancel(credentials: { ownerToken?: string; ownerKey?: string }) {
+    return fetch(`${baseUrl}/api/slot`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ date: MONDAY, time: "0900", name: "Sam", ...credentials }),
+    });
+  }
+
+  it("turns away a missing or wrong walker token", async () => {
+    expect((await cancel({})).status).toBe(403);
+    expect((await cancel({ ownerToken: issueWalkerToken() })).status).toBe(403);
+    expect((await cancel({ ownerKey: "wrong-key" })).status).toBe(403);
+    expect(await storage.getSlot(MONDAY, "0900")).not.toBeNull();
+  });
+
+  it("lets the browser that booked the walk cancel it", async () => {
+    const res = await cancel({ ownerToken: bookingToken });
+    expect(res.status).toBe(200);
+    expect(await storage.getSlot(MONDAY, "0900")).toBeNull();
+  });
+
+  it("lets an owner cancel any walk", async () => {
+    const res = await cancel({ ownerKey: "owner-secret" });
+    expect(res.status).toBe(200);
+    expect(await storage.getSlot(MONDAY, "0900")).toBeNull();
+  });
+});
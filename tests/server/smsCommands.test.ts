@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Request, Response } from "express";
+import twilio from "twilio";
+
+// Run the slots and walkers against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkers, deliveryLog } from "@shared/schema";
+import { getSlotTimes } from "@shared/availability";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { getAvailability } from "../../server/availability";
+import { handleSmsCommand, parseSmsCommand } from "../../server/smsCommands";
+import { requireTwilioSignature, issueWalkerToken, getOwnerId } from "../../server/auth";
+import { startPhoneConfirmation } from "../../server/phoneVerification";
+import { getChannel, createConsoleChannel } from "../../server/notifications";
+
+// A Monday
+const TODAY = "2030-06-03";
+const PHONE = "+15550000001";
+
+describe("SMS command parsing", () => {
+  it("reads days and times in the forms walkers text them", () => {
+    expect(parseSmsCommand("BOOK tue 7:30pm", TODAY)).toEqual({ type: "book", date: "2030-06-04", time: "1930" });
+    expect(parseSmsCommand("book tomorrow 9 am", TODAY)).toEqual({ type: "book", date: "2030-06-04", time: "0900" });
+    expect(parseSmsCommand("cancel mon 5", TODAY)).toEqual({ type: "cancel", date: TODAY, time: "1700" });
+    expect(parseSmsCommand("Open", TODAY)).toEqual({ type: "open", date: TODAY });
+    expect(parseSmsCommand("my walks", TODAY)).toEqual({ type: "my_walks" });
+    expect(parseSmsCommand("?", TODAY)).toEqual({ type: "help" });
+  });
+
+  it("explains what it couldn't read", () => {
+    expect(parseSmsCommand("book someday 9am", TODAY)).toMatchObject({ type: "invalid", message: expect.stringContaining("someday") });
+    expect(parseSmsCommand("book tue 25:00", TODAY)).toMatchObject({ type: "invalid", message: expect.stringContaining("25:00") });
+    expect(parseSmsCommand("book tue", TODAY)).toMatchObject({ type: "invalid" });
+    expect(parseSmsCommand("hello", TODAY)).toMatchObject({ type: "invalid" });
+  });
+});
+
+describe("SMS booking", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+  });
+
+  it("books for the texting walker without handing the walk to any browser", async () => {
+    const [first, second] = getSlotTimes(getAvailability(), TODAY);
+    await storage.addSlot({ date: "2020-06-01", time: first, name: "Sam", phone: PHONE }, { ownerId: "sam-owner" });
+    const sam = await storage.updateWalker("Sam", PHONE);
+    await storage.verifyWalkerPhone(sam.id, PHONE);
+
+    expect(await handleSmsCommand(PHONE, `BOOK ${TODAY} ${second}`)).toMatch(/^Booked/);
+    const [slot] = await storage.getSlotsBetween(TODAY, TODAY);
+    expect(slot).toMatchObject({ time: second, name: "Sam" });
+    expect(slot.ownerId).toBeUndefined();
+
+    // The walker can still cancel it by text
+    expect(await handleSmsCommand(PHONE, `CANCEL ${TODAY} ${second}`)).toMatch(/^Canceled/);
+    expect(await storage.getSlot(TODAY, second)).toBeNull();
+  });
+
+  it("turns away a time earlier today", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // 3:00 PM Eastern
+    vi.setSystemTime(new Date(`${TODAY}T19:00:00Z`));
+    try {
+      const sam = await storage.updateWalker("Sam", PHONE);
+      await storage.verifyWalkerPhone(sam.id, PHONE);
+
+      expect(await handleSmsCommand(PHONE, "BOOK today 7am")).toMatch(/has already passed/);
+      expect(await storage.getSlotsBetween(TODAY, TODAY)).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("SMS sender identity", () => {
+  const token = issueWalkerToken();
+
+  beforeEach(async () => {
+    process.env.NOTIFY_TEST_MODE = "true";
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+    await db.delete(deliveryLog);
+  });
+
+  afterEach(() => {
+    delete process.env.NOTIFY_TEST_MODE;
+  });
+
+  // The code most recently texted to a number
+  function lastCodeSentTo(phone: string): string | undefined {
+    const sent = (getChannel("sms") as ReturnType<typeof createConsoleChannel>).sent
+      .filter((message) => message.to === phone);
+    return sent[sent.length - 1]?.message.body.match(/\d{6}/)?.[0];
+  }
+
+  it("ignores numbers typed into the website until they text back their code", async () => {
+    const [time] = getSlotTimes(getAvailability(), "2030-06-04");
+    await storage.addSlot({ date: "2030-06-04", time, name: "Sam" });
+    await storage.updateWalker("Sam", PHONE);
+
+    expect(await handleSmsCommand(PHONE, "YES")).not.toMatch(/^Thanks/);
+    expect(await handleSmsCommand(PHONE, `CANCEL 2030-06-04 ${time}`)).toMatch(/don't recognize/);
+    expect(await storage.getSlot("2030-06-04", time)).not.toBeNull();
+  });
+
+  it("texts a code to the number given with a booking and trusts it once it comes back", async () => {
+    const slot = await storage.addSlot(
+      { date: "2030-06-04", time: "0900", name: "Sam", phone: PHONE },
+      { ownerId: getOwnerId(token) },
+    );
+
+    // Only the browser that booked the walk can have a code sent
+    expect(await startPhoneConfirmation(slot, issueWalkerToken())).toBe(false);
+    expect(await startPhoneConfirmation(slot, token)).toBe(true);
+    const code = lastCodeSentTo(PHONE)!;
+
+    // The code only works from the number it was sent to
+    expect(await handleSmsCommand("+15550000009", code)).toMatch(/doesn't match/);
+    expect(await handleSmsCommand(PHONE, code === "000000" ? "000001" : "000000")).toMatch(/doesn't match/);
+    expect(await handleSmsCommand(PHONE, code)).toMatch(/^Thanks Sam/);
+    expect(await storage.findWalker("Sam")).toMatchObject({ phone: PHONE, phoneVerified: true });
+    expect(await handleSmsCommand(PHONE, "MY WALKS")).not.toMatch(/don't recognize/);
+  });
+});
+
+describe("Twilio webhook signatures", () => {
+  const url = "https://walks.example/api/sms";
+  const body = { From: PHONE, Body: "MY WALKS" };
+
+  beforeEach(() => {
+    process.env.TWILIO_TOKEN = "test-token";
+    process.env.PUBLIC_BASE_URL = "https://walks.example/";
+  });
+
+  afterEach(() => {
+    delete process.env.TWILIO_TOKEN;
+    delete process.env.PUBLIC_BASE_URL;
+  });
+
+  // Run the middleware on a request with the given signature header
+  function check(signature: string | undefined) {
+    const req = {
+      originalUrl: "/api/sms",
+      body,
+      get: (header: string) => (header.toLowerCase() === "x-twilio-signature" ? signature : undefined),
+    } as unknown as Request;
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+    const next = vi.fn();
+    requireTwilioSignature(req, res as unknown as Response, next);
+    return { res, next };
+  }
+
+  it("lets through requests Twilio signed for the public URL", () => {
+    const { next } = check(twilio.getExpectedTwilioSignature("test-token", url, body));
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("turns away missing and forged signatures", () => {
+    for (const signature of [undefined, twilio.getExpectedTwilioSignature("wrong-token", url, body)]) {
+      const { res, next } = check(signature);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    }
+  });
+});
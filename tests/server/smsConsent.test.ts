@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run the delivery log and subscriptions against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { deliveryLog, smsSubscriptions } from "@shared/schema";
+import { db } from "../../server/db";
+import { createConsoleChannel, deliver, getDeliveryLog } from "../../server/notifications";
+import { handleSmsCommand, parseSmsCommand } from "../../server/smsCommands";
+
+const PHONE = "+15550000001";
+
+const message = {
+  messageType: "reminder",
+  subject: "Walk reminder",
+  body: "Reminder: you're walking Finn tomorrow",
+};
+
+describe("SMS opt-out", () => {
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.delete(deliveryLog);
+    await db.delete(smsSubscriptions);
+  });
+
+  it("treats a bare CANCEL as STOP but still cancels walks with a day and time", () => {
+    expect(parseSmsCommand("Cancel", "2030-06-03")).toEqual({ type: "stop" });
+    expect(parseSmsCommand("cancel sat 9am", "2030-06-03")).toMatchObject({ type: "cancel" });
+  });
+
+  it("suppresses texts after STOP and records why", async () => {
+    const channel = createConsoleChannel("sms");
+    await handleSmsCommand("(555) 000-0001", "STOP");
+
+    expect(await deliver(channel, PHONE, message)).toBe(false);
+    expect(channel.sent).toHaveLength(0);
+
+    const [record] = await getDeliveryLog({ recipient: PHONE });
+    expect(record.suppressedReason).toBe("unsubscribed");
+  });
+
+  it("sends again after START, even the message that was suppressed", async () => {
+    const channel = createConsoleChannel("sms");
+    await handleSmsCommand(PHONE, "stop");
+    await deliver(channel, PHONE, message);
+    await handleSmsCommand(PHONE, "START");
+
+    expect(await deliver(channel, PHONE, message)).toBe(true);
+    expect(channel.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import {
+  walkingSlots,
+  walkPhotos,
+  walkers,
+  careInstructionVersions,
+  recurringSeries,
+  DEFAULT_WALK_MINUTES,
+} from "@shared/schema";
+import { db } from "../../server/db";
+import {
+  IStorage,
+  MemStorage,
+  ReplitStorage,
+  DatabaseStorage,
+  SlotConflictError,
+} from "../../server/storage";
+import { createFakeReplitDb } from "../helpers/fakeReplitDb";
+
+const MONDAY = "2030-06-03";
+
+// The same behavior is expected of every backend
+describe.each<[string, () => Promise<IStorage>]>([
+  ["MemStorage", async () => new MemStorage()],
+  ["ReplitStorage", async () => new ReplitStorage(createFakeReplitDb())],
+  ["DatabaseStorage", async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkPhotos);
+    await db.delete(walkers);
+    await db.delete(careInstructionVersions);
+    await db.delete(recurringSeries);
+    return new DatabaseStorage();
+  }],
+])("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  describe("booking", () => {
+    it("books a slot for a walker, with a timestamp in seconds", async () => {
+      const before = Math.floor(Date.now() / 1000);
+      const slot = await storage.addSlot({
+        date: MONDAY,
+        time: "0900",
+        name: " sam  smith ",
+        phone: "+15550000001",
+        notes: "Leash is by the door",
+      });
+      const after = Math.floor(Date.now() / 1000);
+
+      expect(slot).toMatchObject({
+        date: MONDAY,
+        time: "0900",
+        name: "Sam Smith",
+        walkerId: expect.any(Number),
+        phone: "+15550000001",
+        notes: "Leash is by the door",
+        duration: DEFAULT_WALK_MINUTES,
+      });
+      expect(slot.timestamp).toBeGreaterThanOrEqual(before);
+      expect(slot.timestamp).toBeLessThanOrEqual(after);
+
+      // Single slots leave the phone out; ranges keep it for notifications
+      const { phone, ...publicSlot } = slot;
+      expect(await storage.getSlot(MONDAY, "0900")).toEqual(publicSlot);
+      expect(await storage.getSlotsBetween(MONDAY, MONDAY)).toEqual([slot]);
+    });
+
+    it("turns away a second booking of the same slot, even at the same time", async () => {
+      await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" });
+      await expect(storage.addSlot({ date: MONDAY, time: "0900", name: "Alex" }))
+        .rejects.toBeInstanceOf(SlotConflictError);
+
+      const results = await Promise.allSettled(
+        ["Jo", "Kim", "Lee"].map((name) => storage.addSlot({ date: MONDAY, time: "1700", name })),
+      );
+      expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    });
+
+    it("removes a slot once", async () => {
+      await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" });
+
+      expect(await storage.removeSlot(MONDAY, "0900")).toBe(true);
+      expect(await storage.removeSlot(MONDAY, "0900")).toBe(false);
+      expect(await storage.getSlot(MONDAY, "0900")).toBeNull();
+    });
+  });
+
+  describe("cover requests", () => {
+    it("returns the whole slot, walker included, when cover is asked for and taken", async () => {
+      const booked = await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam", phone: "+15550000001" }, { ownerId: "sam-owner" });
+
+      const requested = await storage.setCoverRequest(MONDAY, "0900", true);
+      expect(requested).toMatchObject({
+        name: "Sam",
+        walkerId: booked.walkerId,
+        phone: "+15550000001",
+        ownerId: "sam-owner",
+        timestamp: booked.timestamp,
+        coverRequestedAt: expect.any(Number),
+      });
+
+      const claimed = await storage.claimSlot(MONDAY, "0900", "alex", "+15550000002", "alex-owner");
+      expect(claimed).toMatchObject({
+        name: "Alex",
+        walkerId: expect.any(Number),
+        phone: "+15550000002",
+        ownerId: "alex-owner",
+        timestamp: booked.timestamp,
+      });
+      expect(claimed!.walkerId).not.toBe(booked.walkerId);
+      expect(claimed!.coverRequestedAt).toBeUndefined();
+      expect(await storage.claimSlot(MONDAY, "0900", "Jo", undefined, "jo-owner")).toBeNull();
+    });
+  });
+
+  describe("series", () => {
+    it("leaves a walk reassigned to someone else when the series ends", async () => {
+      const series = await storage.addSeries(
+        { name: "Sam", time: "0900", duration: 30, weekdays: [1], startDate: MONDAY, occurrences: 2 },
+        "sam-owner",
+      );
+      const options = { ownerId: "sam-owner", seriesId: series.id };
+      const first = await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" }, options);
+      await storage.addSlot({ date: "2030-06-10", time: "0900", name: "Sam" }, options);
+      await storage.setCoverRequest("2030-06-10", "0900", true);
+
+      const reassigned = await storage.reassignSlot("2030-06-10", "0900", "Alex");
+      expect(reassigned?.seriesId).toBeUndefined();
+      expect(reassigned?.coverRequestedAt).toBeUndefined();
+
+      const removed = await storage.endSeries(series.id, MONDAY, "0000");
+      expect(removed.map((slot) => slot.date)).toEqual([MONDAY]);
+      // Live updates need the walker to take the walk off leaderboards
+      expect(removed[0]).toMatchObject({ walkerId: first.walkerId, ownerId: "sam-owner", seriesId: series.id });
+      expect(await storage.getSlot("2030-06-10", "0900")).toMatchObject({ name: "Alex" });
+    });
+
+    it("keeps walks that started or were checked in when a series ends during the day", async () => {
+      const book = async (time: string, dates: string[]) => {
+        const series = await storage.addSeries(
+          { name: "Sam", time, duration: 30, weekdays: [1], startDate: MONDAY, occurrences: dates.length },
+          "sam-owner",
+        );
+        for (const date of dates) {
+          await storage.addSlot({ date, time: time, name: "Sam" }, { ownerId: "sam-owner", seriesId: series.id });
+        }
+        return series;
+      };
+      const morning = await book("0900", [MONDAY, "2030-06-10"]);
+      const evening = await book("1700", [MONDAY, "2030-06-10"]);
+      await storage.checkInSlot(MONDAY, "1700", 1000);
+
+      // At 8 AM the morning walk hasn't started, so it goes
+      expect((await storage.endSeries(morning.id, MONDAY, "0800")).map((slot) => slot.date))
+        .toEqual([MONDAY, "2030-06-10"]);
+      // An early check-in keeps the evening walk even before its start time
+      expect((await storage.endSeries(evening.id, MONDAY, "0800")).map((slot) => slot.date))
+        .toEqual(["2030-06-10"]);
+      expect(await storage.getSlot(MONDAY, "1700")).toMatchObject({ checkedInAt: 1000 });
+    });
+
+    it("keeps today's walk once its start time has passed", async () => {
+      const series = await storage.addSeries(
+        { name: "Sam", time: "0900", duration: 30, weekdays: [1], startDate: MONDAY, occurrences: 2 },
+        "sam-owner",
+      );
+      const options = { ownerId: "sam-owner", seriesId: series.id };
+      await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" }, options);
+      await storage.addSlot({ date: "2030-06-10", time: "0900", name: "Sam" }, options);
+
+      const removed = await storage.endSeries(series.id, MONDAY, "0900");
+      expect(removed.map((slot) => slot.date)).toEqual(["2030-06-10"]);
+      expect(await storage.getSlot(MONDAY, "0900")).not.toBeNull();
+    });
+  });
+
+  describe("schedule windows", () => {
+    beforeEach(async () => {
+      for (const [date, time] of [
+        ["2030-06-02", "0900"],
+        [MONDAY, "1700"],
+        [MONDAY, "0900"],
+        ["2030-06-09", "0900"],
+        ["2030-06-10", "0900"],
+      ]) {
+        await storage.addSlot({ date, time, name: "Sam", phone: "+15550000001" });
+      }
+    });
+
+    it("shows seven days from the start date, each in time order, without phones", async () => {
+      const schedule = await storage.getSchedule(MONDAY);
+
+      expect(Object.keys(schedule).sort()).toEqual([
+        "2030-06-03", "2030-06-04", "2030-06-05", "2030-06-06",
+        "2030-06-07", "2030-06-08", "2030-06-09",
+      ]);
+      expect(schedule[MONDAY].map((slot) => slot.time)).toEqual(["0900", "1700"]);
+      expect(schedule["2030-06-09"]).toHaveLength(1);
+      expect(Object.values(schedule).flat().some((slot) => slot.phone)).toBe(false);
+    });
+
+    it("lists slots in an inclusive date range in date and time order", async () => {
+      const slots = await storage.getSlotsBetween(MONDAY, "2030-06-09");
+
+      expect(slots.map((slot) => `${slot.date} ${slot.time}`)).toEqual([
+        "2030-06-03 0900", "2030-06-03 1700", "2030-06-09 0900",
+      ]);
+    });
+  });
+
+  describe("leaderboards", () => {
+    beforeEach(async () => {
+      await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" });
+      await storage.addSlot({ date: MONDAY, time: "1700", name: "sam" });
+      await storage.addSlot({ date: "2030-06-04", time: "0900", name: "Alex" });
+      await storage.addSlot({ date: "2030-06-20", time: "0900", name: "Alex" });
+      await storage.addSlot({ date: "2030-06-21", time: "0900", name: "Alex" });
+    });
+
+    it("ranks walkers by all their walks", async () => {
+      const sam = await storage.findWalker("Sam");
+      const alex = await storage.findWalker("Alex");
+
+      expect(await storage.getLeaderboardAllTime()).toEqual([
+        { walkerId: alex!.id, name: "Alex", totalWalks: 3, colorIndex: alex!.colorIndex },
+        { walkerId: sam!.id, name: "Sam", totalWalks: 2, colorIndex: sam!.colorIndex },
+      ]);
+    });
+
+    it("counts the week from the start date, or only finished walks", async () => {
+      expect(await storage.getLeaderboardNextWeek(MONDAY)).toEqual([
+        expect.objectContaining({ name: "Sam", totalWalks: 2 }),
+        expect.objectContaining({ name: "Alex", totalWalks: 1 }),
+      ]);
+
+      await storage.checkInSlot("2030-06-04", "0900", 100);
+      await storage.checkOutSlot("2030-06-04", "0900", 200);
+      expect(await storage.getLeaderboardNextWeek(MONDAY, true)).toEqual([
+        expect.objectContaining({ name: "Alex", totalWalks: 1 }),
+      ]);
+      expect(await storage.getLeaderboardAllTime(true)).toHaveLength(1);
+    });
+  });
+
+  describe("walkers", () => {
+    it("gives each new walker the lowest free color, once", async () => {
+      expect(await storage.getWalkerColorIndex("Sam")).toBe(0);
+      expect(await storage.getWalkerColorIndex("Alex")).toBe(1);
+      expect(await storage.getWalkerColorIndex("sam")).toBe(0);
+
+      const sam = await storage.findWalker("Sam");
+      await storage.updateWalkerDetails(sam!.id, { colorIndex: 5 });
+      expect(await storage.getWalkerColorIndex("Jo")).toBe(0);
+    });
+
+    it("keeps phone numbers, and only fills in a missing one", async () => {
+      const walker = await storage.updateWalker("Sam", "+15550000001");
+      expect(walker).toMatchObject({ name: "Sam", colorIndex: 0, phone: "+15550000001", phoneVerified: false });
+
+      expect(await storage.updateWalker("sam")).toMatchObject({ id: walker.id, phone: "+15550000001" });
+      expect(await storage.updateWalker("sam", "+15550000002")).toMatchObject({ id: walker.id, phone: "+15550000001" });
+      expect(await storage.getWalker(walker.id)).toMatchObject({ phone: "+15550000001" });
+      expect(await storage.getAllWalkers()).toEqual([
+        expect.objectContaining({ id: walker.id, name: "Sam", phone: "+15550000001" }),
+      ]);
+    });
+
+    it("trusts a phone number only once it's verified, until it changes", async () => {
+      const walker = await storage.updateWalker("Sam", "+15550000001");
+
+      expect(await storage.verifyWalkerPhone(walker.id, "+15550000002"))
+        .toMatchObject({ phone: "+15550000002", phoneVerified: true });
+      expect(await storage.updateWalkerDetails(walker.id, { colorIndex: 4, phone: "+15550000002" }))
+        .toMatchObject({ phone: "+15550000002", phoneVerified: true });
+      expect(await storage.updateWalkerDetails(walker.id, { phone: "+15550000003" }))
+        .toMatchObject({ phone: "+15550000003", phoneVerified: false });
+      expect(await storage.verifyWalkerPhone(9999, "+15550000002")).toBeNull();
+    });
+
+    it("renames a walker along with their walks, and clears phones", async () => {
+      const slot = await storage.addSlot({ date: MONDAY, time: "0900", name: "Sam" });
+      await storage.updateWalker("Sam", "+15550000001");
+
+      const renamed = await storage.updateWalkerDetails(slot.walkerId!, {
+        name: "samantha",
+        phone: "",
+        broadcastOptOut: true,
+      });
+
+      expect(renamed).toMatchObject({ id: slot.walkerId, name: "Samantha", colorIndex: 0, broadcastOptOut: true });
+      expect(renamed!.phone).toBeUndefined();
+      expect(await storage.findWalker("Sam")).toBeNull();
+      expect(await storage.getSlot(MONDAY, "0900")).toMatchObject({ name: "Samantha", walkerId: slot.walkerId });
+      expect(await storage.updateWalkerDetails(9999, { name: "Nobody" })).toBeNull();
+    });
+
+    it("searches walkers by part of their name", async () => {
+      await storage.updateWalker("Sam Smith");
+      await storage.updateWalker("Alex Samson");
+      await storage.updateWalker("Jo");
+
+      const found = await storage.searchWalkers("SAM");
+      expect(found.map((walker) => walker.name).sort()).toEqual(["Alex Samson", "Sam Smith"]);
+      expect(await storage.searchWalkers("")).toHaveLength(3);
+    });
+  });
+
+  describe("care instructions", () => {
+    it("numbers each saved version and keeps the earlier ones", async () => {
+      expect(await storage.getCareInstructions()).toBeNull();
+
+      await storage.addCareInstructions([{ title: "Walking", body: "Twice a day" }], 1900000000, 0);
+      const latest = await storage.addCareInstructions([{ title: "Feeding", body: "**One** cup" }], 1900000100, 1);
+
+      expect(latest).toEqual({ version: 2, sections: [{ title: "Feeding", body: "**One** cup" }], updatedAt: 1900000100 });
+      expect(await storage.getCareInstructions()).toEqual(latest);
+      expect((await storage.getCareInstructionsHistory()).map(({ version }) => version)).toEqual([2, 1]);
+    });
+
+    it("saves only one of two edits of the same version, even at the same time", async () => {
+      const results = await Promise.all(["Sam", "Alex"].map((name) =>
+        storage.addCareInstructions([{ title: "Walking", body: `Edited by ${name}` }], 1900000000, 0),
+      ));
+
+      expect(results.filter((saved) => saved !== null)).toHaveLength(1);
+      expect(await storage.addCareInstructions([{ title: "Walking", body: "Stale" }], 1900000100, 0)).toBeNull();
+      expect(await storage.addCareInstructions([{ title: "Walking", body: "Ahead" }], 1900000100, 5)).toBeNull();
+      expect(await storage.getCareInstructionsHistory()).toHaveLength(1);
+    });
+  });
+});
+
+// Slots saved before timestamps were in seconds read back like new ones
+describe("ReplitStorage legacy slots", () => {
+  it("converts millisecond booking timestamps to seconds", async () => {
+    const client = createFakeReplitDb();
+    await client.set(`slots:${MONDAY}:0900`, { name: "Sam", notes: "", timestamp: 1900000000123 });
+    const storage = new ReplitStorage(client);
+
+    expect(await storage.getSlot(MONDAY, "0900")).toMatchObject({ timestamp: 1900000000 });
+    expect(await storage.getSlotsBetween(MONDAY, MONDAY)).toEqual([
+      expect.objectContaining({ name: "Sam", timestamp: 1900000000 }),
+    ]);
+    expect(await storage.checkInSlot(MONDAY, "0900", 1900003600))
+      .toMatchObject({ timestamp: 1900000000, checkedInAt: 1900003600 });
+  });
+});
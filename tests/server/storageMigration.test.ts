@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkers } from "@shared/schema";
+import { db } from "../../server/db";
+import { ReplitStorage, DatabaseStorage } from "../../server/storage";
+import { copyStorage } from "../../server/storageMigration";
+import { createFakeReplitDb } from "../helpers/fakeReplitDb";
+
+describe("copyStorage from Replit DB to Postgres", () => {
+  let replit: ReplitStorage;
+  const postgres = new DatabaseStorage();
+
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+
+    // Keys as the old Replit backend wrote them, with millisecond timestamps
+    const client = createFakeReplitDb();
+    await client.set("walker:Sam", { colorIndex: 3, phone: "+15550000001" });
+    await client.set("walker:Alex", { colorIndex: 7 });
+    await client.set("slots:2030-06-03:0900", { name: "Sam", notes: "", timestamp: 1700000000000, duration: 30 });
+    await client.set("slots:2030-06-03:1700", { name: "Alex", notes: "Rain", timestamp: 1700000100, duration: 60 });
+    await client.set("slots:2030-06-04:0900", { name: "Alex", timestamp: 1700000200 });
+    replit = new ReplitStorage(client);
+  });
+
+  it("copies walkers and slots, keeping colors and booking times", async () => {
+    expect(await copyStorage(replit, postgres, true)).toMatchObject({ walkersCopied: 2, slotsCopied: 3 });
+    expect(await postgres.getAllWalkers()).toEqual([]);
+
+    const report = await copyStorage(replit, postgres);
+
+    expect(report).toEqual({ walkersCopied: 2, slotsCopied: 3, walkersSkipped: 0, slotsSkipped: 0, conflicts: [] });
+    expect(await postgres.findWalker("Sam")).toMatchObject({ colorIndex: 3, phone: "+15550000001" });
+    expect(await postgres.findWalker("Alex")).toMatchObject({ colorIndex: 7 });
+    expect(await postgres.getSlotsBetween("2030-06-03", "2030-06-03")).toEqual([
+      expect.objectContaining({ time: "0900", name: "Sam", timestamp: 1700000000 }),
+      expect.objectContaining({ time: "1700", name: "Alex", notes: "Rain", duration: 60, timestamp: 1700000100 }),
+    ]);
+
+    // A second run finds everything already copied
+    expect(await copyStorage(replit, postgres))
+      .toEqual({ walkersCopied: 0, slotsCopied: 0, walkersSkipped: 2, slotsSkipped: 3, conflicts: [] });
+  });
+
+  it("reports slots booked by someone else in the target and leaves them", async () => {
+    await postgres.addSlot({ date: "2030-06-04", time: "0900", name: "Jo" });
+
+    const report = await copyStorage(replit, postgres);
+
+    expect(report.slotsCopied).toBe(2);
+    expect(report.conflicts).toEqual(["2030-06-04 0900 is booked by Jo, not Alex"]);
+    expect(await postgres.getSlot("2030-06-04", "0900")).toMatchObject({ name: "Jo" });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, waitlist, WAITLIST_HOLD_MINUTES } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { reserveSlot, BookingError } from "../../server/bookings";
+import { joinWaitlist, offerFreedWalk, expireWaitlistHolds, removeBookedFromWaitlist } from "../../server/waitlist";
+
+describe("waitlist", () => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(waitlist);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("holds a freed walk for the first walker whose window suits it", async () => {
+    await joinWaitlist({ date: "2030-06-03", startTime: "1700", name: "Sam", phone: "+15555550101" }, "sam");
+    await joinWaitlist({ date: "2030-06-03", name: "Alex", phone: "+15555550102" }, "alex");
+    await joinWaitlist({ date: "2030-06-03", name: "Jo", phone: "+15555550103" }, "jo");
+
+    // Sam only wants evening walks, so the morning walk goes to Alex
+    const held = await offerFreedWalk("2030-06-03", "0900");
+    expect(held).toMatchObject({ name: "Alex", heldTime: "0900" });
+
+    // Nobody else can book over the hold, but Alex can
+    await expect(
+      reserveSlot({ date: "2030-06-03", time: "0900", name: "Jo" }, { ownerId: "jo" }),
+    ).rejects.toBeInstanceOf(BookingError);
+    await expect(
+      reserveSlot({ date: "2030-06-03", time: "0900", name: "Alex" }, { ownerId: "alex" }),
+    ).resolves.toMatchObject({ name: "Alex" });
+  });
+
+  it("passes a lapsed hold on to the next walker in line", async () => {
+    await joinWaitlist({ date: "2030-06-04", name: "Alex", phone: "+15555550102" }, "alex");
+    await joinWaitlist({ date: "2030-06-04", name: "Jo", phone: "+15555550103" }, "jo");
+    await offerFreedWalk("2030-06-04", "0900");
+
+    const later = new Date(Date.now() + (WAITLIST_HOLD_MINUTES + 1) * 60 * 1000);
+    expect(await expireWaitlistHolds(later)).toBe(1);
+
+    const entries = await storage.getWaitlistBetween("2030-06-04", "2030-06-04");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ name: "Jo", heldTime: "0900" });
+  });
+
+  it("passes a hold on when its walker books a different time", async () => {
+    await joinWaitlist({ date: "2030-06-05", name: "Alex", phone: "+15555550102" }, "alex");
+    await joinWaitlist({ date: "2030-06-05", name: "Jo", phone: "+15555550103" }, "jo");
+    await offerFreedWalk("2030-06-05", "0900");
+
+    const slot = await reserveSlot({ date: "2030-06-05", time: "1700", name: "Alex" }, { ownerId: "alex" });
+    await removeBookedFromWaitlist(slot);
+
+    const entries = await storage.getWaitlistBetween("2030-06-05", "2030-06-05");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ name: "Jo", heldTime: "0900" });
+  });
+});
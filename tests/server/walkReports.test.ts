@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { eq } from "drizzle-orm";
+import { walkingSlots, walkReports, deliveryLog } from "@shared/schema";
+import { db } from "../../server/db";
+import { storage } from "../../server/storage";
+import { submitWalkReport, BookingError } from "../../server/bookings";
+import { sendDailyDigest } from "../../server/digest";
+
+const PAST = "2020-06-03";
+
+describe("walk reports", () => {
+  beforeEach(async () => {
+    process.env.NOTIFY_TEST_MODE = "true";
+    process.env.ALERT_TO = "+15550009999";
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await db.delete(walkingSlots);
+    await db.delete(walkReports);
+    await db.delete(deliveryLog);
+  });
+
+  it("only takes reports once a walk is over, replacing earlier ones", async () => {
+    const upcoming = await storage.addSlot({ date: "2030-06-03", time: "0900", name: "Sam" });
+    await expect(
+      submitWalkReport(upcoming, { peed: true, pooped: false, energy: "normal" }),
+    ).rejects.toBeInstanceOf(BookingError);
+
+    const past = await storage.addSlot({ date: PAST, time: "0900", name: "Sam" });
+    await submitWalkReport(past, { peed: true, pooped: false, energy: "normal" });
+    await submitWalkReport(past, { peed: true, pooped: true, energy: "high", distanceMiles: 1.5 });
+
+    const reports = await storage.getWalkReportsBetween(PAST, PAST);
+    expect(reports).toEqual([
+      expect.objectContaining({ name: "Sam", pooped: true, energy: "high", distanceMiles: 1.5 }),
+    ]);
+  });
+
+  it("texts the owners a digest of the day's walks", async () => {
+    const morning = await storage.addSlot({ date: PAST, time: "0900", name: "Sam" });
+    await storage.addSlot({ date: PAST, time: "1700", name: "Alex" });
+    await submitWalkReport(morning, {
+      peed: true,
+      pooped: true,
+      energy: "high",
+      route: "park loop",
+      distanceMiles: 1.2,
+      incidents: "Barked at a bike",
+    });
+
+    expect(await sendDailyDigest(PAST)).toBe(true);
+
+    const [sent] = await db.select().from(deliveryLog)
+      .where(eq(deliveryLog.messageType, "daily_digest"));
+    expect(sent.messageContent).toContain(
+      "9:00 AM Sam: pee & poop, high energy, 1.2 mi (park loop). Incident: Barked at a bike",
+    );
+    expect(sent.messageContent).toContain("5:00 PM Alex: no report");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// Run DatabaseStorage against an in-process Postgres instead of Neon
+vi.mock("../../server/db", async () => {
+  const { createTestDb } = await import("../helpers/testDb");
+  return { db: await createTestDb(), pool: null };
+});
+
+import { walkingSlots, walkers, walkerColors } from "@shared/schema";
+import { db } from "../../server/db";
+import { DatabaseStorage } from "../../server/storage";
+import { mergeWalkersByName } from "../../server/walkerMigration";
+
+describe("mergeWalkersByName", () => {
+  beforeEach(async () => {
+    await db.delete(walkingSlots);
+    await db.delete(walkers);
+    await db.delete(walkerColors);
+  });
+
+  it("merges spellings of a name into one walker and links their slots", async () => {
+    await db.insert(walkerColors).values([
+      { name: "sam smith", colorIndex: 4, phone: "+15550000001" },
+      { name: "Sam Smith", colorIndex: 2, broadcastOptOut: true },
+    ]);
+    await db.insert(walkingSlots).values([
+      { date: "2030-06-03", time: "0900", name: "sam smith", timestamp: 0 },
+      { date: "2030-06-04", time: "0900", name: "Sam Smith", timestamp: 0 },
+      { date: "2030-06-05", time: "0900", name: "jo", timestamp: 0 },
+    ]);
+
+    const report = await mergeWalkersByName();
+
+    expect(report).toMatchObject({ walkersCreated: 2, slotsLinked: 3 });
+    const storage = new DatabaseStorage();
+    const sam = await storage.findWalker("SAM SMITH");
+    expect(sam).toMatchObject({ name: "Sam Smith", colorIndex: 2, phone: "+15550000001", broadcastOptOut: true });
+    expect(await storage.getLeaderboardAllTime()).toEqual([
+      { walkerId: sam!.id, name: "Sam Smith", totalWalks: 2, colorIndex: 2 },
+      expect.objectContaining({ name: "Jo", totalWalks: 1 }),
+    ]);
+
+    // Running again changes nothing
+    expect(await mergeWalkersByName()).toMatchObject({ walkersCreated: 0, slotsLinked: 0 });
+  });
+
+  it("keeps a renamed walker's history", async () => {
+    const storage = new DatabaseStorage();
+    const slot = await storage.addSlot({ date: "2030-06-03", time: "0900", name: "sam" });
+
+    await storage.updateWalkerDetails(slot.walkerId!, { name: "samantha jones" });
+
+    expect(await storage.getSlot("2030-06-03", "0900"))
+      .toMatchObject({ name: "Samantha Jones", walkerId: slot.walkerId });
+    expect(await storage.getLeaderboardAllTime()).toEqual([
+      expect.objectContaining({ walkerId: slot.walkerId, name: "Samantha Jones", totalWalks: 1 }),
+    ]);
+  });
+});
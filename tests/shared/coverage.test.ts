@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { WalkingSlot } from "@shared/schema";
+import { resolveAvailability, availabilityConfigSchema } from "@shared/availability";
+import { findCoverageGaps, DEFAULT_COVERAGE_RULES } from "@shared/coverage";
+
+const availability = resolveAvailability(availabilityConfigSchema.parse({
+  blackoutDates: ["2030-06-04"],
+}));
+
+function walk(date: string, time: string, duration = 30): WalkingSlot {
+  return { date, time, duration, name: "Sam", notes: "", timestamp: 0 };
+}
+
+describe("findCoverageGaps", () => {
+  it("flags the evening when only the morning is booked", () => {
+    const coverage = findCoverageGaps(
+      { "2030-06-03": [walk("2030-06-03", "0800")] },
+      DEFAULT_COVERAGE_RULES,
+      availability,
+    );
+
+    expect(coverage["2030-06-03"]).toEqual([
+      expect.objectContaining({ label: "evening", missing: 1, suggestedTime: "1600" }),
+    ]);
+  });
+
+  it("suggests the first time a walk still fits", () => {
+    const coverage = findCoverageGaps(
+      { "2030-06-03": [walk("2030-06-03", "1600", 60)] },
+      [{ label: "evening", start: "1600", end: "2030", walks: 2 }],
+      availability,
+    );
+
+    expect(coverage["2030-06-03"][0]).toMatchObject({ missing: 1, suggestedTime: "1700" });
+  });
+
+  it("needs nothing on blackout dates", () => {
+    const coverage = findCoverageGaps({ "2030-06-04": [] }, DEFAULT_COVERAGE_RULES, availability);
+
+    expect(coverage["2030-06-04"]).toEqual([]);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { getWalkStatus, canCheckIn } from "@shared/walkStatus";
+
+const walk = { date: "2030-06-03", time: "0900", duration: 30 };
+
+describe("getWalkStatus", () => {
+  it("counts a walk nobody checked in to by its end as missed", () => {
+    expect(getWalkStatus(walk, { date: "2030-06-03", time: "0929" })).toBe("scheduled");
+    expect(getWalkStatus(walk, { date: "2030-06-03", time: "0930" })).toBe("missed");
+    expect(getWalkStatus(walk, { date: "2030-06-04", time: "0800" })).toBe("missed");
+    expect(getWalkStatus({ ...walk, checkedInAt: 1, checkedOutAt: 2 }, { date: "2030-06-04", time: "0800" }))
+      .toBe("completed");
+  });
+
+  it("opens check-in shortly before the walk starts", () => {
+    expect(canCheckIn(walk, { date: "2030-06-03", time: "0829" })).toBe(false);
+    expect(canCheckIn(walk, { date: "2030-06-03", time: "0830" })).toBe(true);
+    expect(canCheckIn({ ...walk, checkedInAt: 1 }, { date: "2030-06-03", time: "0905" })).toBe(false);
+  });
+});